@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the platform device stream (GET /api/devices/stream).
+ *
+ * Usage (from dinodia-kiosk):
+ *   node scripts/deviceStreamServer.js [--port=8787] [--interval=3000] [--entities=light.kitchen,cover.blind]
+ *
+ * Then set ENV.DINODIA_PLATFORM_STREAM_API to http://<this-machine>:8787 in a dev build.
+ * Deltas only apply to entities the kiosk already shows, so pass ids from your own hub.
+ *
+ * Emits `delta` events with incrementing ids, honours Last-Event-ID for resume, and sends
+ * `resync` when asked to resume from an id it no longer has. POST /deltas with a JSON delta
+ * (or array of deltas) to push your own.
+ */
+
+const http = require('http');
+
+function readArg(name, fallback) {
+  const prefix = `--${name}=`;
+  const match = process.argv.find((arg) => arg.startsWith(prefix));
+  return match ? match.slice(prefix.length) : fallback;
+}
+
+const port = Number(readArg('port', '8787'));
+const intervalMs = Number(readArg('interval', '3000'));
+const entities = readArg(
+  'entities',
+  'light.kitchen,cover.living_room_blind,climate.boiler,media_player.living_room_tv'
+)
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+const HISTORY_LIMIT = 200;
+const HEARTBEAT_MS = 15000;
+
+const history = []; // { id, delta }
+const clients = new Set();
+let nextId = 1;
+const model = new Map(entities.map((entityId) => [entityId, { on: false, level: 50 }]));
+
+function writeEvent(res, id, event, data) {
+  res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function publish(delta) {
+  const id = String(nextId++);
+  history.push({ id, delta });
+  if (history.length > HISTORY_LIMIT) history.shift();
+  clients.forEach((res) => writeEvent(res, id, 'delta', delta));
+}
+
+function randomDelta() {
+  const entityId = entities[Math.floor(Math.random() * entities.length)];
+  const current = model.get(entityId);
+  const domain = entityId.split('.')[0];
+  if (domain === 'cover') {
+    current.level = current.level > 0 ? 0 : 100;
+    return {
+      entityId,
+      state: current.level > 0 ? 'open' : 'closed',
+      attributes: { current_position: current.level },
+    };
+  }
+  if (domain === 'climate') {
+    current.level = 18 + Math.round(Math.random() * 6);
+    return { entityId, state: 'heat', attributes: { temperature: current.level } };
+  }
+  current.on = !current.on;
+  if (domain === 'light') {
+    return {
+      entityId,
+      state: current.on ? 'on' : 'off',
+      attributes: current.on ? { brightness: 200 } : {},
+    };
+  }
+  return { entityId, state: current.on ? 'on' : 'off' };
+}
+
+function handleStream(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 2000\n\n');
+
+  const resumeFrom = req.headers['last-event-id'];
+  if (resumeFrom) {
+    const index = history.findIndex((item) => item.id === resumeFrom);
+    if (index === -1) {
+      writeEvent(res, String(nextId - 1), 'resync', {});
+    } else {
+      history.slice(index + 1).forEach((item) => writeEvent(res, item.id, 'delta', item.delta));
+    }
+  }
+
+  clients.add(res);
+  console.log(`[stream] client connected${resumeFrom ? ` (resume from ${resumeFrom})` : ''}`);
+  req.on('close', () => {
+    clients.delete(res);
+    console.log('[stream] client disconnected');
+  });
+}
+
+function handlePush(req, res) {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      const parsed = JSON.parse(body);
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach(publish);
+      res.writeHead(204);
+      res.end();
+    } catch (err) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'GET' && url.pathname === '/api/devices/stream') return handleStream(req, res);
+  if (req.method === 'POST' && url.pathname === '/deltas') return handlePush(req, res);
+  res.writeHead(404);
+  res.end();
+});
+
+setInterval(() => clients.forEach((res) => res.write(': ping\n\n')), HEARTBEAT_MS);
+if (intervalMs > 0) setInterval(() => publish(randomDelta()), intervalMs);
+
+server.listen(port, () => {
+  console.log(`Device stream stand-in listening on http://localhost:${port}/api/devices/stream`);
+});
@@ -0,0 +1,230 @@
+// src/api/automationTraces.ts
+import type { HaMode } from './dinodia';
+import type { HaConnection } from '../models/haConnection';
+import { platformFetch } from './platformFetch';
+import { getHaConnectionForMode } from './haSecrets';
+import { runOnHaRoute, type HaRoute } from './haRouter';
+import { haWsCall } from './haWebSocket';
+import { summarizeAction } from './automations';
+
+type PlatformOpts = { haConnection?: HaConnection | null; mode?: HaMode };
+
+export type TraceStepOutcome = 'passed' | 'failed' | 'ran' | 'error' | 'not_reached';
+
+export type AutomationTraceStep = {
+  path: string;
+  label: string;
+  outcome: TraceStepOutcome;
+  /** Nesting below the top-level step, e.g. 1 for an action inside a parallel block. */
+  depth: number;
+  timestamp: string | null;
+  error: string | null;
+};
+
+export type AutomationTraceRun = {
+  runId: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** 'running' or 'stopped'. */
+  state: string;
+  /** How the run ended, as Home Assistant reports it: finished, failed_conditions, error, aborted… */
+  execution: string | null;
+  trigger: string | null;
+  lastStep: string | null;
+  error: string | null;
+};
+
+export type AutomationTraceDetail = AutomationTraceRun & {
+  conditions: AutomationTraceStep[];
+  actions: AutomationTraceStep[];
+};
+
+export async function listAutomationTraces(automationId: string, opts: PlatformOpts = {}): Promise<AutomationTraceRun[]> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => listAutomationTracesOnRoute(route, automationId, opts));
+}
+
+async function listAutomationTracesOnRoute(
+  route: HaRoute,
+  automationId: string,
+  opts: PlatformOpts
+): Promise<AutomationTraceRun[]> {
+  let raw: unknown;
+  if (route === 'cloud') {
+    const { data } = await platformFetch<{ ok?: boolean; traces?: unknown[]; error?: string }>(
+      `/api/automations/${encodeURIComponent(automationId)}/traces?mode=cloud`,
+      { method: 'GET' }
+    );
+    if (data.ok === false) throw new Error(data.error || 'Unable to load automation history.');
+    raw = data.traces;
+  } else {
+    const ha = await getHaConnectionForMode(route, opts.haConnection ?? undefined);
+    raw = await haWsCall<unknown[]>(ha, 'trace/list', { domain: 'automation', item_id: automationId });
+  }
+  return (Array.isArray(raw) ? raw : [])
+    .map(parseTraceRun)
+    .filter((run): run is AutomationTraceRun => run !== null)
+    .sort((a, b) => (b.startedAt ?? '').localeCompare(a.startedAt ?? ''));
+}
+
+export async function getAutomationTrace(
+  automationId: string,
+  runId: string,
+  opts: PlatformOpts = {}
+): Promise<AutomationTraceDetail> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => getAutomationTraceOnRoute(route, automationId, runId, opts));
+}
+
+async function getAutomationTraceOnRoute(
+  route: HaRoute,
+  automationId: string,
+  runId: string,
+  opts: PlatformOpts
+): Promise<AutomationTraceDetail> {
+  let raw: any;
+  if (route === 'cloud') {
+    const { data } = await platformFetch<{ ok?: boolean; trace?: unknown; error?: string }>(
+      `/api/automations/${encodeURIComponent(automationId)}/traces/${encodeURIComponent(runId)}?mode=cloud`,
+      { method: 'GET' }
+    );
+    if (data.ok === false) throw new Error(data.error || 'Unable to load this run.');
+    raw = data.trace;
+  } else {
+    const ha = await getHaConnectionForMode(route, opts.haConnection ?? undefined);
+    raw = await haWsCall<any>(ha, 'trace/get', { domain: 'automation', item_id: automationId, run_id: runId });
+  }
+  const run = parseTraceRun(raw);
+  if (!run) throw new Error('This run is no longer stored on the Dinodia Hub.');
+  const steps = raw?.trace && typeof raw.trace === 'object' ? (raw.trace as Record<string, any[]>) : {};
+  const config = raw?.config && typeof raw.config === 'object' ? raw.config : {};
+  return {
+    ...run,
+    trigger: run.trigger ?? triggerFromSteps(steps),
+    conditions: collectSteps(steps, config, 'condition'),
+    actions: collectSteps(steps, config, 'action'),
+  };
+}
+
+function parseTraceRun(raw: any): AutomationTraceRun | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.run_id !== 'string') return null;
+  const timestamp = raw.timestamp && typeof raw.timestamp === 'object' ? raw.timestamp : {};
+  const error = typeof raw.error === 'string' && raw.error.trim() ? raw.error : null;
+  return {
+    runId: raw.run_id,
+    startedAt: typeof timestamp.start === 'string' ? timestamp.start : null,
+    finishedAt: typeof timestamp.finish === 'string' ? timestamp.finish : null,
+    state: typeof raw.state === 'string' ? raw.state : 'stopped',
+    execution: typeof raw.script_execution === 'string' ? raw.script_execution : null,
+    trigger: typeof raw.trigger === 'string' && raw.trigger.trim() ? raw.trigger : null,
+    lastStep: typeof raw.last_step === 'string' ? raw.last_step : null,
+    error,
+  };
+}
+
+function triggerFromSteps(steps: Record<string, any[]>): string | null {
+  const key = Object.keys(steps).find((path) => path === 'trigger' || path.startsWith('trigger/'));
+  const description = key ? steps[key]?.[0]?.changed_variables?.trigger?.description : null;
+  return typeof description === 'string' ? description : null;
+}
+
+// Trace paths mirror the automation config, e.g. action/1/parallel/0 is the first branch of the second step.
+function configNodeAt(config: any, path: string): any {
+  const [root, ...rest] = path.split('/');
+  let node: any = config[`${root}s`] ?? config[root];
+  for (const segment of rest) {
+    if (node == null) return null;
+    node = Array.isArray(node) ? node[Number(segment)] : node[segment];
+  }
+  return node;
+}
+
+function describeCondition(condition: any): string {
+  if (!condition || typeof condition !== 'object') return 'Condition';
+  const entity = Array.isArray(condition.entity_id) ? condition.entity_id.join(', ') : condition.entity_id;
+  switch (condition.condition) {
+    case 'state':
+      return `${entity} is ${Array.isArray(condition.state) ? condition.state.join(' or ') : condition.state}`;
+    case 'numeric_state': {
+      const bounds = [
+        condition.above !== undefined ? `above ${condition.above}` : null,
+        condition.below !== undefined ? `below ${condition.below}` : null,
+      ].filter(Boolean);
+      return `${entity}${condition.attribute ? ` ${condition.attribute}` : ''} ${bounds.join(' and ')}`;
+    }
+    case 'time': {
+      if (Array.isArray(condition.weekday)) return `Day is ${condition.weekday.join(', ')}`;
+      const window = [
+        condition.after ? `after ${condition.after}` : null,
+        condition.before ? `before ${condition.before}` : null,
+      ].filter(Boolean);
+      return `Time ${window.join(' and ')}`;
+    }
+    case 'sun':
+      return `Sun ${[condition.after, condition.before].filter(Boolean).join(' / ')}`;
+    case 'and':
+      return 'All of';
+    case 'or':
+      return 'Any of';
+    case 'not':
+      return 'None of';
+    default:
+      return String(condition.condition ?? 'Condition');
+  }
+}
+
+function describeStep(kind: 'condition' | 'action', node: any): string {
+  if (kind === 'condition') return describeCondition(node);
+  if (node && Array.isArray(node.parallel)) return 'Together';
+  if (node && Array.isArray(node.sequence)) return 'Sequence';
+  return summarizeAction(node) ?? 'Step';
+}
+
+function collectSteps(steps: Record<string, any[]>, config: any, kind: 'condition' | 'action'): AutomationTraceStep[] {
+  const result: AutomationTraceStep[] = Object.keys(steps)
+    .filter((path) => path.startsWith(`${kind}/`))
+    .map((path) => {
+      const entries = Array.isArray(steps[path]) ? steps[path] : [];
+      const last = entries[entries.length - 1] ?? {};
+      const error = typeof last.error === 'string' && last.error.trim() ? last.error : null;
+      let outcome: TraceStepOutcome = 'ran';
+      if (error) outcome = 'error';
+      else if (kind === 'condition') outcome = last.result?.result === false ? 'failed' : 'passed';
+      return {
+        path,
+        label: describeStep(kind, configNodeAt(config, path)),
+        outcome,
+        depth: Math.max(0, Math.floor((path.split('/').length - 2) / 2)),
+        timestamp: typeof last.timestamp === 'string' ? last.timestamp : null,
+        error,
+      };
+    });
+
+  // Top-level steps missing from the trace were never reached, usually because an earlier one stopped the run.
+  const configured = config[`${kind}s`] ?? config[kind];
+  const list = Array.isArray(configured) ? configured : configured ? [configured] : [];
+  list.forEach((node: any, idx: number) => {
+    const path = `${kind}/${idx}`;
+    if (result.some((step) => step.path === path)) return;
+    result.push({
+      path,
+      label: describeStep(kind, node),
+      outcome: 'not_reached',
+      depth: 0,
+      timestamp: null,
+      error: null,
+    });
+  });
+
+  return result.sort((a, b) => comparePaths(a.path, b.path));
+}
+
+function comparePaths(a: string, b: string) {
+  const left = a.split('/');
+  const right = b.split('/');
+  for (let i = 0; i < Math.min(left.length, right.length); i += 1) {
+    if (left[i] === right[i]) continue;
+    const l = Number(left[i]);
+    const r = Number(right[i]);
+    return Number.isFinite(l) && Number.isFinite(r) ? l - r : left[i].localeCompare(right[i]);
+  }
+  return left.length - right.length;
+}
@@ -1,10 +1,24 @@
-import type { AutomationDraft, AutomationAction, AutomationTrigger } from '../automations/automationModel';
-import { compileAutomationDraftToHaConfig } from '../automations/haCompiler';
-import type { HaMode } from './dinodia';
+import type {
+  AutomationDraft,
+  AutomationAction,
+  AutomationCondition,
+  AutomationTrigger,
+} from '../automations/automationModel';
+import {
+  BLIND_CONTROLLER_SERVICE,
+  blindTravelSeconds,
+  compileAutomationDraftToHaConfig,
+  parseRelativeStepTemplate,
+} from '../automations/haCompiler';
+import { decompileHaAutomationConfig } from '../automations/haDecompiler';
+import { describePresenceTrigger } from '../presence/presenceModel';
+import { fetchBlindTravelOverrides, type HaMode } from './dinodia';
 import type { HaConnection } from '../models/haConnection';
 import { platformFetch } from './platformFetch';
 import { getHaConnectionForMode } from './haSecrets';
+import { runOnHaRoute, type HaRoute } from './haRouter';
 import { assertHaUrlAllowed } from './haUrlPolicy';
+import { fetchHaUrl } from './haDemo';
 
 export type AutomationSummary = {
   id: string;
@@ -20,6 +34,8 @@ export type AutomationSummary = {
   targetDeviceIds?: string[];
   hasTemplates?: boolean;
   canEdit?: boolean;
+  /** Why the kiosk editor can't open it, when canEdit is false. */
+  readOnlyReason?: string;
   mode?: string;
   raw?: {
     triggers?: unknown[];
@@ -43,10 +59,9 @@ function makeAutomationId() {
   return `dinodia_${time}${random}`.replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
 }
 
-async function resolveHa(conn: HaConnection | null | undefined, mode?: HaMode): Promise<HaConn | null> {
-  const targetMode: HaMode = mode === 'cloud' ? 'cloud' : 'home';
+async function resolveHa(conn: HaConnection | null | undefined, route: HaRoute): Promise<HaConn | null> {
   try {
-    const ha = await getHaConnectionForMode(targetMode, conn ?? undefined);
+    const ha = await getHaConnectionForMode(route, conn ?? undefined);
     return { baseUrl: ha.baseUrl.replace(/\/+$/, ''), token: ha.longLivedToken };
   } catch {
     return null;
@@ -56,7 +71,7 @@ async function resolveHa(conn: HaConnection | null | undefined, mode?: HaMode):
 async function haFetch(ha: HaConn, path: string, init: RequestInit = {}) {
   assertHaUrlAllowed(ha.baseUrl);
   const url = `${ha.baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
-  const res = await fetch(url, {
+  const res = await fetchHaUrl(url, {
     ...init,
     headers: {
       Authorization: `Bearer ${ha.token}`,
@@ -85,7 +100,7 @@ function actionTargetsDevice(action: any): boolean {
   if (typeof action.device_id === 'string' && action.device_id.trim().length > 0) return true;
   const targetEntity = entityIdFromTarget(action.target);
   if (targetEntity) return true;
-  const directEntity = action.entity_id ?? action.data?.entity_id;
+  const directEntity = action.entity_id ?? action.data?.entity_id ?? action.data?.target_cover;
   if (typeof directEntity === 'string' && directEntity.trim().length > 0) return true;
   if (Array.isArray(directEntity) && directEntity.length > 0) return true;
   if (Array.isArray(action.choose)) {
@@ -98,10 +113,48 @@ function actionTargetsDevice(action: any): boolean {
   if (Array.isArray(action.sequence)) {
     return action.sequence.some(actionTargetsDevice);
   }
+  if (Array.isArray(action.parallel)) {
+    return action.parallel.some(actionTargetsDevice);
+  }
+  if (action.kind === 'parallel' && Array.isArray(action.actions)) {
+    return action.actions.some(actionTargetsDevice);
+  }
   return false;
 }
 
-function summarizeTrigger(trigger: any): string | null {
+function formatSeconds(total: number): string {
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  if (minutes < 60) return seconds ? `${minutes}m ${seconds}s` : `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+// HA durations arrive as "HH:MM:SS", a number of seconds or a { hours, minutes, seconds } map.
+function durationToSeconds(value: any): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parts = value.split(':').map((p) => Number(p));
+    if (parts.some((p) => !Number.isFinite(p))) return null;
+    return parts.reduce((acc, p) => acc * 60 + p, 0);
+  }
+  if (value && typeof value === 'object') {
+    const { days = 0, hours = 0, minutes = 0, seconds = 0 } = value;
+    const total = Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+    return Number.isFinite(total) ? total : null;
+  }
+  return null;
+}
+
+function offsetToMinutes(value: any): number {
+  if (typeof value === 'string' && value.trim().startsWith('-')) {
+    return -((durationToSeconds(value.trim().slice(1)) ?? 0) / 60);
+  }
+  return (durationToSeconds(value) ?? 0) / 60;
+}
+
+export function summarizeTrigger(trigger: any): string | null {
   if (!trigger || typeof trigger !== 'object') return null;
   const platform = trigger.platform || trigger.kind;
   switch (platform) {
@@ -110,9 +163,12 @@ function summarizeTrigger(trigger: any): string | null {
       if (!entityId) return 'State change';
       const from = trigger.from ?? trigger.from_state;
       const to = trigger.to ?? trigger.to_state;
-      if (from && to) return `${entityId}: ${from} → ${to}`;
-      if (to) return `${entityId} → ${to}`;
-      if (from) return `${entityId} from ${from}`;
+      const forSeconds =
+        typeof trigger.forMinutes === 'number' ? trigger.forMinutes * 60 : durationToSeconds(trigger.for);
+      const duration = forSeconds ? ` for ${formatSeconds(forSeconds)}` : '';
+      if (from && to) return `${entityId}: ${from} → ${to}${duration}`;
+      if (to) return `${entityId} → ${to}${duration}`;
+      if (from) return `${entityId} from ${from}${duration}`;
       return `${entityId} changed`;
     }
     case 'numeric_state': {
@@ -121,7 +177,17 @@ function summarizeTrigger(trigger: any): string | null {
       const above = typeof trigger.above !== 'undefined' ? `>${trigger.above}` : '';
       const below = typeof trigger.below !== 'undefined' ? `<${trigger.below}` : '';
       const bounds = [above, below].filter(Boolean).join(' ');
-      return `${entityId || 'Value'}${attribute} ${bounds}`.trim();
+      const forSeconds = durationToSeconds(trigger.for);
+      const duration = forSeconds ? ` for ${formatSeconds(forSeconds)}` : '';
+      return `${entityId || 'Value'}${attribute} ${bounds}${duration}`.trim();
+    }
+    case 'numeric_threshold': {
+      const attribute = trigger.attribute ? ` (${trigger.attribute})` : '';
+      const above = typeof trigger.above === 'number' ? `>${trigger.above}` : '';
+      const below = typeof trigger.below === 'number' ? `<${trigger.below}` : '';
+      const bounds = [above, below].filter(Boolean).join(' ');
+      const duration = trigger.forMinutes ? ` for ${formatSeconds(trigger.forMinutes * 60)}` : '';
+      return `${trigger.entityId || 'Value'}${attribute} ${bounds}${duration}`.trim();
     }
     case 'numeric_delta': {
       const entityId = trigger.entityId || trigger.entity_id;
@@ -148,6 +214,19 @@ function summarizeTrigger(trigger: any): string | null {
       if (days) return `On ${days}`;
       return 'Scheduled time';
     }
+    case 'sun': {
+      const event = trigger.event === 'sunrise' ? 'sunrise' : 'sunset';
+      const minutes =
+        typeof trigger.offsetMinutes === 'number' ? trigger.offsetMinutes : offsetToMinutes(trigger.offset);
+      if (!minutes) return `At ${event}`;
+      return `${formatSeconds(Math.abs(minutes) * 60)} ${minutes < 0 ? 'before' : 'after'} ${event}`;
+    }
+    case 'zone': {
+      const entityId = trigger.entity_id || 'Someone';
+      return `${entityId} ${trigger.event === 'leave' ? 'leaves' : 'enters'} ${trigger.zone || 'a zone'}`;
+    }
+    case 'presence':
+      return describePresenceTrigger(trigger);
     default:
       return platform ? String(platform) : null;
   }
@@ -162,19 +241,45 @@ function summarizeTriggers(triggers: any[]): string | undefined {
   return parts.join('; ');
 }
 
-function summarizeAction(action: any): string | null {
+export function summarizeAction(action: any): string | null {
   if (!action || typeof action !== 'object') return null;
   if (action.kind === 'device_command') {
     const target = action.entityId || action.entity_id;
     return target ? `${action.command} → ${target}` : String(action.command);
   }
+  if (action.kind === 'activate_scene') {
+    return `Scene → ${action.name || action.sceneEntityId || action.sceneId}`;
+  }
+  if (action.kind === 'delay' || 'delay' in action) {
+    const seconds = action.kind === 'delay' ? action.seconds : durationToSeconds(action.delay);
+    return typeof seconds === 'number' ? `Wait ${formatSeconds(seconds)}` : 'Wait';
+  }
+  if (action.kind === 'wait_for_state') {
+    const timeout = action.timeoutSeconds ? ` (up to ${formatSeconds(action.timeoutSeconds)})` : '';
+    return `Wait for ${action.entityId} → ${action.state}${timeout}`;
+  }
+  if (Array.isArray(action.wait_for_trigger) || typeof action.wait_template === 'string') {
+    const first = Array.isArray(action.wait_for_trigger) ? summarizeTrigger(action.wait_for_trigger[0]) : null;
+    const timeoutSeconds = durationToSeconds(action.timeout);
+    const timeout = timeoutSeconds ? ` (up to ${formatSeconds(timeoutSeconds)})` : '';
+    return `${first ? `Wait for ${first}` : 'Wait for condition'}${timeout}`;
+  }
+  const parallel = action.kind === 'parallel' ? action.actions : action.parallel;
+  if (Array.isArray(parallel)) {
+    const parts = parallel.map(summarizeAction).filter((p: string | null): p is string => !!p);
+    return parts.length > 0 ? `Together: ${parts.join(' + ')}` : 'Together';
+  }
   const targetVal =
     entityIdFromTarget(action.target) ||
     (typeof action.entity_id === 'string' ? action.entity_id : null) ||
     (Array.isArray(action.entity_id) ? action.entity_id.join(', ') : null) ||
     (typeof action.data?.entity_id === 'string' ? action.data.entity_id : null) ||
-    (Array.isArray(action.data?.entity_id) ? action.data.entity_id.join(', ') : null);
+    (Array.isArray(action.data?.entity_id) ? action.data.entity_id.join(', ') : null) ||
+    (typeof action.data?.target_cover === 'string' ? action.data.target_cover : null);
   const target = typeof targetVal === 'string' ? targetVal : null;
+  if ((action.service ?? action.action) === 'scene.turn_on' && target) {
+    return `Scene → ${target}`;
+  }
   if (action.service) {
     return target ? `${action.service} → ${target}` : String(action.service);
   }
@@ -182,7 +287,7 @@ function summarizeAction(action: any): string | null {
     return target ? `${action.type} → ${target}` : String(action.type);
   }
   if (Array.isArray(action.sequence) && action.sequence.length > 0) {
-    const nested = summarizeAction(action.sequence[0]);
+    const nested = summarizeActions(action.sequence);
     return nested ? `Sequence: ${nested}` : 'Sequence';
   }
   if (Array.isArray(action.choose) && action.choose.length > 0) {
@@ -197,13 +302,14 @@ function summarizeActions(actions: any[]): string | undefined {
     .map((a) => summarizeAction(a))
     .filter((a): a is string => typeof a === 'string' && a.trim().length > 0);
   if (parts.length === 0) return undefined;
-  return parts.join('; ');
+  return parts.join(', then ');
 }
 
 function hasTemplates(node: any): boolean {
   if (node == null) return false;
   if (typeof node === 'string') {
     if (node.includes('trigger.to_state') && node.includes('trigger.from_state')) return false;
+    if (parseRelativeStepTemplate(node)) return false;
     return node.includes('{{');
   }
   if (Array.isArray(node)) return node.some(hasTemplates);
@@ -214,7 +320,11 @@ function hasTemplates(node: any): boolean {
 }
 
 export async function listAutomations(opts: PlatformOpts = {}): Promise<AutomationSummary[]> {
-  if (opts.mode === 'cloud') {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => listAutomationsOnRoute(route, opts));
+}
+
+async function listAutomationsOnRoute(route: HaRoute, opts: PlatformOpts): Promise<AutomationSummary[]> {
+  if (route === 'cloud') {
     const { data } = await platformFetch<{ ok?: boolean; automations?: any[]; error?: string }>(
       '/api/automations?mode=cloud',
       { method: 'GET' }
@@ -226,7 +336,7 @@ export async function listAutomations(opts: PlatformOpts = {}): Promise<Automati
     return filterAutomations(list);
   }
 
-  const ha = await resolveHa(opts.haConnection, opts.mode);
+  const ha = await resolveHa(opts.haConnection, route);
   if (!ha) throw new Error('Dinodia Hub connection is not configured.');
   const list = await maybeListAutomationsViaHa(ha);
   const enriched = await enrichAutomationsWithHaDetails(list, ha);
@@ -234,7 +344,15 @@ export async function listAutomations(opts: PlatformOpts = {}): Promise<Automati
 }
 
 export async function createAutomation(draft: AutomationDraft, opts: PlatformOpts = {}): Promise<void> {
-  if (opts.mode === 'cloud') {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => createAutomationOnRoute(route, draft, opts), { mutating: true });
+}
+
+async function createAutomationOnRoute(
+  route: HaRoute,
+  draft: AutomationDraft,
+  opts: PlatformOpts
+): Promise<void> {
+  if (route === 'cloud') {
     const payload = toPlatformAutomationPayload(draft);
     const { data } = await platformFetch<{ ok?: boolean; id?: string; error?: string }>(
       '/api/automations?mode=cloud',
@@ -247,9 +365,9 @@ export async function createAutomation(draft: AutomationDraft, opts: PlatformOpt
     return;
   }
 
-  const ha = await resolveHa(opts.haConnection, opts.mode);
+  const ha = await resolveHa(opts.haConnection, route);
   if (!ha) throw new Error('Dinodia Hub connection is not configured.');
-  const haConfig = compileAutomationDraftToHaConfig(draft);
+  const haConfig = await compileWithBlindOverrides(draft);
   const id = (haConfig.id || makeAutomationId()).replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
   const payload = { ...haConfig, id };
   await haFetch(ha, `/api/config/automation/config/${encodeURIComponent(id)}`, {
@@ -267,7 +385,20 @@ export async function createAutomation(draft: AutomationDraft, opts: PlatformOpt
 }
 
 export async function updateAutomation(id: string, draft: AutomationDraft, opts: PlatformOpts = {}) {
-  if (opts.mode === 'cloud') {
+  return runOnHaRoute(
+    opts.mode ?? 'home',
+    (route) => updateAutomationOnRoute(route, id, draft, opts),
+    { mutating: true }
+  );
+}
+
+async function updateAutomationOnRoute(
+  route: HaRoute,
+  id: string,
+  draft: AutomationDraft,
+  opts: PlatformOpts
+) {
+  if (route === 'cloud') {
     const payload = toPlatformAutomationPayload({ ...draft, id });
     const { data } = await platformFetch<{ ok?: boolean; error?: string }>(
       `/api/automations/${encodeURIComponent(id)}?mode=cloud`,
@@ -280,9 +411,9 @@ export async function updateAutomation(id: string, draft: AutomationDraft, opts:
     return;
   }
 
-  const ha = await resolveHa(opts.haConnection, opts.mode);
+  const ha = await resolveHa(opts.haConnection, route);
   if (!ha) throw new Error('Dinodia Hub connection is not configured.');
-  const haConfig = compileAutomationDraftToHaConfig({ ...draft, id });
+  const haConfig = await compileWithBlindOverrides({ ...draft, id });
   await haFetch(ha, `/api/config/automation/config/${encodeURIComponent(id)}`, {
     method: 'POST',
     body: JSON.stringify({ ...haConfig, id }),
@@ -290,7 +421,11 @@ export async function updateAutomation(id: string, draft: AutomationDraft, opts:
 }
 
 export async function deleteAutomation(id: string, opts: PlatformOpts = {}): Promise<void> {
-  if (opts.mode === 'cloud') {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => deleteAutomationOnRoute(route, id, opts), { mutating: true });
+}
+
+async function deleteAutomationOnRoute(route: HaRoute, id: string, opts: PlatformOpts): Promise<void> {
+  if (route === 'cloud') {
     const { data } = await platformFetch<{ ok?: boolean; error?: string }>(
       `/api/automations/${encodeURIComponent(id)}?mode=cloud`,
       { method: 'DELETE' }
@@ -299,7 +434,7 @@ export async function deleteAutomation(id: string, opts: PlatformOpts = {}): Pro
     return;
   }
 
-  const ha = await resolveHa(opts.haConnection, opts.mode);
+  const ha = await resolveHa(opts.haConnection, route);
   if (!ha) throw new Error('Dinodia Hub connection is not configured.');
   await haFetch(ha, `/api/config/automation/config/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(
     () => undefined
@@ -314,7 +449,20 @@ export async function deleteAutomation(id: string, opts: PlatformOpts = {}): Pro
 }
 
 export async function setAutomationEnabled(id: string, enabled: boolean, opts: PlatformOpts = {}): Promise<void> {
-  if (opts.mode === 'cloud') {
+  return runOnHaRoute(
+    opts.mode ?? 'home',
+    (route) => setAutomationEnabledOnRoute(route, id, enabled, opts),
+    { mutating: true }
+  );
+}
+
+async function setAutomationEnabledOnRoute(
+  route: HaRoute,
+  id: string,
+  enabled: boolean,
+  opts: PlatformOpts
+): Promise<void> {
+  if (route === 'cloud') {
     const { data } = await platformFetch<{ ok?: boolean; error?: string }>(
       `/api/automations/${encodeURIComponent(id)}/enabled?mode=cloud`,
       {
@@ -326,7 +474,7 @@ export async function setAutomationEnabled(id: string, enabled: boolean, opts: P
     return;
   }
 
-  const ha = await resolveHa(opts.haConnection, opts.mode);
+  const ha = await resolveHa(opts.haConnection, route);
   if (!ha) throw new Error('Dinodia Hub connection is not configured.');
   const service = enabled ? 'turn_on' : 'turn_off';
   await haFetch(ha, `/api/services/automation/${service}`, {
@@ -335,6 +483,94 @@ export async function setAutomationEnabled(id: string, enabled: boolean, opts: P
   });
 }
 
+function blindEntityIds(actions: AutomationAction[]): string[] {
+  return actions.flatMap((action) => {
+    if (action.kind === 'parallel') return blindEntityIds(action.actions);
+    return action.kind === 'device_command' && action.command.startsWith('blind/') ? [action.entityId] : [];
+  });
+}
+
+// Blinds run through the hub's blind controller, which needs each blind's travel time at compile time.
+async function compileWithBlindOverrides(draft: AutomationDraft) {
+  const entityIds = Array.from(new Set(blindEntityIds(draft.actions)));
+  let overrides = new Map<string, number>();
+  if (entityIds.length > 0) {
+    try {
+      overrides = await fetchBlindTravelOverrides(entityIds);
+    } catch {
+      // fall back to the default travel time
+    }
+  }
+  return compileAutomationDraftToHaConfig(draft, { blindTravelSeconds: Object.fromEntries(overrides) });
+}
+
+/**
+ * Give the hub automations that drive this blind through the blind controller its new travel time
+ * (null for the default). Only travel_seconds on those calls changes; the rest of each config,
+ * including automations built in Home Assistant, is saved back as it was. Resolves to the number updated;
+ * rejects over the cloud, where nothing can be updated.
+ */
+export async function updateBlindTravelInAutomations(
+  entityId: string,
+  travelOverride: number | null,
+  opts: PlatformOpts = {}
+): Promise<number> {
+  return runOnHaRoute(
+    opts.mode ?? 'home',
+    (route) => updateBlindTravelInAutomationsOnRoute(route, entityId, travelOverride, opts),
+    { mutating: true }
+  );
+}
+
+async function updateBlindTravelInAutomationsOnRoute(
+  route: HaRoute,
+  entityId: string,
+  travelOverride: number | null,
+  opts: PlatformOpts
+): Promise<number> {
+  // The platform has no way to patch saved automations, so say so rather than report nothing to update.
+  if (route === 'cloud') {
+    throw new Error(
+      'Automations that move this blind were not updated over the cloud. Save them again from the automations list.'
+    );
+  }
+  const ha = await resolveHa(opts.haConnection, route);
+  if (!ha) throw new Error('Dinodia Hub connection is not configured.');
+  const configs = (await fetchHaAutomationConfigs(ha)) ?? [];
+  const travelSeconds = blindTravelSeconds(travelOverride);
+  let updated = 0;
+  for (const config of configs) {
+    if (typeof config?.id !== 'string') continue;
+    if (!setBlindTravel([config.actions, config.action], entityId, travelSeconds)) continue;
+    await haFetch(ha, `/api/config/automation/config/${encodeURIComponent(config.id)}`, {
+      method: 'POST',
+      body: JSON.stringify(config),
+    });
+    updated += 1;
+  }
+  return updated;
+}
+
+// Walks any nesting (parallel, choose, sequence...) and updates blind-controller calls in place.
+function setBlindTravel(node: unknown, entityId: string, travelSeconds: number): boolean {
+  if (!node || typeof node !== 'object') return false;
+  let changed = false;
+  const step = node as Record<string, any>;
+  const service = step.service ?? step.action;
+  if (
+    service === BLIND_CONTROLLER_SERVICE &&
+    step.data?.target_cover === entityId &&
+    step.data.travel_seconds !== travelSeconds
+  ) {
+    step.data = { ...step.data, travel_seconds: travelSeconds };
+    changed = true;
+  }
+  Object.values(step).forEach((child) => {
+    if (setBlindTravel(child, entityId, travelSeconds)) changed = true;
+  });
+  return changed;
+}
+
 async function fetchHaAutomationConfig(ha: HaConn, id: string) {
   try {
     const res = await haFetch(ha, `/api/config/automation/config/${encodeURIComponent(id)}`);
@@ -402,6 +638,7 @@ async function enrichAutomationsWithHaDetails(list: AutomationSummary[], ha: HaC
       const targets = extractActionTargets(actions);
       const templates =
         hasTemplates(triggers) || hasTemplates(actions) || hasTemplates(config.condition ?? config.conditions);
+      const decompiled = decompileHaAutomationConfig(config);
       return {
         ...item,
         description: item.description || config.description || '',
@@ -412,7 +649,9 @@ async function enrichAutomationsWithHaDetails(list: AutomationSummary[], ha: HaC
         entities: targets.entityIds,
         targetDeviceIds: targets.deviceIds,
         hasTemplates: templates,
-        canEdit: !templates,
+        draft: decompiled.ok ? decompiled.draft : null,
+        canEdit: decompiled.ok,
+        readOnlyReason: decompiled.ok ? undefined : decompiled.reason,
         mode: config.mode ?? item.mode ?? 'single',
         raw: config,
       };
@@ -436,7 +675,8 @@ function extractActionTargets(actions: any[]): { entityIds: string[]; deviceIds:
     if (!node || typeof node !== 'object') return;
     const target = (node as Record<string, any>).target as Record<string, any> | undefined;
     const actionDevice = (node as Record<string, any>).device_id;
-    const directEntity = (node as Record<string, any>).entity_id ?? (node as Record<string, any>).data?.entity_id;
+    const data = (node as Record<string, any>).data;
+    const directEntity = (node as Record<string, any>).entity_id ?? data?.entity_id ?? data?.target_cover;
 
     addDevice(actionDevice);
     if (Array.isArray(actionDevice)) actionDevice.forEach(addDevice);
@@ -452,6 +692,7 @@ function extractActionTargets(actions: any[]): { entityIds: string[]; deviceIds:
     if (Array.isArray(directEntity)) directEntity.forEach(addEntity);
 
     if (Array.isArray(node.sequence)) node.sequence.forEach(visit);
+    if (Array.isArray(node.parallel)) node.parallel.forEach(visit);
     if (Array.isArray(node.choose)) {
       node.choose.forEach((branch: any) => {
         if (Array.isArray(branch.sequence)) branch.sequence.forEach(visit);
@@ -492,6 +733,8 @@ function mapPlatformAutomationToSummary(auto: any): AutomationSummary {
   const raw = auto?.raw ?? {};
   const triggers = Array.isArray(raw.triggers) ? raw.triggers : Array.isArray(raw.trigger) ? raw.trigger : [];
   const actions = Array.isArray(raw.actions) ? raw.actions : Array.isArray(raw.action) ? raw.action : [];
+  const decompiled = decompileHaAutomationConfig(raw);
+  const canEdit = auto?.canEdit !== false && decompiled.ok;
   return {
     id: typeof auto?.id === 'string' ? auto.id : String(auto?.id ?? '').replace(/^automation\\./, ''),
     alias: auto?.alias ?? 'Automation',
@@ -502,14 +745,23 @@ function mapPlatformAutomationToSummary(auto: any): AutomationSummary {
     entities: Array.isArray(auto?.entities) ? auto.entities : [],
     targetDeviceIds: Array.isArray(auto?.actionDeviceIds) ? auto.actionDeviceIds : [],
     hasTemplates: Boolean(auto?.hasTemplates),
-    canEdit: auto?.canEdit !== false,
+    draft: decompiled.ok ? decompiled.draft : null,
+    canEdit,
+    readOnlyReason: canEdit ? undefined : decompiled.ok ? 'The platform marks it read-only.' : decompiled.reason,
     mode: auto?.mode ?? 'single',
     raw: raw,
     hasDeviceAction: typeof auto?.hasDeviceAction === 'boolean' ? auto.hasDeviceAction : undefined,
   };
 }
 
+const PRESENCE_HUB_ONLY =
+  'Presence automations can only be saved through the Dinodia Hub. Connect to your home Wi-Fi.';
+
 function toPlatformAutomationPayload(draft: AutomationDraft): Record<string, unknown> {
+  // Checked up front: only the first trigger is mapped below, and presence can sit in any trigger or group.
+  if (draft.triggers.some((t) => t.kind === 'presence') || (draft.conditions ?? []).some(usesPresence)) {
+    throw new Error(PRESENCE_HUB_ONLY);
+  }
   const trigger = (draft.triggers && draft.triggers[0]) || null;
   const action = (draft.actions && draft.actions[0]) || null;
   const payload: Record<string, unknown> = {
@@ -525,9 +777,19 @@ function toPlatformAutomationPayload(draft: AutomationDraft): Record<string, unk
   if (action) {
     payload.action = mapActionToPlatform(action);
   }
+  if (draft.actions.length > 1) {
+    payload.actions = draft.actions.map(mapActionToPlatform);
+  }
+  if (draft.conditions && draft.conditions.length > 0) {
+    payload.conditions = draft.conditions.map(mapConditionToPlatform);
+  }
   return payload;
 }
 
+function usesPresence(condition: AutomationCondition): boolean {
+  return condition.kind === 'presence' || (condition.kind === 'group' && condition.conditions.some(usesPresence));
+}
+
 function mapTriggerToPlatform(trigger: AutomationTrigger, daysOfWeek?: string[]) {
   if (trigger.kind === 'state') {
     return {
@@ -535,6 +797,7 @@ function mapTriggerToPlatform(trigger: AutomationTrigger, daysOfWeek?: string[])
       entityId: trigger.entityId,
       mode: 'state_equals',
       to: trigger.to ?? undefined,
+      forMinutes: trigger.forMinutes ?? undefined,
     };
   }
   if (trigger.kind === 'numeric_delta') {
@@ -546,6 +809,17 @@ function mapTriggerToPlatform(trigger: AutomationTrigger, daysOfWeek?: string[])
       direction: trigger.direction === 'decrease' ? 'decreased' : 'increased',
     };
   }
+  if (trigger.kind === 'numeric_threshold') {
+    return {
+      type: 'device',
+      entityId: trigger.entityId,
+      mode: 'threshold',
+      attribute: trigger.attribute ?? undefined,
+      above: trigger.above ?? undefined,
+      below: trigger.below ?? undefined,
+      forMinutes: trigger.forMinutes ?? undefined,
+    };
+  }
   if (trigger.kind === 'position_equals') {
     return {
       type: 'device',
@@ -563,15 +837,76 @@ function mapTriggerToPlatform(trigger: AutomationTrigger, daysOfWeek?: string[])
       weekdays: Array.isArray(trigger.daysOfWeek) ? trigger.daysOfWeek : daysOfWeek ?? [],
     };
   }
+  if (trigger.kind === 'sun') {
+    return {
+      type: 'sun',
+      event: trigger.event,
+      offsetMinutes: trigger.offsetMinutes ?? 0,
+    };
+  }
+  if (trigger.kind === 'presence') {
+    // The platform has no presence trigger; saving would store an automation with no trigger at all.
+    throw new Error(PRESENCE_HUB_ONLY);
+  }
   return null;
 }
 
-function mapActionToPlatform(action: AutomationAction) {
-  if (action.kind !== 'device_command') return null;
-  return {
-    type: 'device_command',
-    entityId: action.entityId,
-    command: action.command,
-    value: action.value,
-  };
+function mapConditionToPlatform(condition: AutomationCondition): Record<string, unknown> {
+  switch (condition.kind) {
+    case 'state':
+      return { type: 'state', entityId: condition.entityId, state: condition.state, negate: condition.negate === true };
+    case 'numeric':
+      return {
+        type: 'numeric',
+        entityId: condition.entityId,
+        attribute: condition.attribute ?? undefined,
+        above: condition.above ?? undefined,
+        below: condition.below ?? undefined,
+      };
+    case 'time_window':
+      return { type: 'time', after: condition.after ?? undefined, before: condition.before ?? undefined };
+    case 'weekday':
+      return { type: 'weekday', weekdays: condition.daysOfWeek };
+    case 'device_on':
+      return { type: 'device_on', entityId: condition.entityId };
+    case 'sun':
+      return { type: 'sun', after: condition.after ?? undefined, before: condition.before ?? undefined };
+    case 'group':
+      return {
+        type: 'group',
+        operator: condition.operator,
+        conditions: condition.conditions.map(mapConditionToPlatform),
+      };
+    case 'presence':
+      // Like presence triggers, zone head counts only exist on the hub.
+      throw new Error(PRESENCE_HUB_ONLY);
+  }
+}
+
+function mapActionToPlatform(action: AutomationAction): Record<string, unknown> | null {
+  switch (action.kind) {
+    case 'device_command':
+      return {
+        type: 'device_command',
+        entityId: action.entityId,
+        command: action.command,
+        value: action.value,
+      };
+    case 'delay':
+      return { type: 'delay', seconds: action.seconds };
+    case 'wait_for_state':
+      return {
+        type: 'wait_for_state',
+        entityId: action.entityId,
+        to: action.state,
+        timeoutSeconds: action.timeoutSeconds ?? undefined,
+        continueOnTimeout: action.continueOnTimeout !== false,
+      };
+    case 'parallel':
+      return { type: 'parallel', actions: action.actions.map(mapActionToPlatform) };
+    case 'activate_scene':
+      return { type: 'activate_scene', sceneId: action.sceneId, sceneEntityId: action.sceneEntityId ?? undefined };
+    default:
+      return null;
+  }
 }
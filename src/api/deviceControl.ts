@@ -5,6 +5,8 @@ export type DeviceCommandPayload = {
   entityId: string;
   command: string;
   value?: number;
+  // Lets the platform ignore a replayed command it has already applied.
+  idempotencyKey?: string;
 };
 
 export async function sendCloudDeviceCommand(payload: DeviceCommandPayload): Promise<void> {
@@ -0,0 +1,59 @@
+// src/api/deviceStream.ts
+import { openPlatformStream, type PlatformStreamEvent } from './platformStream';
+
+export type CloudDeviceDelta = {
+  entityId: string;
+  name?: string;
+  state?: string;
+  attributes?: Record<string, unknown>;
+  removed?: boolean;
+};
+
+export type CloudDeviceStreamHandlers = {
+  onDelta: (delta: CloudDeviceDelta) => void;
+  // The server could not resume (or this is a fresh connection): reload the full device list.
+  onResync: () => void;
+  onStatus: (connected: boolean) => void;
+};
+
+const DEVICE_STREAM_PATH = '/api/devices/stream';
+
+function parseDeltas(event: PlatformStreamEvent): CloudDeviceDelta[] {
+  try {
+    const parsed = JSON.parse(event.data);
+    const list: unknown[] = Array.isArray(parsed?.deltas) ? parsed.deltas : [parsed];
+    return list.filter(
+      (item): item is CloudDeviceDelta =>
+        !!item && typeof (item as CloudDeviceDelta).entityId === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Live device deltas for cloud mode. Events are `delta` (one delta or `{ deltas: [...] }`) and
+ * `resync`; each carries an id the stream hands back as its resume token after a reconnect.
+ */
+export function subscribeCloudDeviceStream(handlers: CloudDeviceStreamHandlers): {
+  unsubscribe: () => void;
+} {
+  const stream = openPlatformStream(DEVICE_STREAM_PATH, {
+    onOpen: ({ resumed }) => {
+      handlers.onStatus(true);
+      // Without a resume token we cannot know what changed before the stream started.
+      if (!resumed) handlers.onResync();
+    },
+    onDisconnect: () => handlers.onStatus(false),
+    onEvent: (event) => {
+      if (event.event === 'resync') {
+        handlers.onResync();
+        return;
+      }
+      if (event.event !== 'delta') return;
+      parseDeltas(event).forEach(handlers.onDelta);
+    },
+  });
+
+  return { unsubscribe: () => stream.close() };
+}
@@ -9,6 +9,7 @@ import type { Role } from '../models/roles';
 import type { HaConnection } from '../models/haConnection';
 import { fetchHomeModeSecrets } from './haSecrets';
 import { isLocalIp } from '../utils/net';
+import { runOnHaRoute, type HaRoute } from './haRouter';
 
 type HaConnectionSafe = {
   id: number;
@@ -16,7 +17,8 @@ type HaConnectionSafe = {
   cloudEnabled?: boolean;
 };
 
-export type HaMode = 'home' | 'cloud';
+// 'auto' prefers the hub and falls back to Dinodia Cloud when it cannot be reached.
+export type HaMode = 'home' | 'cloud' | 'auto';
 export const HOME_WIFI_PROMPT =
   'To use Home mode connect to your home Wi-Fi by clicking the Wi-Fi name in the navigation bar';
 
@@ -33,6 +35,9 @@ type KioskContextResponse = {
   accessRules?: AccessRule[];
 };
 
+// What a user is allowed to see, as of the last kiosk context fetch (home, hub and area access).
+const kioskScopes = new Map<number, string>();
+
 type BlindTravelSecondsResponse = {
   ok?: boolean;
   overrides?: { entityId: string; blindTravelSeconds: number | null }[];
@@ -50,20 +55,35 @@ export async function fetchKioskContext(): Promise<{
     throw new Error('We could not load your account. Please sign in again.');
   }
 
+  const accessRules = Array.isArray(data.accessRules)
+    ? data.accessRules.filter((r): r is AccessRule => !!r && typeof r.area === 'string')
+    : [];
+  kioskScopes.set(
+    data.user.id,
+    [
+      data.user.role,
+      data.user.homeId,
+      data.haConnection.id,
+      accessRules.map((r) => r.area).sort().join(','),
+    ].join('|')
+  );
+
   return {
     user: {
       id: data.user.id,
       username: data.user.username,
       role: data.user.role,
       homeId: data.user.homeId,
-      accessRules: Array.isArray(data.accessRules)
-        ? data.accessRules.filter((r): r is AccessRule => !!r && typeof r.area === 'string')
-        : [],
+      accessRules,
     },
     haConnection: data.haConnection,
   };
 }
 
+export function getKioskScope(userId: number): string | null {
+  return kioskScopes.get(userId) ?? null;
+}
+
 // For compatibility with existing callers
 export async function getUserWithHaConnection(_userId: number) {
   return fetchKioskContext();
@@ -73,11 +93,14 @@ export async function fetchDevicesForUser(
   _userId: number,
   mode: HaMode = 'home'
 ): Promise<UIDevice[]> {
-  const { user, haConnection } = await fetchKioskContext();
-  if (!haConnection) {
+  const context = await fetchKioskContext();
+  if (!context.haConnection) {
     throw new Error('Dinodia Hub connection is not configured for this account.');
   }
+  return runOnHaRoute(mode, (route) => fetchDevicesOnRoute(context.user, route));
+}
 
+async function fetchDevicesOnRoute(user: UserWithRelations, mode: HaRoute): Promise<UIDevice[]> {
   if (mode === 'cloud') {
     try {
       const { data } = await platformFetch<{ devices?: UIDevice[]; error?: string }>(
@@ -161,21 +184,7 @@ export async function fetchDevicesForUser(
     .map((d) => d.entityId);
   if (coverEntityIds.length > 0) {
     try {
-      const { data } = await platformFetch<BlindTravelSecondsResponse>(
-        '/api/kiosk/blinds/travel-seconds',
-        {
-          method: 'POST',
-          body: JSON.stringify({ entityIds: coverEntityIds }),
-        }
-      );
-      const overrides = Array.isArray(data.overrides) ? data.overrides : [];
-      const overrideMap = new Map<string, number>();
-      for (const row of overrides) {
-        const value = row?.blindTravelSeconds;
-        if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
-          overrideMap.set(row.entityId, value);
-        }
-      }
+      const overrideMap = await fetchBlindTravelOverrides(coverEntityIds);
       if (overrideMap.size > 0) {
         devices = devices.map((d) =>
           overrideMap.has(d.entityId)
@@ -194,6 +203,23 @@ export async function fetchDevicesForUser(
   return devices;
 }
 
+/** Travel-time overrides the platform holds for these blinds; blinds without one are left out. */
+export async function fetchBlindTravelOverrides(entityIds: string[]): Promise<Map<string, number>> {
+  const { data } = await platformFetch<BlindTravelSecondsResponse>('/api/kiosk/blinds/travel-seconds', {
+    method: 'POST',
+    body: JSON.stringify({ entityIds }),
+  });
+  const overrides = Array.isArray(data.overrides) ? data.overrides : [];
+  const overrideMap = new Map<string, number>();
+  for (const row of overrides) {
+    const value = row?.blindTravelSeconds;
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      overrideMap.set(row.entityId, value);
+    }
+  }
+  return overrideMap;
+}
+
 function normalizeHaBaseUrl(value: string): string {
   const trimmed = value.trim();
   let parsed: URL;
@@ -1,7 +1,9 @@
 // src/api/ha.ts
 import { classifyDeviceByLabel, LabelCategory } from '../utils/labelCatalog';
 import { fetchEntityToDeviceMap } from './haRegistry';
+import { getEntityRegistryMeta, getHaRegistryCache } from './haRegistryCache';
 import { assertHaUrlAllowed } from './haUrlPolicy';
+import { fetchHaUrl } from './haDemo';
 
 export type HaConnectionLike = {
   baseUrl: string;
@@ -78,14 +80,18 @@ async function fetchWithTimeout(
   timeoutMs = 5000
 ): Promise<Response> {
   if (timeoutMs <= 0) {
-    return fetch(url, options);
+    return fetchHaUrl(url, options);
   }
 
   if (typeof AbortController !== 'undefined') {
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), timeoutMs);
     try {
-      return await fetch(url, { ...options, signal: controller.signal });
+      return await fetchHaUrl(url, { ...options, signal: controller.signal });
+    } catch (err) {
+      // An aborted request may already have reached the hub; keep it apart from connection failures.
+      if (controller.signal.aborted) throw new Error('Dinodia Hub request timed out. Please try again.');
+      throw err;
     } finally {
       clearTimeout(id);
     }
@@ -93,7 +99,7 @@ async function fetchWithTimeout(
 
   // Fallback: no AbortController support; race manually without cancelling.
   return await Promise.race([
-    fetch(url, options),
+    fetchHaUrl(url, options),
     new Promise<Response>((_, reject) =>
       setTimeout(() => reject(new Error('Dinodia Hub request timed out. Please try again.')), timeoutMs)
     ),
@@ -192,11 +198,61 @@ async function renderHomeAssistantTemplate<T>(
   );
 }
 
+function toEnrichedDevice(s: HAState, meta: TemplateDeviceMeta | undefined): EnrichedDevice {
+  const domain = s.entity_id.split('.')[0] || '';
+  const deviceId =
+    meta && typeof meta.device_id === 'string' && meta.device_id.trim().length > 0
+      ? meta.device_id
+      : null;
+  const labels = (meta?.labels ?? []).filter(
+    (label): label is string =>
+      typeof label === 'string' && label.trim().length > 0
+  );
+  const labelCategory =
+    classifyDeviceByLabel(labels) ?? classifyDeviceByLabel([domain]);
+
+  return {
+    entityId: s.entity_id,
+    name: s.attributes.friendly_name ?? s.entity_id,
+    state: s.state,
+    areaName: meta?.area_name ?? null,
+    labels,
+    labelCategory,
+    domain,
+    attributes: s.attributes ?? {},
+    deviceId,
+  };
+}
+
 export async function getDevicesWithMetadata(
   ha: HaConnectionLike
 ): Promise<EnrichedDevice[]> {
-  const states = await callHomeAssistantAPI<HAState[]>(ha, '/api/states');
+  const [states, registry] = await Promise.all([
+    callHomeAssistantAPI<HAState[]>(ha, '/api/states'),
+    getHaRegistryCache(ha).catch(() => null),
+  ]);
+
+  if (!registry) {
+    return getDevicesWithTemplateMetadata(ha, states);
+  }
 
+  // Join plain states against the cached registries instead of rendering a template per refresh.
+  return states.map((s) => {
+    const meta = getEntityRegistryMeta(registry, s.entity_id);
+    return toEnrichedDevice(s, {
+      entity_id: s.entity_id,
+      area_name: meta.areaName,
+      labels: meta.labels,
+      device_id: meta.deviceId,
+    });
+  });
+}
+
+// Fallback when the registries cannot be read over the WebSocket API.
+async function getDevicesWithTemplateMetadata(
+  ha: HaConnectionLike,
+  states: HAState[]
+): Promise<EnrichedDevice[]> {
   const template = `{% set ns = namespace(result=[]) %}
 {% for s in states %}
   {% set item = {
@@ -226,33 +282,16 @@ export async function getDevicesWithMetadata(
   }
 
   return states.map((s) => {
-    const domain = s.entity_id.split('.')[0] || '';
     const metaEntry = metaByEntity.get(s.entity_id);
-    const deviceIdFromMeta =
-      metaEntry && typeof metaEntry.device_id === 'string' && metaEntry.device_id.trim().length > 0
-        ? metaEntry.device_id
-        : null;
     const deviceId =
-      deviceIdFromMeta ??
+      metaEntry?.device_id ||
       (entityToDeviceMap ? entityToDeviceMap.get(s.entity_id) ?? null : null);
-    const labels = (metaEntry?.labels ?? []).filter(
-      (label): label is string =>
-        typeof label === 'string' && label.trim().length > 0
-    );
-    const labelCategory =
-      classifyDeviceByLabel(labels) ?? classifyDeviceByLabel([domain]);
-
-    return {
-      entityId: s.entity_id,
-      name: s.attributes.friendly_name ?? s.entity_id,
-      state: s.state,
-      areaName: metaEntry?.area_name ?? null,
-      labels,
-      labelCategory,
-      domain,
-      attributes: s.attributes ?? {},
-      deviceId,
-    };
+    return toEnrichedDevice(s, {
+      entity_id: s.entity_id,
+      area_name: metaEntry?.area_name ?? null,
+      labels: metaEntry?.labels ?? [],
+      device_id: deviceId,
+    });
   });
 }
 
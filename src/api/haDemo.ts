@@ -0,0 +1,140 @@
+// src/api/haDemo.ts
+import { ENV } from '../config/env';
+
+type FakeHub = typeof import('../demo/fakeHomeAssistant');
+
+export const DEMO_HA_BASE_URL = 'demo://showroom';
+
+export const DEMO_HOME_SECRETS = {
+  baseUrl: DEMO_HA_BASE_URL,
+  longLivedToken: 'demo',
+};
+
+// Keep demo responses asynchronous, like a real network round trip.
+const DEMO_LATENCY_MS = 30;
+
+export function isDemoHubEnabled(): boolean {
+  return ENV.DINODIA_DEMO_HUB === true;
+}
+
+export function isDemoHaUrl(url: string): boolean {
+  return isDemoHubEnabled() && url.startsWith(DEMO_HA_BASE_URL);
+}
+
+// Loaded only once a demo URL is in use, so regular builds never evaluate the fake hub (or the
+// compiler it pulls in) just because the URL policy asks whether a URL is a demo one.
+function loadFakeHub(): FakeHub {
+  return require('../demo/fakeHomeAssistant') as FakeHub;
+}
+
+function later(run: () => void) {
+  setTimeout(run, DEMO_LATENCY_MS);
+}
+
+/** fetch() that sends demo:// hub URLs to the in-process fake Home Assistant. */
+export function fetchHaUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  return isDemoHaUrl(url) ? demoHaFetch(url, init) : fetch(url, init);
+}
+
+function demoHaFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const path = url.slice(DEMO_HA_BASE_URL.length) || '/';
+  const method = (init.method ?? 'GET').toUpperCase();
+  const { handleFakeHaRequest } = loadFakeHub();
+  return new Promise((resolve) => {
+    later(() => {
+      const { status, body } = handleFakeHaRequest(method, path, init.body);
+      resolve(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      );
+    });
+  });
+}
+
+/**
+ * A WebSocket-shaped object speaking the Home Assistant WebSocket protocol against the fake hub,
+ * so the socket manager (auth, subscriptions, reconnects) runs unchanged in demo mode.
+ */
+export function createDemoHaSocket(): WebSocket {
+  const { handleFakeHaCommand, subscribeFakeHaEvents } = loadFakeHub();
+  const subscriptions = new Map<number, () => void>();
+  let closed = false;
+
+  const socket = {
+    onopen: null as ((event: unknown) => void) | null,
+    onmessage: null as ((event: { data: string }) => void) | null,
+    onerror: null as ((event: unknown) => void) | null,
+    onclose: null as ((event: unknown) => void) | null,
+    readyState: 1,
+    send(raw: string) {
+      if (closed) throw new Error('Demo hub socket is closed.');
+      let msg: Record<string, unknown>;
+      try {
+        msg = JSON.parse(raw);
+      } catch {
+        return;
+      }
+      later(() => handle(msg));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      socket.readyState = 3;
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+      later(() => socket.onclose?.({ code: 1000 }));
+    },
+  };
+
+  const emit = (payload: Record<string, unknown>) => {
+    if (closed) return;
+    socket.onmessage?.({ data: JSON.stringify(payload) });
+  };
+
+  const handle = (msg: Record<string, unknown>) => {
+    if (closed) return;
+    const type = String(msg.type ?? '');
+    const id = typeof msg.id === 'number' ? msg.id : null;
+    if (type === 'auth') {
+      emit({ type: 'auth_ok', ha_version: '2024.10.0' });
+      return;
+    }
+    if (id === null) return;
+    if (type === 'subscribe_events') {
+      const eventType = typeof msg.event_type === 'string' ? msg.event_type : null;
+      subscriptions.set(
+        id,
+        subscribeFakeHaEvents(eventType, (event) => emit({ id, type: 'event', event }))
+      );
+      emit({ id, type: 'result', success: true, result: null });
+      return;
+    }
+    if (type === 'unsubscribe_events') {
+      const subscription = Number(msg.subscription);
+      subscriptions.get(subscription)?.();
+      subscriptions.delete(subscription);
+      emit({ id, type: 'result', success: true, result: null });
+      return;
+    }
+    try {
+      const result = handleFakeHaCommand(type, msg);
+      emit({ id, type: 'result', success: true, result });
+    } catch (err) {
+      emit({
+        id,
+        type: 'result',
+        success: false,
+        error: { code: 'unknown_error', message: err instanceof Error ? err.message : 'Demo hub error' },
+      });
+    }
+  };
+
+  later(() => {
+    socket.onopen?.({});
+    emit({ type: 'auth_required', ha_version: '2024.10.0' });
+  });
+
+  return socket as unknown as WebSocket;
+}
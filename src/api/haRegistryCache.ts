@@ -0,0 +1,258 @@
+// src/api/haRegistryCache.ts
+import type { HaConnectionLike } from './ha';
+import { haWsCall, haWsSubscribeEvents, type HaWsSubscription } from './haWebSocket';
+import { loadJson, saveJson, removeKey } from '../utils/storage';
+
+type HaAreaEntry = { area_id?: string; name?: string };
+type HaLabelEntry = { label_id?: string; name?: string };
+type HaDeviceRegistryEntry = { id?: string; area_id?: string | null; labels?: string[] | null };
+type HaEntityRegistryEntry = {
+  entity_id?: string;
+  device_id?: string | null;
+  area_id?: string | null;
+  labels?: string[] | null;
+};
+
+type RegistryDevice = { areaId: string | null };
+type RegistryEntity = { deviceId: string | null; areaId: string | null; labels: string[] };
+
+export type HaRegistryCache = {
+  baseUrl: string;
+  areas: Record<string, string>;
+  labels: Record<string, string>;
+  devices: Record<string, RegistryDevice>;
+  entities: Record<string, RegistryEntity>;
+  updatedAt: number;
+};
+
+export type RegistryEntityMeta = {
+  areaName: string | null;
+  labels: string[];
+  deviceId: string | null;
+};
+
+type RegistryPart = 'areas' | 'labels' | 'devices' | 'entities';
+
+type RegistryWatch = {
+  subscriptions: HaWsSubscription[];
+  dirty: Set<RegistryPart>;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const STORAGE_KEY = 'dinodia_ha_registry_v1';
+const REFRESH_DEBOUNCE_MS = 500;
+const ALL_PARTS: RegistryPart[] = ['areas', 'labels', 'devices', 'entities'];
+const EVENT_PARTS: Record<string, RegistryPart> = {
+  area_registry_updated: 'areas',
+  label_registry_updated: 'labels',
+  device_registry_updated: 'devices',
+  entity_registry_updated: 'entities',
+};
+
+const caches = new Map<string, HaRegistryCache>();
+const inflight = new Map<string, Promise<HaRegistryCache>>();
+const watches = new Map<string, RegistryWatch>();
+const changeListeners = new Set<(baseUrl: string) => void>();
+
+const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+function cleanLabels(labels: string[] | null | undefined): string[] {
+  return (labels ?? []).filter((lbl): lbl is string => typeof lbl === 'string' && lbl.trim().length > 0);
+}
+
+async function fetchPart(ha: HaConnectionLike, part: RegistryPart, into: HaRegistryCache) {
+  switch (part) {
+    case 'areas': {
+      const list = await haWsCall<HaAreaEntry[]>(ha, 'config/area_registry/list');
+      into.areas = {};
+      for (const area of list ?? []) {
+        if (typeof area?.area_id !== 'string') continue;
+        into.areas[area.area_id] = typeof area.name === 'string' ? area.name : area.area_id;
+      }
+      return;
+    }
+    case 'labels': {
+      const list = await haWsCall<HaLabelEntry[]>(ha, 'config/label_registry/list');
+      into.labels = {};
+      for (const label of list ?? []) {
+        if (typeof label?.label_id !== 'string') continue;
+        into.labels[label.label_id] =
+          typeof label.name === 'string' && label.name.trim().length > 0 ? label.name : label.label_id;
+      }
+      return;
+    }
+    case 'devices': {
+      const list = await haWsCall<HaDeviceRegistryEntry[]>(ha, 'config/device_registry/list');
+      into.devices = {};
+      for (const device of list ?? []) {
+        if (typeof device?.id !== 'string') continue;
+        into.devices[device.id] = { areaId: device.area_id ?? null };
+      }
+      return;
+    }
+    case 'entities': {
+      const list = await haWsCall<HaEntityRegistryEntry[]>(ha, 'config/entity_registry/list');
+      into.entities = {};
+      for (const entity of list ?? []) {
+        if (typeof entity?.entity_id !== 'string') continue;
+        into.entities[entity.entity_id] = {
+          deviceId: entity.device_id ?? null,
+          areaId: entity.area_id ?? null,
+          labels: cleanLabels(entity.labels),
+        };
+      }
+      return;
+    }
+  }
+}
+
+async function refreshParts(
+  ha: HaConnectionLike,
+  parts: RegistryPart[],
+  base?: HaRegistryCache
+): Promise<HaRegistryCache> {
+  const baseUrl = normalizeBaseUrl(ha.baseUrl);
+  const next: HaRegistryCache = base
+    ? { ...base }
+    : { baseUrl, areas: {}, labels: {}, devices: {}, entities: {}, updatedAt: 0 };
+  await Promise.all(parts.map((part) => fetchPart(ha, part, next)));
+  next.updatedAt = Date.now();
+  caches.set(baseUrl, next);
+  saveJson(STORAGE_KEY, next).catch(() => undefined);
+  return next;
+}
+
+async function loadPersisted(baseUrl: string): Promise<HaRegistryCache | null> {
+  try {
+    const stored = await loadJson<HaRegistryCache>(STORAGE_KEY);
+    if (stored && stored.baseUrl === baseUrl && stored.entities && stored.devices) {
+      return stored;
+    }
+  } catch {
+    // Ignore storage errors; the registry is fetched below
+  }
+  return null;
+}
+
+function scheduleRefresh(ha: HaConnectionLike, watch: RegistryWatch) {
+  if (watch.refreshTimer) return;
+  watch.refreshTimer = setTimeout(() => {
+    watch.refreshTimer = null;
+    const baseUrl = normalizeBaseUrl(ha.baseUrl);
+    const parts = Array.from(watch.dirty);
+    watch.dirty.clear();
+    if (parts.length === 0) return;
+    refreshParts(ha, parts, caches.get(baseUrl))
+      .then(() => changeListeners.forEach((listener) => listener(baseUrl)))
+      .catch(() => {
+        parts.forEach((part) => watch.dirty.add(part));
+      });
+  }, REFRESH_DEBOUNCE_MS);
+}
+
+function markDirty(ha: HaConnectionLike, watch: RegistryWatch, parts: RegistryPart[]) {
+  parts.forEach((part) => watch.dirty.add(part));
+  scheduleRefresh(ha, watch);
+}
+
+// Registry events keep the cache current; anything missed while unsubscribed (app restarts,
+// socket drops) is caught by refreshing everything once the subscription is (re)established.
+function ensureWatching(ha: HaConnectionLike, baseUrl: string) {
+  if (watches.has(baseUrl)) return;
+  const watch: RegistryWatch = { subscriptions: [], dirty: new Set(), refreshTimer: null };
+  watches.set(baseUrl, watch);
+
+  Object.entries(EVENT_PARTS).forEach(([eventType, part]) => {
+    haWsSubscribeEvents(ha, eventType, () => markDirty(ha, watch, [part]), {
+      onResubscribe: () => markDirty(ha, watch, ALL_PARTS),
+    })
+      .then((subscription) => {
+        if (watches.get(baseUrl) !== watch) {
+          subscription.unsubscribe();
+          return;
+        }
+        watch.subscriptions.push(subscription);
+      })
+      .catch(() => {
+        // Without events we cannot trust the cache to stay current; try again on next use.
+        if (watches.get(baseUrl) === watch) stopWatching(baseUrl);
+      });
+  });
+}
+
+function stopWatching(baseUrl: string) {
+  const watch = watches.get(baseUrl);
+  if (!watch) return;
+  watches.delete(baseUrl);
+  if (watch.refreshTimer) clearTimeout(watch.refreshTimer);
+  watch.subscriptions.forEach((subscription) => subscription.unsubscribe());
+}
+
+/**
+ * Area, label, device and entity registries for a hub, served from memory or disk when
+ * available and refreshed only when Home Assistant reports a registry change.
+ */
+export async function getHaRegistryCache(ha: HaConnectionLike): Promise<HaRegistryCache> {
+  const baseUrl = normalizeBaseUrl(ha.baseUrl);
+  const cached = caches.get(baseUrl);
+  if (cached && watches.has(baseUrl)) return cached;
+
+  const ongoing = inflight.get(baseUrl);
+  if (ongoing) return ongoing;
+
+  const request = (async () => {
+    const existing = cached ?? (await loadPersisted(baseUrl));
+    if (existing) {
+      caches.set(baseUrl, existing);
+      const firstWatch = !watches.has(baseUrl);
+      ensureWatching(ha, baseUrl);
+      // A cache from a previous session may have missed events; revalidate in the background.
+      if (firstWatch) {
+        const watch = watches.get(baseUrl);
+        if (watch) markDirty(ha, watch, ALL_PARTS);
+      }
+      return existing;
+    }
+    const fresh = await refreshParts(ha, ALL_PARTS);
+    ensureWatching(ha, baseUrl);
+    return fresh;
+  })();
+
+  inflight.set(baseUrl, request);
+  try {
+    return await request;
+  } finally {
+    inflight.delete(baseUrl);
+  }
+}
+
+export function getEntityRegistryMeta(cache: HaRegistryCache, entityId: string): RegistryEntityMeta {
+  const entity = cache.entities[entityId];
+  if (!entity) return { areaName: null, labels: [], deviceId: null };
+  const device = entity.deviceId ? cache.devices[entity.deviceId] : undefined;
+  // Matches HA's area_name(): the entity's own area wins over its device's area.
+  const areaId = entity.areaId ?? device?.areaId ?? null;
+  return {
+    areaName: areaId ? cache.areas[areaId] ?? null : null,
+    labels: entity.labels.map((labelId) => cache.labels[labelId] ?? labelId),
+    deviceId: entity.deviceId,
+  };
+}
+
+export function onHaRegistryChanged(listener: (baseUrl: string) => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+export async function clearHaRegistryCache(): Promise<void> {
+  Array.from(watches.keys()).forEach(stopWatching);
+  caches.clear();
+  inflight.clear();
+  try {
+    await removeKey(STORAGE_KEY);
+  } catch {
+    // Ignore storage errors when clearing the registry cache
+  }
+}
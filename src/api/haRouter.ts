@@ -0,0 +1,148 @@
+// src/api/haRouter.ts
+import { useSyncExternalStore } from 'react';
+import type { HaMode } from './dinodia';
+import { checkHomeModeReachable } from './remoteAccess';
+
+export type HaRoute = 'home' | 'cloud';
+
+export type HaRouteOptions = {
+  /** The request changes something (a command, a saved automation), so it must not run twice. */
+  mutating?: boolean;
+};
+
+// Auto mode only leaves the hub after repeated failures and only returns after repeated
+// successful probes, so a flaky Wi-Fi edge does not flip every other request.
+const HOME_FAILURES_BEFORE_CLOUD = 2;
+const HOME_PROBES_BEFORE_RETURN = 2;
+const HOME_PROBE_INTERVAL_MS = 10000;
+const MIN_ROUTE_DWELL_MS = 30000;
+
+// Failures that mean the hub could not be reached at all (as opposed to rejecting the request).
+const HUB_UNREACHABLE_PATTERNS = [
+  /^To use Home mode connect to your home Wi-Fi/,
+  /^Dinodia Hub network issue/,
+  /^Dinodia Hub request timed out/,
+  /^We cannot find your Dinodia Hub/,
+  /^Network request failed/,
+];
+
+let autoRoute: HaRoute = 'home';
+let autoRouteSince = 0;
+let homeFailures = 0;
+let homeProbeSuccesses = 0;
+let lastHomeProbeAt = 0;
+let probing: Promise<void> | null = null;
+let servedRoute: HaRoute | null = null;
+const servedListeners = new Set<() => void>();
+
+export function isHubUnreachableError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : '';
+  return HUB_UNREACHABLE_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/** Unreachable before anything was sent; a timed-out request may still have been carried out by the hub. */
+export function isHubRequestNotSentError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : '';
+  return isHubUnreachableError(err) && !/^Dinodia Hub request timed out/.test(message);
+}
+
+function setAutoRoute(route: HaRoute) {
+  if (autoRoute === route) return;
+  autoRoute = route;
+  autoRouteSince = Date.now();
+  homeFailures = 0;
+  homeProbeSuccesses = 0;
+}
+
+function markServed(route: HaRoute | null) {
+  if (servedRoute === route) return;
+  servedRoute = route;
+  servedListeners.forEach((listener) => listener());
+}
+
+function recordHomeFailure() {
+  homeFailures += 1;
+  if (homeFailures >= HOME_FAILURES_BEFORE_CLOUD && Date.now() - autoRouteSince >= MIN_ROUTE_DWELL_MS) {
+    setAutoRoute('cloud');
+  }
+}
+
+async function probeHomeIfDue() {
+  if (probing) return probing;
+  if (Date.now() - lastHomeProbeAt < HOME_PROBE_INTERVAL_MS) return;
+  lastHomeProbeAt = Date.now();
+  probing = (async () => {
+    const reachable = await checkHomeModeReachable();
+    homeProbeSuccesses = reachable ? homeProbeSuccesses + 1 : 0;
+    if (
+      homeProbeSuccesses >= HOME_PROBES_BEFORE_RETURN &&
+      Date.now() - autoRouteSince >= MIN_ROUTE_DWELL_MS
+    ) {
+      setAutoRoute('home');
+    }
+  })().finally(() => {
+    probing = null;
+  });
+  return probing;
+}
+
+export async function resolveHaRoute(mode: HaMode): Promise<HaRoute> {
+  if (mode !== 'auto') return mode;
+  if (autoRoute === 'cloud') await probeHomeIfDue();
+  return autoRoute;
+}
+
+/**
+ * Run a request on the path the mode calls for. In auto mode a hub request that cannot reach
+ * the hub is retried once through Dinodia Cloud; the preferred path only changes with hysteresis.
+ * Mutating requests are only retried when they never left the kiosk, since a timed-out one may
+ * already have been carried out by the hub.
+ */
+export async function runOnHaRoute<T>(
+  mode: HaMode,
+  run: (route: HaRoute) => Promise<T>,
+  options: HaRouteOptions = {}
+): Promise<T> {
+  const route = await resolveHaRoute(mode);
+  if (mode !== 'auto' || route === 'cloud') {
+    const result = await run(route);
+    markServed(route);
+    return result;
+  }
+
+  try {
+    const result = await run('home');
+    homeFailures = 0;
+    markServed('home');
+    return result;
+  } catch (err) {
+    if (!isHubUnreachableError(err)) throw err;
+    recordHomeFailure();
+    if (options.mutating && !isHubRequestNotSentError(err)) throw err;
+    const result = await run('cloud');
+    markServed('cloud');
+    return result;
+  }
+}
+
+export function getServedHaRoute(): HaRoute | null {
+  return servedRoute;
+}
+
+export function resetHaRouting() {
+  setAutoRoute('home');
+  autoRouteSince = 0;
+  lastHomeProbeAt = 0;
+  markServed(null);
+}
+
+function subscribeServedRoute(listener: () => void) {
+  servedListeners.add(listener);
+  return () => {
+    servedListeners.delete(listener);
+  };
+}
+
+export function useServedHaRoute(): HaRoute | null {
+  return useSyncExternalStore(subscribeServedRoute, getServedHaRoute);
+}
@@ -4,6 +4,7 @@ import { setHomeSecretsRefresher, type HaConnectionLike } from './ha';
 import type { HaMode } from './dinodia';
 import type { HaConnection } from '../models/haConnection';
 import { isLocalIp } from '../utils/net';
+import { DEMO_HOME_SECRETS, isDemoHubEnabled } from './haDemo';
 
 export type HomeModeSecrets = {
   baseUrl: string;
@@ -87,6 +88,9 @@ async function saveToKeychain(secrets: HomeModeSecrets) {
 }
 
 export async function fetchHomeModeSecrets(force = false): Promise<HomeModeSecrets> {
+  if (isDemoHubEnabled()) {
+    return DEMO_HOME_SECRETS;
+  }
   if (!force && cachedHomeSecrets) {
     return cachedHomeSecrets;
   }
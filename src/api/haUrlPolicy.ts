@@ -1,8 +1,9 @@
 import { isLocalIp } from '../utils/net';
+import { isDemoHaUrl } from './haDemo';
 
 export function assertHaUrlAllowed(raw: string): URL {
   const url = new URL(raw);
-  if (url.protocol === 'https:') {
+  if (url.protocol === 'https:' || isDemoHaUrl(raw)) {
     return url;
   }
   if (url.protocol === 'http:' && isLocalIp(url.hostname)) {
@@ -1,6 +1,7 @@
 // src/api/haWebSocket.ts
-import type { HaConnectionLike } from './ha';
+import type { HAState, HaConnectionLike } from './ha';
 import { assertHaUrlAllowed } from './haUrlPolicy';
+import { createDemoHaSocket, isDemoHaUrl } from './haDemo';
 
 type HaWsResult<T> = {
   id?: number;
@@ -8,8 +9,60 @@ type HaWsResult<T> = {
   success?: boolean;
   result?: T;
   error?: { message?: string };
+  event?: unknown;
 };
 
+export type HaWsSubscription = {
+  unsubscribe: () => void;
+};
+
+export type HaWsSubscriptionHandlers = {
+  // Called when the socket drops; the subscription is restored automatically on reconnect.
+  onDisconnect?: () => void;
+  onResubscribe?: () => void;
+};
+
+export type HaStateChangedEvent = {
+  entity_id: string;
+  new_state: HAState | null;
+  old_state: HAState | null;
+};
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type ActiveSubscription = {
+  message: Record<string, unknown>;
+  onEvent: (event: unknown) => void;
+  handlers: HaWsSubscriptionHandlers;
+  id: number | null;
+};
+
+type HaWsConnection = {
+  baseUrl: string;
+  token: string;
+  socket: WebSocket | null;
+  authenticated: boolean;
+  opening: Promise<void> | null;
+  nextId: number;
+  pending: Map<number, PendingRequest>;
+  subscriptions: Set<ActiveSubscription>;
+  subscriptionsById: Map<number, ActiveSubscription>;
+  retryAttempt: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const IDLE_CLOSE_MS = 60000;
+const AUTH_FAILED_MESSAGE = 'Dinodia Hub authentication failed.';
+
+const connections = new Map<string, HaWsConnection>();
+
 function buildWsUrl(baseUrl: string): string {
   const url = assertHaUrlAllowed(baseUrl);
   return url.protocol === 'https:'
@@ -17,48 +70,160 @@ function buildWsUrl(baseUrl: string): string {
     : `ws://${url.host}/api/websocket`;
 }
 
-export async function haWsCall<T>(
-  ha: HaConnectionLike,
-  type: string,
-  payload: Record<string, unknown> = {},
-  timeoutMs = 15000,
-  allowAuthRetry = true
-): Promise<T> {
-  const wsUrl = buildWsUrl(ha.baseUrl);
+function normalizeBase(baseUrl: string) {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function getConnection(ha: HaConnectionLike): HaWsConnection {
+  const baseUrl = normalizeBase(ha.baseUrl);
+  const existing = connections.get(baseUrl);
+  if (existing) {
+    // A newer token only matters for the next handshake; an authenticated socket stays valid.
+    existing.token = ha.longLivedToken;
+    return existing;
+  }
+  const conn: HaWsConnection = {
+    baseUrl,
+    token: ha.longLivedToken,
+    socket: null,
+    authenticated: false,
+    opening: null,
+    nextId: 1,
+    pending: new Map(),
+    subscriptions: new Set(),
+    subscriptionsById: new Map(),
+    retryAttempt: 0,
+    retryTimer: null,
+    idleTimer: null,
+  };
+  connections.set(baseUrl, conn);
+  return conn;
+}
+
+function clearIdleTimer(conn: HaWsConnection) {
+  if (conn.idleTimer) {
+    clearTimeout(conn.idleTimer);
+    conn.idleTimer = null;
+  }
+}
+
+function scheduleIdleClose(conn: HaWsConnection) {
+  clearIdleTimer(conn);
+  if (conn.pending.size > 0 || conn.subscriptions.size > 0) return;
+  conn.idleTimer = setTimeout(() => {
+    conn.idleTimer = null;
+    if (conn.pending.size > 0 || conn.subscriptions.size > 0) return;
+    closeSocket(conn);
+    connections.delete(conn.baseUrl);
+  }, IDLE_CLOSE_MS);
+}
+
+function closeSocket(conn: HaWsConnection) {
+  const socket = conn.socket;
+  conn.socket = null;
+  conn.authenticated = false;
+  conn.opening = null;
+  if (!socket) return;
+  socket.onopen = null;
+  socket.onmessage = null;
+  socket.onerror = null;
+  socket.onclose = null;
+  try {
+    socket.close();
+  } catch {
+    // ignore
+  }
+}
+
+function failPending(conn: HaWsConnection, err: Error) {
+  const pending = Array.from(conn.pending.values());
+  conn.pending.clear();
+  pending.forEach((p) => {
+    clearTimeout(p.timer);
+    p.reject(err);
+  });
+}
+
+function handleDisconnect(conn: HaWsConnection, err: Error) {
+  closeSocket(conn);
+  failPending(conn, err);
+  conn.subscriptionsById.clear();
+  conn.subscriptions.forEach((sub) => {
+    sub.id = null;
+    sub.handlers.onDisconnect && sub.handlers.onDisconnect();
+  });
+  scheduleReconnect(conn);
+}
+
+function scheduleReconnect(conn: HaWsConnection) {
+  if (conn.retryTimer || conn.subscriptions.size === 0) return;
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** conn.retryAttempt);
+  conn.retryAttempt += 1;
+  conn.retryTimer = setTimeout(() => {
+    conn.retryTimer = null;
+    if (conn.subscriptions.size === 0) return;
+    ensureOpen(conn)
+      .then(() => resubscribeAll(conn))
+      .catch(() => scheduleReconnect(conn));
+  }, delay);
+}
+
+async function refreshToken(conn: HaWsConnection): Promise<boolean> {
+  try {
+    const { fetchHomeModeSecrets } = await import('./haSecrets');
+    const refreshed = await fetchHomeModeSecrets(true);
+    if (normalizeBase(refreshed.baseUrl) === conn.baseUrl && refreshed.longLivedToken) {
+      conn.token = refreshed.longLivedToken;
+      return true;
+    }
+  } catch {
+    // ignore and report the original auth failure
+  }
+  return false;
+}
+
+function openSocket(conn: HaWsConnection, timeoutMs: number): Promise<void> {
+  const wsUrl = isDemoHaUrl(conn.baseUrl) ? null : buildWsUrl(conn.baseUrl);
   return new Promise((resolve, reject) => {
     let settled = false;
-    const requestId = 1;
+    const socket = wsUrl ? new WebSocket(wsUrl) : createDemoHaSocket();
+    conn.socket = socket;
+    conn.authenticated = false;
+
     const timer = setTimeout(() => {
-      if (!settled) {
-        settled = true;
-        reject(new Error('Dinodia Hub request timed out.'));
-      }
+      settle(new Error('Dinodia Hub request timed out.'));
     }, timeoutMs);
 
-    const ws = new WebSocket(wsUrl);
-
-    const finish = (err?: Error, result?: T) => {
+    const settle = (err?: Error) => {
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      try {
-        ws.close();
-      } catch {
-        // ignore
-      }
       if (err) {
+        if (conn.socket === socket) closeSocket(conn);
         reject(err);
-      } else if (result !== undefined) {
-        resolve(result);
       } else {
-        reject(new Error('Dinodia Hub request failed.'));
+        resolve();
       }
     };
 
-    ws.onerror = () => finish(new Error('Dinodia Hub connection failed.'));
+    socket.onerror = () => {
+      if (!settled) {
+        settle(new Error('Dinodia Hub connection failed.'));
+        return;
+      }
+      if (conn.socket === socket) handleDisconnect(conn, new Error('Dinodia Hub connection failed.'));
+    };
+
+    socket.onclose = () => {
+      if (!settled) {
+        settle(new Error('Dinodia Hub connection closed.'));
+        return;
+      }
+      if (conn.socket === socket) handleDisconnect(conn, new Error('Dinodia Hub connection closed.'));
+    };
 
-    ws.onmessage = (event) => {
-      let data: HaWsResult<T> | null = null;
+    socket.onmessage = (event) => {
+      let data: HaWsResult<unknown> | null = null;
       try {
         data = JSON.parse(String(event.data));
       } catch {
@@ -68,65 +233,222 @@ export async function haWsCall<T>(
       if (!data) return;
 
       if (data.type === 'auth_required') {
-        ws.send(
+        socket.send(
           JSON.stringify({
             type: 'auth',
-            access_token: ha.longLivedToken,
+            access_token: conn.token,
           })
         );
         return;
       }
 
       if (data.type === 'auth_invalid') {
-        // One-time retry: refresh home secrets and reconnect with a fresh token if available.
-        if (allowAuthRetry) {
-          (async () => {
-            try {
-              const { fetchHomeModeSecrets } = await import('./haSecrets');
-              const refreshed = await fetchHomeModeSecrets(true);
-              const normalizedBase = refreshed.baseUrl.replace(/\/+$/, '');
-              if (normalizedBase === ha.baseUrl.replace(/\/+$/, '')) {
-                const retried = await haWsCall<T>(
-                  { baseUrl: normalizedBase, longLivedToken: refreshed.longLivedToken },
-                  type,
-                  payload,
-                  timeoutMs,
-                  false
-                );
-                finish(undefined, retried);
-                return;
-              }
-            } catch {
-              // ignore and fall through to failure
-            }
-            finish(new Error('Dinodia Hub authentication failed.'));
-          })();
-          return;
-        }
-        finish(new Error('Dinodia Hub authentication failed.'));
+        settle(new Error(AUTH_FAILED_MESSAGE));
         return;
       }
 
       if (data.type === 'auth_ok') {
-        ws.send(
-          JSON.stringify({
-            id: requestId,
-            type,
-            ...payload,
-          })
-        );
+        conn.authenticated = true;
+        conn.retryAttempt = 0;
+        settle();
+        return;
+      }
+
+      if (typeof data.id !== 'number') return;
+
+      if (data.type === 'event') {
+        const sub = conn.subscriptionsById.get(data.id);
+        if (sub) sub.onEvent(data.event);
+        return;
+      }
+
+      const pending = conn.pending.get(data.id);
+      if (!pending) return;
+      conn.pending.delete(data.id);
+      clearTimeout(pending.timer);
+      if (data.success) {
+        pending.resolve(data.result);
+      } else {
+        pending.reject(new Error(data.error?.message || 'Dinodia Hub request was not successful.'));
+      }
+      scheduleIdleClose(conn);
+    };
+  });
+}
+
+function ensureOpen(
+  conn: HaWsConnection,
+  timeoutMs = 15000,
+  allowAuthRetry = true
+): Promise<void> {
+  if (conn.socket && conn.authenticated) return Promise.resolve();
+  if (conn.opening) return conn.opening;
+
+  const opening = (async () => {
+    try {
+      await openSocket(conn, timeoutMs);
+    } catch (err) {
+      const authFailed = err instanceof Error && err.message === AUTH_FAILED_MESSAGE;
+      // One-time retry: refresh home secrets and reconnect with a fresh token if available.
+      if (authFailed && allowAuthRetry && (await refreshToken(conn))) {
+        await openSocket(conn, timeoutMs);
         return;
       }
+      throw err;
+    }
+  })();
+
+  conn.opening = opening;
+  opening
+    .catch(() => undefined)
+    .finally(() => {
+      if (conn.opening === opening) conn.opening = null;
+    });
+  return opening;
+}
 
-      if (data.id === requestId) {
-        if (data.success) {
-          finish(undefined, data.result as T);
-        } else {
-          finish(
-            new Error(data.error?.message || 'Dinodia Hub request was not successful.')
+function sendRequest<T>(
+  conn: HaWsConnection,
+  message: Record<string, unknown>,
+  timeoutMs: number,
+  onId?: (id: number) => void
+): Promise<T> {
+  const socket = conn.socket;
+  if (!socket || !conn.authenticated) {
+    return Promise.reject(new Error('Dinodia Hub connection failed.'));
+  }
+  const id = conn.nextId;
+  conn.nextId += 1;
+  clearIdleTimer(conn);
+  onId && onId(id);
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      conn.pending.delete(id);
+      reject(new Error('Dinodia Hub request timed out.'));
+      scheduleIdleClose(conn);
+    }, timeoutMs);
+    conn.pending.set(id, {
+      resolve: (result) => resolve(result as T),
+      reject,
+      timer,
+    });
+    try {
+      socket.send(JSON.stringify({ ...message, id }));
+    } catch {
+      conn.pending.delete(id);
+      clearTimeout(timer);
+      reject(new Error('Dinodia Hub connection failed.'));
+    }
+  });
+}
+
+async function subscribeOnSocket(conn: HaWsConnection, sub: ActiveSubscription, timeoutMs = 15000) {
+  await sendRequest(conn, sub.message, timeoutMs, (id) => {
+    sub.id = id;
+    conn.subscriptionsById.set(id, sub);
+  });
+}
+
+async function resubscribeAll(conn: HaWsConnection) {
+  const subs = Array.from(conn.subscriptions).filter((sub) => sub.id === null);
+  for (const sub of subs) {
+    if (!conn.subscriptions.has(sub)) continue;
+    await subscribeOnSocket(conn, sub);
+    sub.handlers.onResubscribe && sub.handlers.onResubscribe();
+  }
+}
+
+export async function haWsCall<T>(
+  ha: HaConnectionLike,
+  type: string,
+  payload: Record<string, unknown> = {},
+  timeoutMs = 15000,
+  allowAuthRetry = true
+): Promise<T> {
+  const conn = getConnection(ha);
+  await ensureOpen(conn, timeoutMs, allowAuthRetry);
+  const result = await sendRequest<T>(conn, { type, ...payload }, timeoutMs);
+  if (result === undefined) {
+    throw new Error('Dinodia Hub request failed.');
+  }
+  return result;
+}
+
+export async function haWsSubscribe<E>(
+  ha: HaConnectionLike,
+  message: Record<string, unknown>,
+  onEvent: (event: E) => void,
+  handlers: HaWsSubscriptionHandlers = {},
+  timeoutMs = 15000
+): Promise<HaWsSubscription> {
+  const conn = getConnection(ha);
+  const sub: ActiveSubscription = {
+    message,
+    onEvent: (event) => onEvent(event as E),
+    handlers,
+    id: null,
+  };
+  conn.subscriptions.add(sub);
+  clearIdleTimer(conn);
+
+  try {
+    await ensureOpen(conn, timeoutMs);
+    await subscribeOnSocket(conn, sub, timeoutMs);
+  } catch (err) {
+    conn.subscriptions.delete(sub);
+    if (sub.id !== null) conn.subscriptionsById.delete(sub.id);
+    scheduleIdleClose(conn);
+    throw err;
+  }
+
+  return {
+    unsubscribe: () => {
+      if (!conn.subscriptions.delete(sub)) return;
+      const id = sub.id;
+      sub.id = null;
+      if (id !== null) {
+        conn.subscriptionsById.delete(id);
+        if (conn.socket && conn.authenticated) {
+          void sendRequest(conn, { type: 'unsubscribe_events', subscription: id }, timeoutMs).catch(
+            () => undefined
           );
         }
       }
-    };
+      scheduleIdleClose(conn);
+    },
+  };
+}
+
+export async function haWsSubscribeEvents<E>(
+  ha: HaConnectionLike,
+  eventType: string,
+  onEvent: (data: E) => void,
+  handlers: HaWsSubscriptionHandlers = {},
+  timeoutMs = 15000
+): Promise<HaWsSubscription> {
+  return haWsSubscribe<{ data?: E }>(
+    ha,
+    { type: 'subscribe_events', event_type: eventType },
+    (event) => {
+      if (event?.data) onEvent(event.data);
+    },
+    handlers,
+    timeoutMs
+  );
+}
+
+export function closeAllHaWsConnections() {
+  connections.forEach((conn) => {
+    if (conn.retryTimer) {
+      clearTimeout(conn.retryTimer);
+      conn.retryTimer = null;
+    }
+    clearIdleTimer(conn);
+    conn.subscriptions.clear();
+    conn.subscriptionsById.clear();
+    closeSocket(conn);
+    failPending(conn, new Error('Dinodia Hub connection closed.'));
   });
+  connections.clear();
 }
@@ -21,20 +21,19 @@ function getPlatformBase(): string {
   return normalized;
 }
 
-export async function platformFetch<T = any>(
-  path: string,
-  options: RequestInit = {}
-): Promise<{ res: Response; data: T }> {
+export function getPlatformUrl(path: string): string {
   if (/^https?:\/\//i.test(path)) {
     throw new Error('platformFetch expects a relative API path, not a full URL.');
   }
   const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-  const url = `${getPlatformBase()}${normalizedPath}`;
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...(options.headers as Record<string, string> | undefined),
-  };
+  return `${getPlatformBase()}${normalizedPath}`;
+}
 
+// Bearer token and device identity headers shared by platformFetch and the platform stream.
+export async function buildPlatformHeaders(
+  extra?: Record<string, string>
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { ...extra };
   const token = await getPlatformToken().catch(() => null);
   if (token) {
     headers.Authorization = `Bearer ${token}`;
@@ -46,6 +45,19 @@ export async function platformFetch<T = any>(
       // If device identity fails, continue without blocking the request.
     }
   }
+  return headers;
+}
+
+export async function platformFetch<T = any>(
+  path: string,
+  options: RequestInit = {}
+): Promise<{ res: Response; data: T }> {
+  const url = getPlatformUrl(path);
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  const headers = await buildPlatformHeaders({
+    'Content-Type': 'application/json',
+    ...(options.headers as Record<string, string> | undefined),
+  });
 
   let res: Response;
   try {
@@ -0,0 +1,194 @@
+// src/api/platformStream.ts
+import { ENV } from '../config/env';
+import { buildPlatformHeaders, getPlatformUrl } from './platformFetch';
+import { triggerSessionInvalidOnce } from './sessionInvalid';
+
+export type PlatformStreamEvent = {
+  id: string | null;
+  event: string;
+  data: string;
+};
+
+export type PlatformStreamHandlers = {
+  onEvent: (event: PlatformStreamEvent) => void;
+  // resumed is true when the server was given a resume token for this connection.
+  onOpen?: (info: { resumed: boolean }) => void;
+  onDisconnect?: () => void;
+};
+
+export type PlatformStream = {
+  close: () => void;
+};
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+// The server sends a comment heartbeat well within this window.
+const IDLE_TIMEOUT_MS = 45000;
+// XHR keeps the whole body in responseText; recycle long-lived connections before it grows large.
+const MAX_BUFFERED_CHARS = 1024 * 1024;
+
+const XHR_HEADERS_RECEIVED = 2;
+
+function resolveStreamUrl(path: string): string {
+  const override = (ENV.DINODIA_PLATFORM_STREAM_API || '').trim().replace(/\/+$/, '');
+  if (override && __DEV__) {
+    return `${override}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+  return getPlatformUrl(path);
+}
+
+/**
+ * Server-sent events from the platform, with platformFetch auth. Reconnects with backoff and
+ * sends the last event id back as Last-Event-ID so the server can resume where it left off.
+ */
+export function openPlatformStream(path: string, handlers: PlatformStreamHandlers): PlatformStream {
+  let closed = false;
+  let xhr: XMLHttpRequest | null = null;
+  let lastEventId: string | null = null;
+  let retryMs = RETRY_BASE_MS;
+  let retryAttempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let connected = false;
+
+  const clearIdle = () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  };
+
+  const armIdle = () => {
+    clearIdle();
+    idleTimer = setTimeout(() => xhr?.abort(), IDLE_TIMEOUT_MS);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    const delay = Math.min(RETRY_MAX_MS, retryMs * 2 ** retryAttempt);
+    retryAttempt += 1;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void connect();
+    }, delay);
+  };
+
+  const handleEnded = () => {
+    clearIdle();
+    xhr = null;
+    if (connected) {
+      connected = false;
+      if (!closed) handlers.onDisconnect?.();
+    }
+    scheduleReconnect();
+  };
+
+  const connect = async () => {
+    if (closed) return;
+    let url: string;
+    let headers: Record<string, string>;
+    try {
+      url = resolveStreamUrl(path);
+      headers = await buildPlatformHeaders({
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      });
+    } catch {
+      scheduleReconnect();
+      return;
+    }
+    if (closed) return;
+
+    const request = new XMLHttpRequest();
+    xhr = request;
+    const resumed = lastEventId !== null;
+    let offset = 0;
+    let pending = '';
+    let eventType = '';
+    let eventId: string | null = null;
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+      if (eventId !== null) lastEventId = eventId;
+      if (dataLines.length > 0) {
+        handlers.onEvent({ id: eventId, event: eventType || 'message', data: dataLines.join('\n') });
+      }
+      eventType = '';
+      eventId = null;
+      dataLines = [];
+    };
+
+    const consume = () => {
+      const text = request.responseText ?? '';
+      if (text.length <= offset) return;
+      armIdle();
+      pending += text.slice(offset);
+      offset = text.length;
+      const lines = pending.split(/\r\n|\r|\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          dispatch();
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'data') dataLines.push(value);
+        else if (field === 'event') eventType = value;
+        else if (field === 'id') eventId = value;
+        else if (field === 'retry' && /^\d+$/.test(value)) retryMs = Number(value);
+      }
+      if (offset > MAX_BUFFERED_CHARS) request.abort();
+    };
+
+    request.onreadystatechange = () => {
+      if (request.readyState !== XHR_HEADERS_RECEIVED) return;
+      if (request.status === 401) {
+        closed = true;
+        request.abort();
+        void triggerSessionInvalidOnce();
+        return;
+      }
+      if (request.status !== 200) {
+        request.abort();
+        return;
+      }
+      connected = true;
+      retryAttempt = 0;
+      armIdle();
+      handlers.onOpen?.({ resumed });
+    };
+    request.onprogress = consume;
+    request.onload = () => {
+      consume();
+      handleEnded();
+    };
+    request.onerror = handleEnded;
+    request.onabort = handleEnded;
+    request.ontimeout = handleEnded;
+
+    request.open('GET', url);
+    Object.entries(headers).forEach(([name, value]) => request.setRequestHeader(name, value));
+    request.withCredentials = true;
+    request.send();
+  };
+
+  void connect();
+
+  return {
+    close: () => {
+      if (closed) return;
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      clearIdle();
+      xhr?.abort();
+      xhr = null;
+    },
+  };
+}
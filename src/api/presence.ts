@@ -0,0 +1,45 @@
+// src/api/presence.ts
+import type { HaMode } from './dinodia';
+import type { HaConnection } from '../models/haConnection';
+import { isPresenceEntity, isZoneEntity, type PresenceSources } from '../presence/presenceModel';
+import { listHaStates } from './ha';
+import { getHaConnectionForMode } from './haSecrets';
+import { runOnHaRoute, type HaRoute } from './haRouter';
+
+type PlatformOpts = { haConnection?: HaConnection | null; mode?: HaMode };
+
+function byName<T extends { name: string }>(a: T, b: T) {
+  return a.name.localeCompare(b.name);
+}
+
+/** People, tracked devices and zones automations can react to. */
+export async function listPresenceSources(opts: PlatformOpts = {}): Promise<PresenceSources> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => listPresenceSourcesOnRoute(route, opts));
+}
+
+async function listPresenceSourcesOnRoute(route: HaRoute, opts: PlatformOpts): Promise<PresenceSources> {
+  // Presence automations can only be saved on the hub, so there is nothing to pick from over the cloud.
+  if (route === 'cloud') throw new Error('People and zones are only available through the Dinodia Hub.');
+
+  let ha;
+  try {
+    ha = await getHaConnectionForMode(route, opts.haConnection ?? undefined);
+  } catch {
+    throw new Error('Dinodia Hub connection is not configured.');
+  }
+  const states = await listHaStates(ha);
+  const people = states
+    .filter((s) => isPresenceEntity(s.entity_id))
+    .map((s) => ({ entityId: s.entity_id, name: s.attributes.friendly_name || s.entity_id, state: s.state }));
+  const zones = states
+    .filter((s) => isZoneEntity(s.entity_id))
+    .map((s) => {
+      const count = Number(s.state);
+      return {
+        entityId: s.entity_id,
+        name: s.attributes.friendly_name || s.entity_id,
+        count: s.state !== '' && Number.isFinite(count) ? count : null,
+      };
+    });
+  return { people: people.sort(byName), zones: zones.sort(byName) };
+}
@@ -0,0 +1,149 @@
+// src/api/scenes.ts
+import type { HaMode } from './dinodia';
+import type { HaConnection } from '../models/haConnection';
+import { isSceneBlind, type SceneDraft, type SceneSummary } from '../scenes/sceneModel';
+import { compileSceneEntities, compileSceneToHaConfig, parseHaSceneConfig } from '../scenes/haSceneCompiler';
+import { callHaApi, callHaService, listHaStates, type HaConnectionLike } from './ha';
+import { platformFetch } from './platformFetch';
+import { getHaConnectionForMode } from './haSecrets';
+import { runOnHaRoute, type HaRoute } from './haRouter';
+
+type PlatformOpts = { haConnection?: HaConnection | null; mode?: HaMode };
+
+function makeSceneId() {
+  const random = Math.random().toString(16).slice(2);
+  const time = Date.now().toString(16);
+  return `dinodia_scene_${time}${random}`.replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
+}
+
+async function resolveHa(conn: HaConnection | null | undefined, route: HaRoute): Promise<HaConnectionLike> {
+  try {
+    return await getHaConnectionForMode(route, conn ?? undefined);
+  } catch {
+    throw new Error('Dinodia Hub connection is not configured.');
+  }
+}
+
+function mapPlatformScene(raw: any): SceneSummary | null {
+  const parsed = parseHaSceneConfig(raw);
+  if (!parsed || typeof raw?.id !== 'string') return null;
+  return {
+    ...parsed,
+    id: raw.id,
+    entityId: typeof raw.entityId === 'string' ? raw.entityId : null,
+    canEdit: raw.canEdit !== false,
+  };
+}
+
+export async function listScenes(opts: PlatformOpts = {}): Promise<SceneSummary[]> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => listScenesOnRoute(route, opts));
+}
+
+async function listScenesOnRoute(route: HaRoute, opts: PlatformOpts): Promise<SceneSummary[]> {
+  if (route === 'cloud') {
+    const { data } = await platformFetch<{ ok?: boolean; scenes?: any[]; error?: string }>(
+      '/api/scenes?mode=cloud',
+      { method: 'GET' }
+    );
+    if (data.ok === false) throw new Error(data.error || 'Unable to load scenes.');
+    return (Array.isArray(data.scenes) ? data.scenes : [])
+      .map(mapPlatformScene)
+      .filter((scene): scene is SceneSummary => scene !== null);
+  }
+
+  const ha = await resolveHa(opts.haConnection, route);
+  const states = await listHaStates(ha);
+  const sceneStates = states.filter((s) => s.entity_id.startsWith('scene.'));
+  const scenes = await Promise.all(
+    sceneStates.map(async (state): Promise<SceneSummary> => {
+      const id = typeof state.attributes.id === 'string' ? state.attributes.id : null;
+      const name = state.attributes.friendly_name || state.entity_id;
+      // Scenes written in YAML have no config id; they can be activated but not edited here.
+      if (!id) {
+        return { id: state.entity_id, entityId: state.entity_id, name, entities: [], canEdit: false };
+      }
+      const config = await callHaApi<any>(ha, `/api/config/scene/config/${encodeURIComponent(id)}`).catch(
+        () => null
+      );
+      const parsed = parseHaSceneConfig(config);
+      return {
+        ...(parsed ?? { name, entities: [] }),
+        id,
+        entityId: state.entity_id,
+        canEdit: parsed !== null,
+      };
+    })
+  );
+  return scenes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveScene(draft: SceneDraft, opts: PlatformOpts = {}): Promise<string> {
+  if (!draft.name.trim()) throw new Error('Give the scene a name.');
+  if (draft.entities.length === 0) throw new Error('Add at least one device to the scene.');
+  if (draft.entities.some(isSceneBlind)) {
+    throw new Error('Blinds cannot be part of a scene. Remove them and move blinds from an automation instead.');
+  }
+  return runOnHaRoute(opts.mode ?? 'home', (route) => saveSceneOnRoute(route, draft, opts), { mutating: true });
+}
+
+async function saveSceneOnRoute(route: HaRoute, draft: SceneDraft, opts: PlatformOpts): Promise<string> {
+  if (route === 'cloud') {
+    const path = draft.id ? `/api/scenes/${encodeURIComponent(draft.id)}?mode=cloud` : '/api/scenes?mode=cloud';
+    const { data } = await platformFetch<{ ok?: boolean; id?: string; error?: string }>(path, {
+      method: draft.id ? 'PATCH' : 'POST',
+      body: JSON.stringify(compileSceneToHaConfig(draft)),
+    });
+    if (data.ok === false) throw new Error(data.error || 'Unable to save scene.');
+    return data.id ?? draft.id ?? '';
+  }
+
+  const ha = await resolveHa(opts.haConnection, route);
+  const id = (draft.id || makeSceneId()).replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
+  await callHaApi(ha, `/api/config/scene/config/${encodeURIComponent(id)}`, {
+    method: 'POST',
+    body: JSON.stringify({ ...compileSceneToHaConfig(draft), id }),
+  });
+  return id;
+}
+
+export async function deleteScene(id: string, opts: PlatformOpts = {}): Promise<void> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => deleteSceneOnRoute(route, id, opts), { mutating: true });
+}
+
+async function deleteSceneOnRoute(route: HaRoute, id: string, opts: PlatformOpts): Promise<void> {
+  if (route === 'cloud') {
+    const { data } = await platformFetch<{ ok?: boolean; error?: string }>(
+      `/api/scenes/${encodeURIComponent(id)}?mode=cloud`,
+      { method: 'DELETE' }
+    );
+    if (data.ok === false) throw new Error(data.error || 'Unable to delete scene.');
+    return;
+  }
+
+  const ha = await resolveHa(opts.haConnection, route);
+  await callHaApi(ha, `/api/config/scene/config/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function activateScene(scene: SceneSummary, opts: PlatformOpts = {}): Promise<void> {
+  return runOnHaRoute(opts.mode ?? 'home', (route) => activateSceneOnRoute(route, scene, opts), { mutating: true });
+}
+
+async function activateSceneOnRoute(route: HaRoute, scene: SceneSummary, opts: PlatformOpts): Promise<void> {
+  if (route === 'cloud') {
+    const { data } = await platformFetch<{ ok?: boolean; error?: string }>(
+      `/api/scenes/${encodeURIComponent(scene.id)}/activate?mode=cloud`,
+      { method: 'POST' }
+    );
+    if (data.ok === false) throw new Error(data.error || 'Unable to activate scene.');
+    return;
+  }
+
+  const ha = await resolveHa(opts.haConnection, route);
+  // Applying the stored snapshot directly works even before the hub has reloaded a just-saved scene.
+  if (scene.entities.length > 0) {
+    await callHaService(ha, 'scene', 'apply', { entities: compileSceneEntities(scene) }, 10000);
+    return;
+  }
+  if (!scene.entityId) throw new Error('This scene cannot be activated.');
+  await callHaService(ha, 'scene', 'turn_on', { entity_id: scene.entityId }, 10000);
+}
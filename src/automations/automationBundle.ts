@@ -0,0 +1,242 @@
+import type { UIDevice } from '../models/device';
+import type { SceneSummary } from '../scenes/sceneModel';
+import { getActionsForDevice, type DeviceCommandId } from '../capabilities/deviceCapabilities';
+import { getPrimaryLabel } from '../utils/deviceLabels';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationDraft,
+  AutomationTrigger,
+  SceneAction,
+} from './automationModel';
+
+export const BUNDLE_FORMAT = 'dinodia-automations';
+export const BUNDLE_VERSION = 1;
+
+/** A device as another property would recognise it; entity ids differ from home to home. */
+export type BundleDeviceRef = {
+  ref: string;
+  name: string;
+  area: string | null;
+  label: string;
+  domain: string;
+};
+
+export type BundleSceneRef = { ref: string; name: string };
+
+/** Drafts in a bundle carry refs (e.g. "device:1") wherever an entity or scene id would go. */
+export type AutomationBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  devices: BundleDeviceRef[];
+  scenes: BundleSceneRef[];
+  automations: AutomationDraft[];
+};
+
+export type BundleDeviceMatch = { ref: BundleDeviceRef; device: UIDevice | null; reason?: string };
+
+export type BundleImportItem = {
+  draft: AutomationDraft;
+  /** Anything that stops this automation being created here; empty when it is ready. */
+  problems: string[];
+};
+
+export type BundleImportPlan = {
+  items: BundleImportItem[];
+  devices: BundleDeviceMatch[];
+};
+
+type EntityMapper = (entityId: string) => string;
+type SceneMapper = (action: SceneAction) => SceneAction;
+
+function mapTrigger(trigger: AutomationTrigger, map: EntityMapper): AutomationTrigger {
+  // Zones keep their ids; zone.home is the same everywhere and other zones are matched by id.
+  if (trigger.kind === 'presence') {
+    return trigger.entityId ? { ...trigger, entityId: map(trigger.entityId) } : { ...trigger };
+  }
+  return 'entityId' in trigger ? { ...trigger, entityId: map(trigger.entityId) } : { ...trigger };
+}
+
+function mapCondition(condition: AutomationCondition, map: EntityMapper): AutomationCondition {
+  if (condition.kind === 'group') {
+    return { ...condition, conditions: condition.conditions.map((c) => mapCondition(c, map)) };
+  }
+  return 'entityId' in condition ? { ...condition, entityId: map(condition.entityId) } : { ...condition };
+}
+
+function mapAction(action: AutomationAction, map: EntityMapper, mapScene: SceneMapper): AutomationAction {
+  switch (action.kind) {
+    case 'parallel':
+      return { ...action, actions: action.actions.map((a) => mapAction(a, map, mapScene)) };
+    case 'activate_scene':
+      return mapScene(action);
+    case 'delay':
+      return { ...action };
+    default:
+      return { ...action, entityId: map(action.entityId) };
+  }
+}
+
+function mapDraft(draft: AutomationDraft, map: EntityMapper, mapScene: SceneMapper): AutomationDraft {
+  return {
+    alias: draft.alias,
+    description: draft.description ?? '',
+    mode: draft.mode ?? 'single',
+    triggers: draft.triggers.map((t) => mapTrigger(t, map)),
+    actions: draft.actions.map((a) => mapAction(a, map, mapScene)),
+    conditions: (draft.conditions ?? []).map((c) => mapCondition(c, map)),
+    daysOfWeek: draft.daysOfWeek,
+  };
+}
+
+function normalize(value: string | null | undefined) {
+  return (value ?? '').trim().toLowerCase();
+}
+
+function deviceArea(device: UIDevice) {
+  return (device.area ?? device.areaName ?? '').trim() || null;
+}
+
+/** Replace this home's entity and scene ids with portable refs. Automation ids are dropped. */
+export function exportAutomationBundle(
+  drafts: AutomationDraft[],
+  devices: UIDevice[],
+  scenes: SceneSummary[] = []
+): AutomationBundle {
+  const deviceRefs = new Map<string, BundleDeviceRef>();
+  const sceneRefs = new Map<string, BundleSceneRef>();
+
+  const mapEntity = (entityId: string) => {
+    let ref = deviceRefs.get(entityId);
+    if (!ref) {
+      const device = devices.find((d) => d.entityId === entityId);
+      ref = {
+        ref: `device:${deviceRefs.size + 1}`,
+        name: device?.name ?? entityId,
+        area: device ? deviceArea(device) : null,
+        label: device ? getPrimaryLabel(device) : '',
+        domain: entityId.split('.')[0] ?? '',
+      };
+      deviceRefs.set(entityId, ref);
+    }
+    return ref.ref;
+  };
+  const mapScene = (action: SceneAction): SceneAction => {
+    let ref = sceneRefs.get(action.sceneId);
+    if (!ref) {
+      const scene = scenes.find((s) => s.id === action.sceneId);
+      ref = { ref: `scene:${sceneRefs.size + 1}`, name: scene?.name ?? action.name ?? action.sceneId };
+      sceneRefs.set(action.sceneId, ref);
+    }
+    return { ...action, sceneId: ref.ref, sceneEntityId: null, name: ref.name };
+  };
+  const automations = drafts.map((draft) => mapDraft(draft, mapEntity, mapScene));
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    devices: Array.from(deviceRefs.values()),
+    scenes: Array.from(sceneRefs.values()),
+    automations,
+  };
+}
+
+export function parseAutomationBundle(text: string): AutomationBundle {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a valid automation bundle (JSON could not be read).');
+  }
+  if (!raw || raw.format !== BUNDLE_FORMAT) throw new Error('This is not a Dinodia automation bundle.');
+  if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+    throw new Error(`This bundle was made by a newer app (version ${raw.version}). Update the kiosk and try again.`);
+  }
+  if (!Array.isArray(raw.automations) || !Array.isArray(raw.devices)) {
+    throw new Error('This automation bundle is incomplete.');
+  }
+  const invalid = raw.automations.findIndex(
+    (a: any) => !a || typeof a.alias !== 'string' || !Array.isArray(a.triggers) || !Array.isArray(a.actions)
+  );
+  if (invalid >= 0) throw new Error(`Automation ${invalid + 1} in this bundle is incomplete.`);
+  return { ...raw, scenes: Array.isArray(raw.scenes) ? raw.scenes : [] } as AutomationBundle;
+}
+
+/** Area and label must match; the name only breaks ties between otherwise identical devices. */
+function matchDevice(ref: BundleDeviceRef, devices: UIDevice[]): BundleDeviceMatch {
+  const candidates = devices.filter(
+    (d) =>
+      normalize(deviceArea(d)) === normalize(ref.area) &&
+      normalize(getPrimaryLabel(d)) === normalize(ref.label) &&
+      d.entityId.split('.')[0] === ref.domain
+  );
+  const kind = ref.label || ref.domain;
+  const area = ref.area || 'an unassigned area';
+  if (candidates.length === 1) return { ref, device: candidates[0] };
+  if (candidates.length === 0) return { ref, device: null, reason: `No ${kind} in ${area}.` };
+  const named = candidates.filter((d) => normalize(d.name) === normalize(ref.name));
+  if (named.length === 1) return { ref, device: named[0] };
+  return {
+    ref,
+    device: null,
+    reason: `${candidates.length} ${kind} devices in ${area}; none is uniquely named "${ref.name}".`,
+  };
+}
+
+function allowedCommands(device: UIDevice): DeviceCommandId[] {
+  return getActionsForDevice(device, 'automation').flatMap((spec) =>
+    spec.kind === 'toggle' ? [spec.commandOn, spec.commandOff] : [spec.command]
+  );
+}
+
+function collectCommands(actions: AutomationAction[]): { entityId: string; command: DeviceCommandId }[] {
+  return actions.flatMap((action) => {
+    if (action.kind === 'parallel') return collectCommands(action.actions);
+    return action.kind === 'device_command' ? [{ entityId: action.entityId, command: action.command }] : [];
+  });
+}
+
+/**
+ * Work out how each automation in a bundle lands on this property: refs are resolved to local devices
+ * and scenes, and every device command is checked against what that device offers in automations.
+ */
+export function planAutomationBundleImport(
+  bundle: AutomationBundle,
+  devices: UIDevice[],
+  scenes: SceneSummary[] = []
+): BundleImportPlan {
+  const matches = bundle.devices.map((ref) => matchDevice(ref, devices));
+  const byRef = new Map(matches.map((m) => [m.ref.ref, m]));
+  const sceneByRef = new Map(
+    bundle.scenes.map((ref) => [ref.ref, scenes.find((s) => normalize(s.name) === normalize(ref.name)) ?? null])
+  );
+
+  const items = bundle.automations.map((draft) => {
+    const problems = new Set<string>();
+    const mapEntity = (ref: string) => {
+      const match = byRef.get(ref);
+      if (match?.device) return match.device.entityId;
+      problems.add(match ? `"${match.ref.name}" has no match here: ${match.reason}` : `Unknown device ${ref}.`);
+      return ref;
+    };
+    const mapScene = (action: SceneAction): SceneAction => {
+      const scene = sceneByRef.get(action.sceneId);
+      if (scene) return { ...action, sceneId: scene.id, sceneEntityId: scene.entityId ?? null, name: scene.name };
+      problems.add(`Scene "${action.name ?? action.sceneId}" does not exist here; create it first.`);
+      return action;
+    };
+    const mapped = mapDraft(draft, mapEntity, mapScene);
+
+    collectCommands(mapped.actions).forEach(({ entityId, command }) => {
+      const device = devices.find((d) => d.entityId === entityId);
+      if (device && !allowedCommands(device).includes(command)) {
+        problems.add(`${device.name} can't run "${command}" in automations.`);
+      }
+    });
+    return { draft: mapped, problems: Array.from(problems) };
+  });
+
+  return { items, devices: matches };
+}
@@ -7,6 +7,7 @@ export type StateTrigger = {
   entityId: string;
   to?: string | null;
   from?: string | null;
+  forMinutes?: number | null; // only fire once the state has held this long
 };
 
 export type NumericDeltaTrigger = {
@@ -16,6 +17,15 @@ export type NumericDeltaTrigger = {
   direction: 'increase' | 'decrease';
 };
 
+export type ThresholdTrigger = {
+  kind: 'numeric_threshold';
+  entityId: string;
+  attribute?: string | null;
+  above?: number | null;
+  below?: number | null;
+  forMinutes?: number | null; // must stay past the threshold this long
+};
+
 export type PositionTrigger = {
   kind: 'position_equals';
   entityId: string;
@@ -29,7 +39,35 @@ export type TimeTrigger = {
   daysOfWeek?: string[];
 };
 
-export type AutomationTrigger = StateTrigger | NumericDeltaTrigger | PositionTrigger | TimeTrigger;
+export type SunEvent = 'sunrise' | 'sunset';
+
+export type SunTrigger = {
+  kind: 'sun';
+  event: SunEvent;
+  offsetMinutes?: number; // negative fires before the event
+};
+
+export type PresenceEvent = 'first_arrives' | 'last_leaves' | 'enters' | 'leaves';
+
+/**
+ * People coming and going. first_arrives/last_leaves follow the zone's head count (people only);
+ * enters/leaves follow one person or tracked device, such as a phone seen on the home Wi-Fi.
+ */
+export type PresenceTrigger = {
+  kind: 'presence';
+  event: PresenceEvent;
+  zone: string; // zone.* entity, usually zone.home
+  entityId?: string; // person.* or device_tracker.*; enters/leaves only
+};
+
+export type AutomationTrigger =
+  | StateTrigger
+  | NumericDeltaTrigger
+  | ThresholdTrigger
+  | PositionTrigger
+  | TimeTrigger
+  | SunTrigger
+  | PresenceTrigger;
 
 export type DeviceAction = {
   kind: 'device_command';
@@ -38,7 +76,99 @@ export type DeviceAction = {
   value?: number;
 };
 
-export type AutomationAction = DeviceAction;
+export type DelayAction = {
+  kind: 'delay';
+  seconds: number;
+};
+
+export type WaitForStateAction = {
+  kind: 'wait_for_state';
+  entityId: string;
+  state: string;
+  timeoutSeconds?: number | null;
+  /** When false, a timed-out wait stops the remaining steps. */
+  continueOnTimeout?: boolean;
+};
+
+export type ParallelAction = {
+  kind: 'parallel';
+  actions: AutomationAction[];
+};
+
+export type SceneAction = {
+  kind: 'activate_scene';
+  sceneId: string;
+  /**
+   * scene.* entity the hub created for the scene. Home Assistant names it after the scene, not its
+   * config id, so a draft without it cannot be compiled until the scene is picked again.
+   */
+  sceneEntityId: string | null;
+  name?: string;
+};
+
+/** Actions in a draft run in order; a parallel step starts all of its actions at once. */
+export type AutomationAction = DeviceAction | DelayAction | WaitForStateAction | ParallelAction | SceneAction;
+
+export type StateCondition = {
+  kind: 'state';
+  entityId: string;
+  state: string;
+  negate?: boolean;
+};
+
+export type NumericCondition = {
+  kind: 'numeric';
+  entityId: string;
+  attribute?: string | null;
+  above?: number | null;
+  below?: number | null;
+};
+
+export type TimeWindowCondition = {
+  kind: 'time_window';
+  after?: string | null; // HH:mm
+  before?: string | null; // HH:mm, may wrap past midnight
+};
+
+export type WeekdayCondition = {
+  kind: 'weekday';
+  daysOfWeek: string[];
+};
+
+export type DeviceOnCondition = {
+  kind: 'device_on';
+  entityId: string;
+};
+
+/** after: sunset + before: sunrise spans the night, wrapping past midnight. */
+export type SunCondition = {
+  kind: 'sun';
+  after?: SunEvent | null;
+  before?: SunEvent | null;
+};
+
+/** Someone (occupied) or no one is in the zone, going by its head count. */
+export type PresenceCondition = {
+  kind: 'presence';
+  zone: string;
+  occupied: boolean;
+};
+
+export type ConditionGroup = {
+  kind: 'group';
+  operator: 'and' | 'or';
+  conditions: AutomationCondition[];
+};
+
+export type AutomationCondition =
+  | StateCondition
+  | NumericCondition
+  | TimeWindowCondition
+  | WeekdayCondition
+  | DeviceOnCondition
+  | SunCondition
+  | PresenceCondition
+  | ConditionGroup;
 
 export type AutomationDraft = {
   id?: string;
@@ -47,6 +177,10 @@ export type AutomationDraft = {
   mode?: AutomationMode;
   triggers: AutomationTrigger[];
   actions: AutomationAction[];
+  /** All must pass for the actions to run; use a group for OR. */
+  conditions?: AutomationCondition[];
+  /** @deprecated Older drafts only; use a weekday condition. */
   daysOfWeek?: string[];
+  /** @deprecated Older drafts only; duplicated the time trigger. */
   triggerTime?: string | null;
 };
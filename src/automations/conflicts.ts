@@ -0,0 +1,268 @@
+import type { UIDevice } from '../models/device';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationDraft,
+  AutomationTrigger,
+} from './automationModel';
+
+export type ConflictSubject = {
+  id: string;
+  alias: string;
+  draft: AutomationDraft;
+  enabled?: boolean;
+};
+
+export type AutomationConflict = {
+  kind: 'opposing' | 'loop';
+  /** The two automations involved; order follows the input list. */
+  ids: [string, string];
+  entityId: string;
+  message: string;
+};
+
+type Aspect = 'power' | 'position' | 'brightness' | 'volume' | 'temperature';
+
+type Effect = { entityId: string; aspect: Aspect; value: number };
+
+const WEEK = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const DAY_MINUTES = 24 * 60;
+
+function flattenActions(actions: AutomationAction[]): AutomationAction[] {
+  return actions.flatMap((a) => (a.kind === 'parallel' ? flattenActions(a.actions) : [a]));
+}
+
+// What each command leaves the device at. Relative and toggling commands have no fixed outcome.
+function effectsOf(draft: AutomationDraft): Effect[] {
+  return flattenActions(draft.actions).flatMap((action): Effect[] => {
+    if (action.kind !== 'device_command') return [];
+    const { entityId, value } = action;
+    switch (action.command) {
+      case 'light/turn_on':
+      case 'tv/turn_on':
+      case 'speaker/turn_on':
+        return [{ entityId, aspect: 'power', value: 1 }];
+      case 'light/turn_off':
+      case 'tv/turn_off':
+      case 'speaker/turn_off':
+        return [{ entityId, aspect: 'power', value: 0 }];
+      case 'light/set_brightness':
+        return [
+          { entityId, aspect: 'power', value: (value ?? 0) > 0 ? 1 : 0 },
+          { entityId, aspect: 'brightness', value: value ?? 0 },
+        ];
+      case 'blind/open':
+        return [{ entityId, aspect: 'position', value: 100 }];
+      case 'blind/close':
+        return [{ entityId, aspect: 'position', value: 0 }];
+      case 'blind/set_position':
+        return [{ entityId, aspect: 'position', value: value ?? 0 }];
+      case 'media/volume_set':
+        return [{ entityId, aspect: 'volume', value: value ?? 0 }];
+      case 'boiler/set_temperature':
+        return typeof value === 'number' ? [{ entityId, aspect: 'temperature', value }] : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function describeValue(effect: Effect) {
+  switch (effect.aspect) {
+    case 'power':
+      return effect.value ? 'on' : 'off';
+    case 'position':
+      return effect.value >= 100 ? 'open' : effect.value <= 0 ? 'closed' : `${effect.value}% open`;
+    case 'temperature':
+      return `${effect.value}°`;
+    default:
+      return `${effect.aspect} ${effect.value}%`;
+  }
+}
+
+/** The state a device reports after the effect, as a state trigger would see it. */
+function resultingState(effect: Effect): string | null {
+  if (effect.aspect === 'power') return effect.value ? 'on' : 'off';
+  if (effect.aspect === 'position') return effect.value <= 0 ? 'closed' : 'open';
+  return null;
+}
+
+function effectTriggers(effect: Effect, trigger: AutomationTrigger): boolean {
+  if (!('entityId' in trigger) || trigger.entityId !== effect.entityId) return false;
+  switch (trigger.kind) {
+    case 'state': {
+      const state = resultingState(effect);
+      return state !== null && (!trigger.to || trigger.to === state) && trigger.from !== state;
+    }
+    case 'position_equals':
+      return effect.aspect === 'position' && effect.value === trigger.value;
+    case 'numeric_threshold':
+      return (
+        effect.aspect !== 'power' &&
+        (trigger.above == null || effect.value > trigger.above) &&
+        (trigger.below == null || effect.value < trigger.below)
+      );
+    case 'numeric_delta':
+      return effect.aspect !== 'power';
+    default:
+      return false;
+  }
+}
+
+function sameOrAny(a: string | null | undefined, b: string | null | undefined) {
+  return !a || !b || a === b;
+}
+
+function rangesOverlap(
+  a: { above?: number | null; below?: number | null },
+  b: { above?: number | null; below?: number | null }
+) {
+  const low = Math.max(a.above ?? -Infinity, b.above ?? -Infinity);
+  const high = Math.min(a.below ?? Infinity, b.below ?? Infinity);
+  return low < high;
+}
+
+function daysOverlap(a: string[], b: string[]) {
+  return a.some((d) => b.includes(d));
+}
+
+/** Whether one event could start both automations at the same moment; days are each automation's active days. */
+function triggersOverlap(a: AutomationTrigger, b: AutomationTrigger, aDays: string[], bDays: string[]): boolean {
+  switch (a.kind) {
+    case 'state':
+      return b.kind === 'state' && a.entityId === b.entityId && sameOrAny(a.to, b.to) && sameOrAny(a.from, b.from);
+    case 'numeric_threshold':
+      return (
+        b.kind === 'numeric_threshold' &&
+        a.entityId === b.entityId &&
+        (a.attribute ?? null) === (b.attribute ?? null) &&
+        rangesOverlap(a, b)
+      );
+    case 'numeric_delta':
+      return (
+        b.kind === 'numeric_delta' &&
+        a.entityId === b.entityId &&
+        a.attribute === b.attribute &&
+        a.direction === b.direction
+      );
+    case 'position_equals':
+      return b.kind === 'position_equals' && a.entityId === b.entityId && a.value === b.value;
+    case 'time':
+      return (
+        b.kind === 'time' &&
+        a.at === b.at &&
+        daysOverlap(
+          aDays.filter((d) => !a.daysOfWeek || a.daysOfWeek.includes(d)),
+          bDays.filter((d) => !b.daysOfWeek || b.daysOfWeek.includes(d))
+        )
+      );
+    case 'sun':
+      return b.kind === 'sun' && a.event === b.event && (a.offsetMinutes ?? 0) === (b.offsetMinutes ?? 0);
+    case 'presence':
+      return b.kind === 'presence' && a.event === b.event && a.zone === b.zone && a.entityId === b.entityId;
+    default:
+      return false;
+  }
+}
+
+function toMinutes(value: string | null | undefined, fallback: number) {
+  const [h, m] = (value ?? '').split(':').map(Number);
+  return Number.isFinite(h) && Number.isFinite(m) ? h * 60 + m : fallback;
+}
+
+/** Minute ranges of the day the automation may run in; a window past midnight splits in two. */
+function activeMinutes(conditions: AutomationCondition[]): [number, number][] {
+  let ranges: [number, number][] = [[0, DAY_MINUTES]];
+  conditions.forEach((c) => {
+    if (c.kind !== 'time_window') return;
+    const after = toMinutes(c.after, 0);
+    const before = toMinutes(c.before, DAY_MINUTES);
+    const window: [number, number][] =
+      after > before ? [[after, DAY_MINUTES], [0, before]] : [[after, before]];
+    ranges = ranges.flatMap(([s, e]) =>
+      window.map(([ws, we]): [number, number] => [Math.max(s, ws), Math.min(e, we)]).filter(([x, y]) => x < y)
+    );
+  });
+  return ranges;
+}
+
+function activeDays(draft: AutomationDraft): string[] {
+  let days = draft.daysOfWeek && draft.daysOfWeek.length > 0 ? draft.daysOfWeek : WEEK;
+  (draft.conditions ?? []).forEach((c) => {
+    if (c.kind === 'weekday') days = days.filter((d) => c.daysOfWeek.includes(d));
+  });
+  return days;
+}
+
+function windowsOverlap(a: AutomationDraft, b: AutomationDraft) {
+  if (!daysOverlap(activeDays(a), activeDays(b))) return false;
+  const left = activeMinutes(a.conditions ?? []);
+  const right = activeMinutes(b.conditions ?? []);
+  return left.some(([s1, e1]) => right.some(([s2, e2]) => Math.max(s1, s2) < Math.min(e1, e2)));
+}
+
+function pairConflicts(a: ConflictSubject, b: ConflictSubject, name: (entityId: string) => string) {
+  const conflicts: AutomationConflict[] = [];
+  const ids: [string, string] = [a.id, b.id];
+  const aEffects = effectsOf(a.draft);
+  const bEffects = effectsOf(b.draft);
+
+  const aDays = activeDays(a.draft);
+  const bDays = activeDays(b.draft);
+  const together =
+    a.draft.triggers.some((t) => b.draft.triggers.some((u) => triggersOverlap(t, u, aDays, bDays))) &&
+    windowsOverlap(a.draft, b.draft);
+  if (together) {
+    const seen = new Set<string>();
+    aEffects.forEach((x) => {
+      const y = bEffects.find((e) => e.entityId === x.entityId && e.aspect === x.aspect && e.value !== x.value);
+      if (!y || seen.has(x.entityId)) return;
+      seen.add(x.entityId);
+      conflicts.push({
+        kind: 'opposing',
+        ids,
+        entityId: x.entityId,
+        message:
+          `"${a.alias}" and "${b.alias}" can start together; one sets ${name(x.entityId)} ` +
+          `${describeValue(x)}, the other ${describeValue(y)}.`,
+      });
+    });
+  }
+
+  const aStartsB = aEffects.find((e) => b.draft.triggers.some((t) => effectTriggers(e, t)));
+  const bStartsA = bEffects.find((e) => a.draft.triggers.some((t) => effectTriggers(e, t)));
+  if (aStartsB && bStartsA) {
+    conflicts.push({
+      kind: 'loop',
+      ids,
+      entityId: aStartsB.entityId,
+      message:
+        `"${a.alias}" sets ${name(aStartsB.entityId)} ${describeValue(aStartsB)}, which starts "${b.alias}"; ` +
+        `"${b.alias}" sets ${name(bStartsA.entityId)} ${describeValue(bStartsA)}, which starts "${a.alias}".`,
+    });
+  }
+  return conflicts;
+}
+
+/** Check every pair of enabled automations for opposing commands on shared triggers and for loops. */
+export function findAutomationConflicts(subjects: ConflictSubject[], devices: UIDevice[] = []): AutomationConflict[] {
+  const name = (entityId: string) => devices.find((d) => d.entityId === entityId)?.name ?? entityId;
+  const active = subjects.filter((s) => s.enabled !== false);
+  const conflicts: AutomationConflict[] = [];
+  active.forEach((a, i) => {
+    active.slice(i + 1).forEach((b) => conflicts.push(...pairConflicts(a, b, name)));
+  });
+  return conflicts;
+}
+
+/** Conflicts between a draft being edited and the saved automations; its own saved copy is skipped. */
+export function findDraftConflicts(
+  draft: ConflictSubject,
+  others: ConflictSubject[],
+  devices: UIDevice[] = []
+): AutomationConflict[] {
+  const name = (entityId: string) => devices.find((d) => d.entityId === entityId)?.name ?? entityId;
+  return others
+    .filter((o) => o.id !== draft.id && o.enabled !== false)
+    .flatMap((o) => pairConflicts(draft, o, name));
+}
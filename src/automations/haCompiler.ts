@@ -1,31 +1,65 @@
-import type { AutomationDraft, AutomationTrigger, AutomationAction } from './automationModel';
-import type { DeviceCommandId } from '../capabilities/deviceCapabilities';
+import type {
+  AutomationDraft,
+  AutomationTrigger,
+  AutomationAction,
+  AutomationCondition,
+  DeviceAction,
+  PresenceTrigger,
+} from './automationModel';
+import { HOME_ZONE } from '../presence/presenceModel';
+import { getCommandRange, type DeviceCommandId } from '../capabilities/deviceCapabilities';
 
 export type HaTrigger =
   | {
       platform: 'state';
       entity_id: string;
+      attribute?: string;
       to?: string;
       from?: string;
+      for?: string;
     }
   | {
       platform: 'numeric_state';
       entity_id: string;
-      attribute: string;
+      attribute?: string;
       above?: number;
       below?: number;
+      for?: string;
     }
   | {
       platform: 'time';
       at: string;
       weekday?: string[];
+    }
+  | {
+      platform: 'sun';
+      event: 'sunrise' | 'sunset';
+      offset?: string;
+    }
+  | {
+      platform: 'zone';
+      entity_id: string;
+      zone: string;
+      event: 'enter' | 'leave';
     };
 
-export type HaAction = {
-  service: string;
-  target?: { entity_id?: string };
-  data?: Record<string, unknown>;
-};
+export type HaAction =
+  | {
+      service: string;
+      target?: { entity_id?: string };
+      data?: Record<string, unknown>;
+    }
+  | {
+      delay: string;
+    }
+  | {
+      wait_for_trigger: HaTrigger[];
+      timeout?: string;
+      continue_on_timeout?: boolean;
+    }
+  | {
+      parallel: HaAction[];
+    };
 
 export type HaCondition =
   | {
@@ -37,6 +71,27 @@ export type HaCondition =
   | {
       condition: 'template';
       value_template: string;
+    }
+  | {
+      condition: 'state';
+      entity_id: string;
+      state: string | string[];
+    }
+  | {
+      condition: 'numeric_state';
+      entity_id: string;
+      attribute?: string;
+      above?: number;
+      below?: number;
+    }
+  | {
+      condition: 'sun';
+      after?: 'sunrise' | 'sunset';
+      before?: 'sunrise' | 'sunset';
+    }
+  | {
+      condition: 'and' | 'or' | 'not';
+      conditions: HaCondition[];
     };
 
 export type HaAutomationConfig = {
@@ -49,32 +104,72 @@ export type HaAutomationConfig = {
   condition?: HaCondition[];
 };
 
-export function compileAutomationDraftToHaConfig(draft: AutomationDraft): HaAutomationConfig {
+/** Per-entity settings the compiler can't read from the draft itself. */
+export type CompileOptions = {
+  /** Blind travel-time overrides from the platform, keyed by cover entity id. */
+  blindTravelSeconds?: Record<string, number | null | undefined>;
+};
+
+/** The hub script the dashboard drives blinds through; automations use it too so blinds behave the same. */
+export const BLIND_CONTROLLER_SERVICE = 'script.global_blind_controller';
+const DEFAULT_BLIND_TRAVEL_SECONDS = 22;
+
+/** A relative change compiled into service data: the attribute's current value plus delta, clamped. */
+export type RelativeStep = {
+  entityId: string;
+  attribute: string;
+  delta: number;
+  /** Used when the attribute has no numeric value yet. */
+  fallback: number;
+  min: number;
+  max: number;
+};
+
+const RELATIVE_STEP_PATTERN = new RegExp(
+  String.raw`^\{\{ \[\[\(state_attr\('([\w.]+)', '(\w+)'\) \| float\((-?[\d.]+)\)\) ` +
+    String.raw`([+-]) ([\d.]+), (-?[\d.]+)\] \| max, (-?[\d.]+)\] \| min \}\}$`
+);
+
+export function relativeStepTemplate(step: RelativeStep): string {
+  const sign = step.delta < 0 ? '-' : '+';
+  const current = `(state_attr('${step.entityId}', '${step.attribute}') | float(${step.fallback}))`;
+  return `{{ [[${current} ${sign} ${Math.abs(step.delta)}, ${step.min}] | max, ${step.max}] | min }}`;
+}
+
+/** Read back a template made by relativeStepTemplate; anything else is null. */
+export function parseRelativeStepTemplate(value: unknown): RelativeStep | null {
+  if (typeof value !== 'string') return null;
+  const match = RELATIVE_STEP_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, entityId, attribute, fallback, sign, delta, min, max] = match;
+  return {
+    entityId,
+    attribute,
+    delta: sign === '-' ? -Number(delta) : Number(delta),
+    fallback: Number(fallback),
+    min: Number(min),
+    max: Number(max),
+  };
+}
+
+/** What the hub would render the template to, given the entity's current attributes. */
+export function resolveRelativeStep(step: RelativeStep, attributes: Record<string, unknown>): number {
+  const raw = Number(attributes[step.attribute]);
+  const current = Number.isFinite(raw) && attributes[step.attribute] !== null ? raw : step.fallback;
+  return clamp(current + step.delta, step.min, step.max);
+}
+
+export function compileAutomationDraftToHaConfig(
+  draft: AutomationDraft,
+  options: CompileOptions = {}
+): HaAutomationConfig {
   const trigger = draft.triggers.map(compileTrigger);
   const action = draft.actions
-    .map((a) => compileAction(a))
+    .map((a) => compileAction(a, options))
     .filter((a): a is HaAction => !!a);
-  const hasDays = draft.daysOfWeek && draft.daysOfWeek.length > 0;
-  const at = (draft.triggerTime ?? '').trim();
-  const condition: HaCondition[] = [];
-  if (hasDays || at) {
-    const cond: HaCondition = { condition: 'time' };
-    if (hasDays) cond.weekday = draft.daysOfWeek;
-    if (at) {
-      const [h, m] = at.split(':').map((x) => Number(x));
-      if (Number.isFinite(h) && Number.isFinite(m)) {
-        const after = `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-        const minutesTotal = h * 60 + m;
-        const next = (minutesTotal + 1) % (24 * 60);
-        const nextH = Math.floor(next / 60);
-        const nextM = next % 60;
-        const before = `${String(nextH).padStart(2, '0')}:${String(nextM).padStart(2, '0')}`;
-        cond.after = after;
-        cond.before = before;
-      }
-    }
-    condition.push(cond);
-  }
+  const condition = draftConditions(draft)
+    .map(compileCondition)
+    .filter((c): c is HaCondition => !!c);
   draft.triggers.forEach((t) => {
     const delta = deltaTemplateCondition(t);
     if (delta) condition.push(delta);
@@ -90,7 +185,7 @@ export function compileAutomationDraftToHaConfig(draft: AutomationDraft): HaAuto
   };
 }
 
-function compileTrigger(trigger: AutomationTrigger): HaTrigger {
+export function compileTrigger(trigger: AutomationTrigger): HaTrigger {
   switch (trigger.kind) {
     case 'state':
       return {
@@ -98,6 +193,7 @@ function compileTrigger(trigger: AutomationTrigger): HaTrigger {
         entity_id: trigger.entityId,
         to: trigger.to ?? undefined,
         from: trigger.from ?? undefined,
+        for: trigger.forMinutes && trigger.forMinutes > 0 ? formatDuration(trigger.forMinutes * 60) : undefined,
       };
     case 'numeric_delta':
       return {
@@ -105,6 +201,15 @@ function compileTrigger(trigger: AutomationTrigger): HaTrigger {
         entity_id: trigger.entityId,
         attribute: trigger.attribute,
       };
+    case 'numeric_threshold':
+      return {
+        platform: 'numeric_state',
+        entity_id: trigger.entityId,
+        attribute: trigger.attribute || undefined,
+        above: trigger.above ?? undefined,
+        below: trigger.below ?? undefined,
+        for: trigger.forMinutes && trigger.forMinutes > 0 ? formatDuration(trigger.forMinutes * 60) : undefined,
+      };
     case 'position_equals':
       return {
         platform: 'numeric_state',
@@ -119,15 +224,159 @@ function compileTrigger(trigger: AutomationTrigger): HaTrigger {
         at: trigger.at,
         weekday: trigger.daysOfWeek,
       };
+    case 'sun':
+      return {
+        platform: 'sun',
+        event: trigger.event,
+        offset: trigger.offsetMinutes ? formatOffset(trigger.offsetMinutes) : undefined,
+      };
+    case 'presence':
+      return compilePresenceTrigger(trigger);
     default:
       return { platform: 'state', entity_id: '' };
   }
 }
 
+// A zone's state is how many people are in it, so first/last follow the count crossing zero.
+// Home is a plain state trigger, which also covers trackers that only report home/not_home
+// (e.g. phones seen by the router); zone triggers need trackers that report a location.
+function compilePresenceTrigger(trigger: PresenceTrigger): HaTrigger {
+  switch (trigger.event) {
+    case 'first_arrives':
+      return { platform: 'numeric_state', entity_id: trigger.zone, above: 0 };
+    case 'last_leaves':
+      return { platform: 'numeric_state', entity_id: trigger.zone, below: 1 };
+    default: {
+      const entityId = trigger.entityId ?? '';
+      const enters = trigger.event === 'enters';
+      if (trigger.zone === HOME_ZONE) {
+        return enters
+          ? { platform: 'state', entity_id: entityId, to: 'home' }
+          : { platform: 'state', entity_id: entityId, from: 'home' };
+      }
+      return { platform: 'zone', entity_id: entityId, zone: trigger.zone, event: enters ? 'enter' : 'leave' };
+    }
+  }
+}
+
+// Older drafts carried weekdays at the top level. Their triggerTime only ever mirrored the
+// time trigger, so it is dropped rather than turned into a one-minute window.
+function legacyConditions(draft: AutomationDraft): AutomationCondition[] {
+  const days = draft.daysOfWeek ?? [];
+  if (days.length === 0 || days.length >= 7) return [];
+  return [{ kind: 'weekday', daysOfWeek: days }];
+}
+
+/** Conditions the draft compiles, legacy weekdays first; delta triggers add their own template checks. */
+export function draftConditions(draft: AutomationDraft): AutomationCondition[] {
+  return legacyConditions(draft).concat(draft.conditions ?? []);
+}
+
+export function compileCondition(condition: AutomationCondition): HaCondition | null {
+  switch (condition.kind) {
+    case 'state': {
+      if (!condition.entityId || !condition.state) return null;
+      const cond: HaCondition = {
+        condition: 'state',
+        entity_id: condition.entityId,
+        state: condition.state,
+      };
+      return condition.negate ? { condition: 'not', conditions: [cond] } : cond;
+    }
+    case 'device_on':
+      return condition.entityId ? deviceOnCondition(condition.entityId) : null;
+    case 'numeric': {
+      const hasAbove = typeof condition.above === 'number' && Number.isFinite(condition.above);
+      const hasBelow = typeof condition.below === 'number' && Number.isFinite(condition.below);
+      if (!condition.entityId || (!hasAbove && !hasBelow)) return null;
+      const cond: HaCondition = { condition: 'numeric_state', entity_id: condition.entityId };
+      if (condition.attribute) cond.attribute = condition.attribute;
+      if (hasAbove) cond.above = condition.above as number;
+      if (hasBelow) cond.below = condition.below as number;
+      return cond;
+    }
+    case 'time_window': {
+      const after = normalizeTime(condition.after);
+      const before = normalizeTime(condition.before);
+      if (!after && !before) return null;
+      const cond: HaCondition = { condition: 'time' };
+      if (after) cond.after = after;
+      if (before) cond.before = before;
+      return cond;
+    }
+    case 'sun': {
+      const { after, before } = condition;
+      if (!after && !before) return null;
+      // HA evaluates both bounds within the same day, so a window that wraps past midnight
+      // ("after sunset, before sunrise") has to be split into an OR.
+      if (after === 'sunset' && before === 'sunrise') {
+        return {
+          condition: 'or',
+          conditions: [
+            { condition: 'sun', after: 'sunset' },
+            { condition: 'sun', before: 'sunrise' },
+          ],
+        };
+      }
+      const cond: HaCondition = { condition: 'sun' };
+      if (after) cond.after = after;
+      if (before) cond.before = before;
+      return cond;
+    }
+    case 'weekday':
+      return condition.daysOfWeek.length > 0 ? { condition: 'time', weekday: condition.daysOfWeek } : null;
+    case 'presence':
+      return condition.occupied
+        ? { condition: 'numeric_state', entity_id: condition.zone, above: 0 }
+        : { condition: 'numeric_state', entity_id: condition.zone, below: 1 };
+    case 'group': {
+      const conditions = condition.conditions
+        .map(compileCondition)
+        .filter((c): c is HaCondition => !!c);
+      if (conditions.length === 0) return null;
+      if (conditions.length === 1) return conditions[0];
+      return { condition: condition.operator, conditions };
+    }
+    default:
+      return null;
+  }
+}
+
+// "On" means something different per domain: an open blind, a heating boiler, a TV that is playing.
+function deviceOnCondition(entityId: string): HaCondition {
+  const domain = entityId.split('.')[0] || '';
+  switch (domain) {
+    case 'cover':
+      return { condition: 'state', entity_id: entityId, state: ['open', 'opening'] };
+    case 'media_player':
+    case 'climate':
+      return {
+        condition: 'not',
+        conditions: [
+          { condition: 'state', entity_id: entityId, state: ['off', 'standby', 'unavailable', 'unknown'] },
+        ],
+      };
+    default:
+      return { condition: 'state', entity_id: entityId, state: 'on' };
+  }
+}
+
+/** HH:mm with leading zeros, or null when the value is not a clock time; "7:30:00" becomes "07:30". */
+export function normalizeTime(value: string | null | undefined): string | null {
+  const [h, m] = (value ?? '').trim().split(':').map((x) => Number(x));
+  if (!Number.isInteger(h) || !Number.isInteger(m) || h < 0 || h > 23 || m < 0 || m > 59) return null;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/** Smallest change a delta trigger reacts to: a whole degree for temperatures, otherwise any change. */
+export function numericDeltaThreshold(attribute: string | null | undefined): number {
+  return (attribute || 'state').toLowerCase().includes('temp') ? 1 : 0.01;
+}
+
 function deltaTemplateCondition(trigger: AutomationTrigger): HaCondition | null {
   if (trigger.kind !== 'numeric_delta') return null;
   const attribute = trigger.attribute || 'state';
-  const threshold = attribute.toLowerCase().includes('temp') ? 1 : 0.01;
+  const threshold = numericDeltaThreshold(attribute);
   const path = attribute === 'state' ? 'state' : `attributes["${attribute}"]`;
   const toVal = `(trigger.to_state.${path} | float(0))`;
   const fromVal = `(trigger.from_state.${path} | float(0))`;
@@ -138,10 +387,54 @@ function deltaTemplateCondition(trigger: AutomationTrigger): HaCondition | null
   return { condition: 'template', value_template: template };
 }
 
-function compileAction(action: AutomationAction): HaAction | null {
-  if (action.kind !== 'device_command') return null;
+export function compileAction(action: AutomationAction, options: CompileOptions = {}): HaAction | null {
+  switch (action.kind) {
+    case 'device_command':
+      return compileDeviceAction(action, options);
+    case 'delay':
+      return action.seconds > 0 ? { delay: formatDuration(action.seconds) } : null;
+    case 'wait_for_state': {
+      if (!action.entityId || !action.state) return null;
+      const wait: HaAction = {
+        wait_for_trigger: [{ platform: 'state', entity_id: action.entityId, to: action.state }],
+        continue_on_timeout: action.continueOnTimeout !== false,
+      };
+      if (typeof action.timeoutSeconds === 'number' && action.timeoutSeconds > 0) {
+        wait.timeout = formatDuration(action.timeoutSeconds);
+      }
+      return wait;
+    }
+    case 'parallel': {
+      const parallel = action.actions.map((a) => compileAction(a, options)).filter((a): a is HaAction => !!a);
+      if (parallel.length === 0) return null;
+      return parallel.length === 1 ? parallel[0] : { parallel };
+    }
+    case 'activate_scene':
+      if (!action.sceneEntityId) {
+        const name = action.name ?? action.sceneId;
+        throw new Error(`Scene "${name}" is not on the hub yet. Choose it again in this step.`);
+      }
+      return { service: 'scene.turn_on', target: { entity_id: action.sceneEntityId } };
+    default:
+      return null;
+  }
+}
+
+function compileDeviceAction(action: DeviceAction, options: CompileOptions): HaAction | null {
   const entityId = action.entityId;
   const domain = entityId.split('.')[0] || '';
+  if (action.command.startsWith('blind/')) {
+    return compileBlindAction(action, options.blindTravelSeconds?.[entityId]);
+  }
+  const relative = relativeStepFor(action, domain);
+  if (relative) {
+    // The service field is named after the attribute it sets: temperature, or volume_level.
+    return {
+      service: relative.attribute === 'temperature' ? 'climate.set_temperature' : 'media_player.volume_set',
+      target: { entity_id: entityId },
+      data: { [relative.attribute]: relativeStepTemplate(relative) },
+    };
+  }
   const mapping = mapCommandToService(action.command, action.value, domain);
   if (!mapping) return null;
   return {
@@ -151,6 +444,66 @@ function compileAction(action: AutomationAction): HaAction | null {
   };
 }
 
+// Steps default to what one press of the dashboard's +/- button does.
+function relativeStepFor(action: DeviceAction, domain: string): RelativeStep | null {
+  const down = action.command === 'boiler/temp_down' || action.command === 'media/volume_down';
+  const amount = Math.abs(action.value ?? 0);
+  if ((action.command === 'boiler/temp_up' || action.command === 'boiler/temp_down') && domain === 'climate') {
+    const range = getCommandRange('Boiler', 'boiler/set_temperature') ?? { min: 10, max: 35 };
+    const delta = amount || 1;
+    return {
+      entityId: action.entityId,
+      attribute: 'temperature',
+      delta: down ? -delta : delta,
+      fallback: 20,
+      ...range,
+    };
+  }
+  if ((action.command === 'media/volume_up' || action.command === 'media/volume_down') && domain === 'media_player') {
+    const range = getCommandRange('Speaker', 'media/volume_set') ?? { min: 0, max: 100 };
+    const delta = (amount || 10) / 100;
+    return {
+      entityId: action.entityId,
+      attribute: 'volume_level',
+      delta: down ? -delta : delta,
+      fallback: 0,
+      min: range.min / 100,
+      max: range.max / 100,
+    };
+  }
+  return null;
+}
+
+// Same call and travel-time rules as the dashboard's handleDeviceCommand.
+function compileBlindAction(action: DeviceAction, travelOverride: number | null | undefined): HaAction | null {
+  const target =
+    action.command === 'blind/open'
+      ? 100
+      : action.command === 'blind/close'
+      ? 0
+      : action.command === 'blind/set_position'
+      ? clamp(action.value ?? 0, 0, 100)
+      : null;
+  if (target === null) return null;
+  return {
+    service: BLIND_CONTROLLER_SERVICE,
+    data: {
+      target_cover: action.entityId,
+      target_position: target,
+      travel_seconds: blindTravelSeconds(travelOverride),
+    },
+  };
+}
+
+/** The travel time sent to the blind controller: the override when set, else the default, kept in 5–90s. */
+export function blindTravelSeconds(travelOverride: number | null | undefined): number {
+  const travel =
+    typeof travelOverride === 'number' && Number.isFinite(travelOverride) && travelOverride > 0
+      ? travelOverride
+      : DEFAULT_BLIND_TRAVEL_SECONDS;
+  return clamp(travel, 5, 90);
+}
+
 function mapCommandToService(
   command: DeviceCommandId,
   value: number | undefined,
@@ -170,12 +523,6 @@ function mapCommandToService(
       // Fallback: best effort turn_on without brightness for non-light domains
       return { service: 'homeassistant.turn_on' };
     }
-    case 'blind/open':
-      return { service: 'cover.set_cover_position', data: { position: 100 } };
-    case 'blind/close':
-      return { service: 'cover.set_cover_position', data: { position: 0 } };
-    case 'blind/set_position':
-      return { service: 'cover.set_cover_position', data: { position: clamp(value ?? 0, 0, 100) } };
     case 'tv/turn_on':
     case 'speaker/turn_on':
       return { service: 'media_player.turn_on' };
@@ -186,9 +533,6 @@ function mapCommandToService(
       return { service: 'media_player.volume_set', data: { volume_level: clamp((value ?? 0) / 100, 0, 1) } };
     case 'boiler/set_temperature':
       return { service: lowerDomain === 'climate' ? 'climate.set_temperature' : 'homeassistant.turn_on', data: { temperature: value } };
-    case 'boiler/temp_up':
-    case 'boiler/temp_down':
-      return null; // dashboard-only convenience; avoid compiling to automations
     case 'media/play_pause':
       return { service: 'media_player.media_play_pause' };
     default:
@@ -196,6 +540,19 @@ function mapCommandToService(
   }
 }
 
+function formatDuration(totalSeconds: number): string {
+  const total = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = total % 60;
+  return [h, m, sec].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '';
+  return `${sign}${formatDuration(Math.abs(minutes) * 60)}`;
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value));
 }
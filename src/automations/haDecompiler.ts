@@ -0,0 +1,529 @@
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationDraft,
+  AutomationMode,
+  AutomationTrigger,
+  DeviceAction,
+  PresenceCondition,
+  PresenceTrigger,
+  SunEvent,
+} from './automationModel';
+import { BLIND_CONTROLLER_SERVICE, parseRelativeStepTemplate } from './haCompiler';
+import { HOME_ZONE, isPresenceEntity, isZoneEntity } from '../presence/presenceModel';
+
+export type DecompileResult = { ok: true; draft: AutomationDraft } | { ok: false; reason: string };
+
+type DeltaCheck = { attribute: string; direction: 'increase' | 'decrease' };
+
+const MODES: AutomationMode[] = ['single', 'restart', 'queued', 'parallel'];
+const SUN_EVENTS: SunEvent[] = ['sunrise', 'sunset'];
+const OFF_STATES = ['off', 'standby', 'unavailable', 'unknown'];
+const STEP_NAMES: Record<string, string> = {
+  choose: 'a choose block',
+  if: 'an if/then block',
+  repeat: 'a repeat loop',
+  sequence: 'a nested sequence',
+  wait_template: 'a template wait',
+  event: 'an event',
+  variables: 'variables',
+  stop: 'a stop step',
+  device_id: 'a device action',
+};
+
+// Keys the editor can represent on each node; anything else would be dropped on save. Step aliases
+// and trigger ids are not kept by the draft, so automations that use them stay read-only.
+const TRIGGER_KEYS = ['platform', 'trigger', 'entity_id', 'attribute', 'to', 'from', 'for', 'above', 'below', 'at',
+  'weekday', 'event', 'offset', 'zone'];
+const CONDITION_KEYS = ['condition', 'conditions', 'entity_id', 'attribute', 'state', 'above', 'below', 'after',
+  'before', 'weekday', 'value_template'];
+const ACTION_KEYS = ['service', 'action', 'target', 'data', 'entity_id', 'delay', 'wait_for_trigger', 'timeout',
+  'continue_on_timeout', 'parallel'];
+const WAIT_TRIGGER_KEYS = ['platform', 'trigger', 'entity_id', 'to'];
+// Domains whose generic on/off calls the "Light" controls compile back to homeassistant.turn_on/off.
+const SWITCHABLE_DOMAINS = ['light', 'switch', 'fan', 'input_boolean'];
+const CONFIG_KEYS = ['id', 'alias', 'description', 'mode', 'trigger', 'triggers', 'condition', 'conditions', 'action',
+  'actions'];
+
+function unsupported(reason: string): never {
+  throw new Error(reason);
+}
+
+/**
+ * Map a Home Assistant automation config back into a draft the kiosk editor can open. Anything the
+ * draft cannot hold without loss makes the whole automation read-only, with the reason why.
+ */
+export function decompileHaAutomationConfig(config: any): DecompileResult {
+  try {
+    return { ok: true, draft: decompileConfig(config) };
+  } catch (err: any) {
+    return { ok: false, reason: err?.message ?? 'It could not be read.' };
+  }
+}
+
+function decompileConfig(config: any): AutomationDraft {
+  if (!config || typeof config !== 'object') unsupported('Its configuration could not be loaded.');
+  if (config.use_blueprint) unsupported('It was created from a blueprint.');
+  checkKeys(config, CONFIG_KEYS, 'It');
+  if (config.mode !== undefined && !MODES.includes(config.mode)) unsupported(`It uses the "${config.mode}" run mode.`);
+
+  const rawTriggers = asList(config.triggers ?? config.trigger);
+  if (rawTriggers.length === 0) unsupported('It has no trigger.');
+  if (rawTriggers.length > 1) unsupported(`It has ${rawTriggers.length} triggers; the editor handles one.`);
+
+  // Delta triggers compile to an attribute watch plus a template comparing the old and new value.
+  const deltas: DeltaCheck[] = [];
+  const conditions: AutomationCondition[] = [];
+  asList(config.conditions ?? config.condition).forEach((raw) => {
+    const delta = parseDeltaTemplate(raw);
+    if (delta) deltas.push(delta);
+    else conditions.push(...decompileCondition(raw));
+  });
+
+  const triggers = rawTriggers.map((raw) => decompileTrigger(raw, deltas));
+  if (deltas.length > 0) unsupported('It has a template condition.');
+
+  const actions = asList(config.actions ?? config.action).flatMap(decompileAction);
+  if (actions.length === 0) unsupported('It has no actions.');
+
+  return {
+    id: typeof config.id === 'string' ? config.id : undefined,
+    alias: typeof config.alias === 'string' && config.alias.trim() ? config.alias : 'Automation',
+    description: typeof config.description === 'string' ? config.description : '',
+    mode: config.mode ?? 'single',
+    triggers,
+    actions,
+    conditions,
+  };
+}
+
+function asList(value: unknown): any[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null ? [] : [value];
+}
+
+function checkKeys(node: Record<string, unknown>, allowed: string[], subject: string) {
+  if (node.enabled === false) unsupported(`${subject} has a disabled step.`);
+  // The Home Assistant editor adds an empty metadata object to every step; dropping it loses nothing.
+  const extra = Object.keys(node).find(
+    (key) => key !== 'enabled' && !allowed.includes(key) && !(key === 'metadata' && isEmptyObject(node.metadata))
+  );
+  if (extra) unsupported(`${subject} uses "${extra}", which the editor can't change.`);
+}
+
+function isEmptyObject(value: unknown) {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0;
+}
+
+function rejectTemplates(value: unknown, subject: string) {
+  if (JSON.stringify(value ?? null).includes('{{')) unsupported(`${subject} uses a template.`);
+}
+
+function singleEntity(value: unknown, subject: string): string {
+  const list = asList(value);
+  if (list.length === 0 || typeof list[0] !== 'string') unsupported(`${subject} has no device.`);
+  if (list.length > 1) unsupported(`${subject} covers ${list.length} devices at once.`);
+  return list[0];
+}
+
+function optionalNumber(value: unknown, subject: string): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value)) unsupported(`${subject} compares against another entity.`);
+  return value;
+}
+
+// HA durations arrive as "HH:MM:SS", a number of seconds or a { hours, minutes, seconds } map.
+function durationSeconds(value: unknown, subject: string): number {
+  let total = NaN;
+  if (typeof value === 'number') total = value;
+  else if (typeof value === 'string') {
+    const parts = value.trim().split(':').map(Number);
+    total = parts.length <= 3 ? parts.reduce((acc, p) => acc * 60 + p, 0) : NaN;
+  } else if (value && typeof value === 'object') {
+    const { days = 0, hours = 0, minutes = 0, seconds = 0, milliseconds = 0 } = value as Record<string, number>;
+    total = days * 86400 + hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
+  }
+  if (!Number.isFinite(total) || total < 0) unsupported(`${subject} has a duration the editor can't read.`);
+  return total;
+}
+
+function wholeMinutes(value: unknown, subject: string): number | null {
+  if (value === undefined || value === null) return null;
+  const seconds = durationSeconds(value, subject);
+  if (seconds % 60 !== 0) unsupported(`${subject} waits ${seconds} seconds; the editor works in whole minutes.`);
+  return seconds > 0 ? seconds / 60 : null;
+}
+
+function offsetMinutes(value: unknown, subject: string): number {
+  if (value === undefined || value === null) return 0;
+  const negative = typeof value === 'string' ? value.trim().startsWith('-') : typeof value === 'number' && value < 0;
+  const raw = !negative ? value : typeof value === 'number' ? -value : (value as string).trim().slice(1);
+  const minutes = wholeMinutes(raw, subject) ?? 0;
+  return negative ? -minutes : minutes;
+}
+
+function clockTime(value: unknown, subject: string): string {
+  const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim()) : null;
+  if (!match) unsupported(`${subject} uses a time from another entity.`);
+  if (match[3] && match[3] !== '00') unsupported(`${subject} is set to the second.`);
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+function weekdays(value: unknown): string[] | undefined {
+  const days = asList(value).filter((d): d is string => typeof d === 'string');
+  return days.length > 0 ? days : undefined;
+}
+
+function parseDeltaTemplate(raw: any): DeltaCheck | null {
+  if (!raw || raw.condition !== 'template' || typeof raw.value_template !== 'string') return null;
+  const value = '\\(trigger\\.(to|from)_state\\.(state|attributes\\["([^"]+)"\\]) \\| float\\(0\\)\\)';
+  const match = new RegExp(`^\\{\\{ \\(${value} - ${value}\\) >= [\\d.]+ \\}\\}$`).exec(raw.value_template.trim());
+  if (!match || match[1] === match[4] || match[2] !== match[5]) return null;
+  return { attribute: match[3] ?? 'state', direction: match[1] === 'to' ? 'increase' : 'decrease' };
+}
+
+function decompileTrigger(raw: any, deltas: DeltaCheck[]): AutomationTrigger {
+  if (!raw || typeof raw !== 'object') unsupported('Its trigger could not be read.');
+  const platform = raw.platform ?? raw.trigger;
+  if (!['state', 'numeric_state', 'time', 'sun', 'zone'].includes(platform)) {
+    unsupported(`It is triggered by "${platform ?? 'unknown'}", which the editor doesn't offer.`);
+  }
+  checkKeys(raw, TRIGGER_KEYS, 'Its trigger');
+  rejectTemplates(raw, 'Its trigger');
+  const presence = presenceTrigger(raw, platform);
+  if (presence) return presence;
+  switch (platform) {
+    case 'state': {
+      const entityId = singleEntity(raw.entity_id, 'Its trigger');
+      if (raw.attribute) {
+        const idx = deltas.findIndex((d) => d.attribute === raw.attribute);
+        if (idx < 0 || raw.to !== undefined || raw.from !== undefined) {
+          unsupported(`Its trigger watches the "${raw.attribute}" attribute.`);
+        }
+        const [delta] = deltas.splice(idx, 1);
+        return { kind: 'numeric_delta', entityId, attribute: delta.attribute, direction: delta.direction };
+      }
+      if (Array.isArray(raw.to) || Array.isArray(raw.from)) unsupported('Its trigger matches several states.');
+      const to = typeof raw.to === 'string' ? raw.to : null;
+      const from = typeof raw.from === 'string' ? raw.from : null;
+      if (!to && !from) unsupported('Its trigger fires on any change of the device.');
+      return { kind: 'state', entityId, to, from, forMinutes: wholeMinutes(raw.for, 'Its trigger') };
+    }
+    case 'numeric_state': {
+      const entityId = singleEntity(raw.entity_id, 'Its trigger');
+      const above = optionalNumber(raw.above, 'Its trigger');
+      const below = optionalNumber(raw.below, 'Its trigger');
+      // Position triggers compile to a narrow band around a single value.
+      if (raw.attribute && above !== null && below !== null && raw.for === undefined && below - above < 0.1) {
+        return { kind: 'position_equals', entityId, attribute: raw.attribute, value: Math.round((above + below) / 2) };
+      }
+      return {
+        kind: 'numeric_threshold',
+        entityId,
+        attribute: raw.attribute ?? null,
+        above,
+        below,
+        forMinutes: wholeMinutes(raw.for, 'Its trigger'),
+      };
+    }
+    case 'time': {
+      const times = asList(raw.at);
+      if (times.length !== 1) unsupported(`Its trigger fires at ${times.length} times.`);
+      return { kind: 'time', at: clockTime(times[0], 'Its trigger'), daysOfWeek: weekdays(raw.weekday) };
+    }
+    case 'sun': {
+      if (!SUN_EVENTS.includes(raw.event)) unsupported('Its sun trigger has no sunrise or sunset.');
+      const offset = offsetMinutes(raw.offset, 'Its sun trigger');
+      return offset ? { kind: 'sun', event: raw.event, offsetMinutes: offset } : { kind: 'sun', event: raw.event };
+    }
+    default:
+      return unsupported(`It is triggered by "${platform ?? 'unknown'}", which the editor doesn't offer.`);
+  }
+}
+
+// The shapes compilePresenceTrigger emits; anything richer stays a plain state or threshold trigger.
+function presenceTrigger(raw: any, platform: string): PresenceTrigger | null {
+  if (platform === 'zone') {
+    if (raw.event !== 'enter' && raw.event !== 'leave') unsupported('Its zone trigger has no enter or leave event.');
+    if (typeof raw.zone !== 'string' || !isZoneEntity(raw.zone)) unsupported('Its zone trigger has no zone.');
+    const entityId = singleEntity(raw.entity_id, 'Its trigger');
+    return { kind: 'presence', event: raw.event === 'enter' ? 'enters' : 'leaves', zone: raw.zone, entityId };
+  }
+  if (typeof raw.entity_id !== 'string' || raw.attribute !== undefined || raw.for !== undefined) return null;
+  if (platform === 'numeric_state' && isZoneEntity(raw.entity_id)) {
+    const occupied = zoneOccupancy(raw);
+    if (occupied === null) return null;
+    return { kind: 'presence', event: occupied ? 'first_arrives' : 'last_leaves', zone: raw.entity_id };
+  }
+  if (platform === 'state' && isPresenceEntity(raw.entity_id)) {
+    if (raw.to === 'home' && raw.from === undefined) {
+      return { kind: 'presence', event: 'enters', zone: HOME_ZONE, entityId: raw.entity_id };
+    }
+    if (raw.from === 'home' && raw.to === undefined) {
+      return { kind: 'presence', event: 'leaves', zone: HOME_ZONE, entityId: raw.entity_id };
+    }
+  }
+  return null;
+}
+
+/** True for "above 0", false for "below 1"; the only zone counts the editor writes. */
+function zoneOccupancy(raw: any): boolean | null {
+  if (raw.above === 0 && raw.below === undefined) return true;
+  if (raw.below === 1 && raw.above === undefined) return false;
+  return null;
+}
+
+function presenceCondition(raw: any): PresenceCondition | null {
+  if (typeof raw.entity_id !== 'string' || !isZoneEntity(raw.entity_id) || raw.attribute !== undefined) return null;
+  const occupied = zoneOccupancy(raw);
+  return occupied === null ? null : { kind: 'presence', zone: raw.entity_id, occupied };
+}
+
+function decompileCondition(raw: any): AutomationCondition[] {
+  if (typeof raw === 'string') unsupported('It has a template condition.');
+  if (!raw || typeof raw !== 'object') unsupported('A condition could not be read.');
+  checkKeys(raw, CONDITION_KEYS, 'A condition');
+  rejectTemplates(raw, 'A condition');
+  switch (raw.condition) {
+    case 'state': {
+      if (raw.attribute) unsupported(`A condition checks the "${raw.attribute}" attribute.`);
+      const entityId = singleEntity(raw.entity_id, 'A condition');
+      const states = asList(raw.state);
+      const domain = entityId.split('.')[0];
+      if (domain === 'cover' && sameSet(states, ['open', 'opening'])) return [{ kind: 'device_on', entityId }];
+      if (states.length !== 1 || typeof states[0] !== 'string') unsupported('A condition accepts several states.');
+      return [{ kind: 'state', entityId, state: states[0] }];
+    }
+    case 'not': {
+      const inner = asList(raw.conditions);
+      const only = inner.length === 1 ? inner[0] : null;
+      if (!only || only.condition !== 'state') unsupported('A "not" condition wraps more than one device check.');
+      const entityId = singleEntity(only.entity_id, 'A condition');
+      const states = asList(only.state);
+      const domain = entityId.split('.')[0];
+      if ((domain === 'media_player' || domain === 'climate') && sameSet(states, OFF_STATES)) {
+        return [{ kind: 'device_on', entityId }];
+      }
+      const [positive] = decompileCondition(only);
+      if (positive.kind !== 'state') unsupported('A "not" condition wraps a check the editor can\'t negate.');
+      return [{ ...positive, negate: true }];
+    }
+    case 'numeric_state': {
+      const presence = presenceCondition(raw);
+      if (presence) return [presence];
+      return [
+        {
+          kind: 'numeric',
+          entityId: singleEntity(raw.entity_id, 'A condition'),
+          attribute: raw.attribute ?? null,
+          above: optionalNumber(raw.above, 'A condition'),
+          below: optionalNumber(raw.below, 'A condition'),
+        },
+      ];
+    }
+    case 'time': {
+      const result: AutomationCondition[] = [];
+      const days = weekdays(raw.weekday);
+      if (days) result.push({ kind: 'weekday', daysOfWeek: days });
+      if (raw.after !== undefined || raw.before !== undefined) {
+        result.push({
+          kind: 'time_window',
+          after: raw.after !== undefined ? clockTime(raw.after, 'A time condition') : null,
+          before: raw.before !== undefined ? clockTime(raw.before, 'A time condition') : null,
+        });
+      }
+      return result;
+    }
+    case 'sun': {
+      if (raw.after_offset || raw.before_offset) unsupported('A sun condition has an offset.');
+      return [{ kind: 'sun', after: raw.after ?? null, before: raw.before ?? null }];
+    }
+    case 'and':
+    case 'or': {
+      const inner = asList(raw.conditions);
+      // The compiler splits "after sunset, before sunrise" into an OR of two sun checks.
+      if (
+        raw.condition === 'or' &&
+        inner.length === 2 &&
+        inner.every((c) => c?.condition === 'sun' && Object.keys(c).length === 2) &&
+        inner[0].after === 'sunset' &&
+        inner[1].before === 'sunrise'
+      ) {
+        return [{ kind: 'sun', after: 'sunset', before: 'sunrise' }];
+      }
+      // One HA condition can become several (a time check with days and hours); inside an OR they
+      // must stay together, or "Mon after 18:00" would turn into "Mon, or after 18:00".
+      const conditions = inner.flatMap((c): AutomationCondition[] => {
+        const parts = decompileCondition(c);
+        if (raw.condition !== 'or' || parts.length === 1) return parts;
+        return [{ kind: 'group', operator: 'and', conditions: parts }];
+      });
+      return [{ kind: 'group', operator: raw.condition, conditions }];
+    }
+    case 'template':
+      return unsupported('It has a template condition.');
+    default:
+      return unsupported(`It has a "${raw.condition ?? 'unknown'}" condition, which the editor doesn't offer.`);
+  }
+}
+
+function sameSet(values: unknown[], expected: string[]) {
+  return values.length === expected.length && expected.every((v) => values.includes(v));
+}
+
+function decompileAction(raw: any): AutomationAction[] {
+  if (!raw || typeof raw !== 'object') unsupported('A step could not be read.');
+  const special = Object.keys(STEP_NAMES).find((key) => key in raw);
+  if (special) unsupported(`A step uses ${STEP_NAMES[special]}, which the editor doesn't offer.`);
+  checkKeys(raw, ACTION_KEYS, 'A step');
+  // Relative temperature and volume steps are the one template the editor writes itself.
+  const relativeKey = ['temperature', 'volume_level'].find((key) => parseRelativeStepTemplate(raw.data?.[key]));
+  rejectTemplates(relativeKey ? { ...raw, data: { ...raw.data, [relativeKey]: null } } : raw, 'A step');
+  if (raw.delay !== undefined) {
+    return [{ kind: 'delay', seconds: Math.round(durationSeconds(raw.delay, 'A delay')) }];
+  }
+  if (raw.wait_for_trigger !== undefined) {
+    const triggers = asList(raw.wait_for_trigger);
+    const trigger = triggers[0];
+    const platform = trigger?.platform ?? trigger?.trigger;
+    if (triggers.length !== 1 || platform !== 'state' || typeof trigger.to !== 'string') {
+      unsupported('A step waits for something other than a device state.');
+    }
+    checkKeys(trigger, WAIT_TRIGGER_KEYS, 'A wait');
+    const timeout = raw.timeout !== undefined ? Math.round(durationSeconds(raw.timeout, 'A wait')) : null;
+    return [
+      {
+        kind: 'wait_for_state',
+        entityId: singleEntity(trigger.entity_id, 'A wait'),
+        state: trigger.to,
+        timeoutSeconds: timeout,
+        continueOnTimeout: raw.continue_on_timeout !== false,
+      },
+    ];
+  }
+  if (raw.parallel !== undefined) {
+    const branches = asList(raw.parallel).flatMap(decompileAction);
+    if (branches.some((a) => a.kind !== 'device_command' && a.kind !== 'activate_scene')) {
+      unsupported('A "together" step contains delays or waits.');
+    }
+    return [{ kind: 'parallel', actions: branches }];
+  }
+  const service = raw.action ?? raw.service;
+  if (typeof service !== 'string') unsupported('A step is not a service call.');
+  if (service === BLIND_CONTROLLER_SERVICE && !raw.target) return [decompileBlindController(raw.data ?? {})];
+  const entityIds = asList(raw.target?.entity_id ?? raw.data?.entity_id ?? raw.entity_id);
+  const wider = raw.target ? Object.keys(raw.target).find((key) => key !== 'entity_id') : undefined;
+  if (wider) unsupported(`A step targets a whole ${wider.replace('_id', '')}.`);
+  if (entityIds.length === 0 || entityIds.some((id) => typeof id !== 'string')) {
+    unsupported(`A step calls ${service} without a device.`);
+  }
+  const data: Record<string, unknown> = { ...(raw.data ?? {}) };
+  delete data.entity_id;
+  // A call aimed at several devices becomes one "together" step with a command per device.
+  const actions = (entityIds as string[]).map((entityId) => decompileServiceCall(service, entityId, data));
+  return actions.length === 1 ? actions : [{ kind: 'parallel', actions }];
+}
+
+// Travel time is dropped: it comes from the blind's override each time the draft is compiled.
+function decompileBlindController(data: Record<string, unknown>): AutomationAction {
+  const extra = Object.keys(data).find((key) => !['target_cover', 'target_position', 'travel_seconds'].includes(key));
+  if (extra) unsupported(`A blind step sets "${extra}", which the editor can't change.`);
+  const entityId = singleEntity(data.target_cover, 'A blind step');
+  const position = data.target_position;
+  if (typeof position !== 'number' || !Number.isFinite(position)) unsupported('A blind step has no target position.');
+  if (position >= 100) return { kind: 'device_command', entityId, command: 'blind/open' };
+  if (position <= 0) return { kind: 'device_command', entityId, command: 'blind/close' };
+  return { kind: 'device_command', entityId, command: 'blind/set_position', value: position };
+}
+
+function decompileServiceCall(service: string, entityId: string, data: Record<string, unknown>): AutomationAction {
+  const keys = Object.keys(data);
+  const only = (...allowed: string[]) => {
+    const extra = keys.find((key) => !allowed.includes(key));
+    if (extra) unsupported(`A step sets "${extra}" on ${service}, which the editor can't change.`);
+  };
+  const command = (cmd: DeviceAction['command'], value?: number): DeviceAction =>
+    value === undefined
+      ? { kind: 'device_command', entityId, command: cmd }
+      : { kind: 'device_command', entityId, command: cmd, value };
+  const number = (key: string) => {
+    const value = data[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) unsupported(`A step sets ${key} to a non-number.`);
+    return value;
+  };
+
+  const relativeStep = (key: string) => {
+    const step = parseRelativeStepTemplate(data[key]);
+    if (!step) return null;
+    if (step.entityId !== entityId || step.attribute !== key) unsupported(`A step sets ${key} from another device.`);
+    return { delta: step.delta, amount: Math.abs(step.delta) };
+  };
+
+  switch (service) {
+    case 'light.turn_on':
+      only('brightness_pct', 'brightness');
+      if (data.brightness_pct !== undefined) return command('light/set_brightness', number('brightness_pct'));
+      if (data.brightness !== undefined) {
+        return command('light/set_brightness', Math.round((number('brightness') / 255) * 100));
+      }
+      return command('light/turn_on');
+    case 'light.turn_off':
+    case 'switch.turn_off':
+      only();
+      return command('light/turn_off');
+    case 'switch.turn_on':
+      only();
+      return command('light/turn_on');
+    case 'homeassistant.turn_on':
+    case 'homeassistant.turn_off': {
+      only();
+      const on = service === 'homeassistant.turn_on';
+      const domain = entityId.split('.')[0];
+      if (domain === 'media_player') return command(on ? 'tv/turn_on' : 'tv/turn_off');
+      if (!SWITCHABLE_DOMAINS.includes(domain)) {
+        unsupported(`A step turns ${entityId} ${on ? 'on' : 'off'}, which the editor doesn't offer.`);
+      }
+      return command(on ? 'light/turn_on' : 'light/turn_off');
+    }
+    case 'cover.open_cover':
+      only();
+      return command('blind/open');
+    case 'cover.close_cover':
+      only();
+      return command('blind/close');
+    case 'cover.set_cover_position': {
+      only('position');
+      const position = number('position');
+      if (position >= 100) return command('blind/open');
+      if (position <= 0) return command('blind/close');
+      return command('blind/set_position', position);
+    }
+    case 'media_player.turn_on':
+      only();
+      return command('tv/turn_on');
+    case 'media_player.turn_off':
+      only();
+      return command('tv/turn_off');
+    case 'media_player.volume_set': {
+      only('volume_level');
+      const step = relativeStep('volume_level');
+      if (step) return command(step.delta < 0 ? 'media/volume_down' : 'media/volume_up', Math.round(step.amount * 100));
+      return command('media/volume_set', Math.round(number('volume_level') * 100));
+    }
+    case 'media_player.media_play_pause':
+      only();
+      return command('media/play_pause');
+    case 'climate.set_temperature': {
+      only('temperature');
+      const step = relativeStep('temperature');
+      if (step) return command(step.delta < 0 ? 'boiler/temp_down' : 'boiler/temp_up', step.amount);
+      return command('boiler/set_temperature', number('temperature'));
+    }
+    case 'scene.turn_on':
+      only();
+      if (!entityId.startsWith('scene.')) unsupported('A step turns on something other than a scene.');
+      return { kind: 'activate_scene', sceneId: entityId.slice('scene.'.length), sceneEntityId: entityId };
+    default:
+      return unsupported(`A step calls ${service}, which the editor doesn't offer.`);
+  }
+}
@@ -0,0 +1,287 @@
+import type { UIDevice } from '../models/device';
+import type { AutomationCondition, AutomationDraft, NumericDeltaTrigger, SunEvent } from './automationModel';
+import {
+  compileAction,
+  compileCondition,
+  compileTrigger,
+  draftConditions,
+  normalizeTime,
+  numericDeltaThreshold,
+  parseRelativeStepTemplate,
+  resolveRelativeStep,
+  type HaAction,
+  type HaCondition,
+  type HaTrigger,
+} from './haCompiler';
+
+/** The hypothetical thing that happens: a device changes, the clock reaches a time, or the sun rises/sets. */
+export type SimulatedEvent =
+  | {
+      kind: 'state';
+      entityId: string;
+      to?: string | null;
+      /** New numeric reading; goes into the attribute when one is given, otherwise into the state. */
+      value?: number | null;
+      attribute?: string | null;
+    }
+  | { kind: 'time' }
+  | { kind: 'sun'; event: SunEvent };
+
+export type SimulationInput = {
+  event: SimulatedEvent;
+  weekday: string; // mon..sun
+  time: string; // HH:mm
+  sunrise?: string; // HH:mm, defaults to 06:30
+  sunset?: string; // HH:mm, defaults to 19:00
+};
+
+export type SimulatedCheck =
+  | { kind: 'condition'; condition: AutomationCondition; passed: boolean }
+  | { kind: 'delta'; trigger: NumericDeltaTrigger; threshold: number; change: number; passed: boolean };
+
+export type SimulatedCall = {
+  service: string;
+  entityId: string | null;
+  data?: Record<string, unknown>;
+  /** Seconds after the trigger, counting the delays before this step. */
+  afterSeconds: number;
+};
+
+export type SimulationResult = {
+  fired: boolean;
+  triggerIndex: number | null;
+  checks: SimulatedCheck[];
+  conditionsPassed: boolean;
+  calls: SimulatedCall[];
+  notes: string[];
+};
+
+type EntityState = { state: string; attributes: Record<string, unknown> };
+
+export const DEFAULT_SUNRISE = '06:30';
+export const DEFAULT_SUNSET = '19:00';
+
+/**
+ * Dry-run a draft against the current device states. Triggers, conditions and actions are compiled
+ * first and the compiled form is evaluated, so the result follows what the hub would do.
+ */
+export function simulateAutomation(
+  draft: AutomationDraft,
+  devices: UIDevice[],
+  input: SimulationInput
+): SimulationResult {
+  const before = new Map<string, EntityState>(
+    devices.map((d) => [d.entityId, { state: d.state, attributes: d.attributes ?? {} }])
+  );
+  const after = applyEvent(before, input.event);
+  const notes: string[] = [];
+
+  const triggerIndex = draft.triggers.findIndex((t) =>
+    triggerFires(compileTrigger(t), before, after, input, notes)
+  );
+  if (triggerIndex < 0) {
+    return { fired: false, triggerIndex: null, checks: [], conditionsPassed: false, calls: [], notes };
+  }
+  const fired = compileTrigger(draft.triggers[triggerIndex]);
+  const firedEntity = 'entity_id' in fired ? fired.entity_id : null;
+
+  const checks: SimulatedCheck[] = [];
+  draftConditions(draft).forEach((condition) => {
+    const compiled = compileCondition(condition);
+    if (compiled) checks.push({ kind: 'condition', condition, passed: conditionPasses(compiled, after, input) });
+  });
+  // Mirrors deltaTemplateCondition: the check reads trigger.from_state/to_state, which only state-based
+  // triggers provide, so it sees 0 → 0 when the automation was started by anything else.
+  draft.triggers.forEach((trigger) => {
+    if (trigger.kind !== 'numeric_delta') return;
+    const attribute = trigger.attribute || 'state';
+    const threshold = numericDeltaThreshold(attribute);
+    const from = firedEntity && input.event.kind === 'state' ? readNumber(before.get(firedEntity), attribute) ?? 0 : 0;
+    const to = firedEntity && input.event.kind === 'state' ? readNumber(after.get(firedEntity), attribute) ?? 0 : 0;
+    const change = trigger.direction === 'decrease' ? from - to : to - from;
+    checks.push({ kind: 'delta', trigger, threshold, change, passed: change >= threshold });
+  });
+  const conditionsPassed = checks.every((c) => c.passed);
+
+  const calls: SimulatedCall[] = [];
+  if (conditionsPassed) {
+    const blindTravelSeconds = Object.fromEntries(devices.map((d) => [d.entityId, d.blindTravelSeconds]));
+    const compiled = draft.actions.map((a) => compileAction(a, { blindTravelSeconds }));
+    const skipped = compiled.filter((a) => !a).length;
+    if (skipped > 0) notes.push(`${skipped} step${skipped === 1 ? ' is' : 's are'} dashboard-only and not sent.`);
+    collectCalls(compiled.filter((a): a is HaAction => !!a), 0, calls, notes);
+    // Show relative steps as the value the hub would send, worked out from the states after the event.
+    calls.forEach((call) => {
+      Object.entries(call.data ?? {}).forEach(([key, value]) => {
+        const step = parseRelativeStepTemplate(value);
+        if (!step || !call.data) return;
+        const resolved = resolveRelativeStep(step, after.get(step.entityId)?.attributes ?? {});
+        call.data = { ...call.data, [key]: Math.round(resolved * 100) / 100 };
+      });
+    });
+  }
+  return { fired: true, triggerIndex, checks, conditionsPassed, calls, notes };
+}
+
+function applyEvent(states: Map<string, EntityState>, event: SimulatedEvent): Map<string, EntityState> {
+  const next = new Map(states);
+  if (event.kind !== 'state') return next;
+  const current = states.get(event.entityId) ?? { state: 'unknown', attributes: {} };
+  const updated: EntityState = { state: event.to ?? current.state, attributes: { ...current.attributes } };
+  if (typeof event.value === 'number') {
+    if (event.attribute) updated.attributes[event.attribute] = event.value;
+    else updated.state = String(event.value);
+  }
+  next.set(event.entityId, updated);
+  return next;
+}
+
+function readNumber(entity: EntityState | undefined, attribute?: string | null): number | null {
+  if (!entity) return null;
+  const raw = attribute && attribute !== 'state' ? entity.attributes[attribute] : entity.state;
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : null;
+}
+
+function inRange(value: number | null, above?: number, below?: number) {
+  if (value === null) return false;
+  return (above === undefined || value > above) && (below === undefined || value < below);
+}
+
+function triggerFires(
+  trigger: HaTrigger,
+  before: Map<string, EntityState>,
+  after: Map<string, EntityState>,
+  input: SimulationInput,
+  notes: string[]
+): boolean {
+  const event = input.event;
+  switch (trigger.platform) {
+    case 'state': {
+      if (event.kind !== 'state' || event.entityId !== trigger.entity_id) return false;
+      const prev = before.get(trigger.entity_id);
+      const next = after.get(trigger.entity_id);
+      if (!next) return false;
+      let fires: boolean;
+      if (trigger.attribute) {
+        fires = prev?.attributes[trigger.attribute] !== next.attributes[trigger.attribute];
+      } else if (trigger.to === undefined && trigger.from === undefined) {
+        fires = prev?.state !== next.state || JSON.stringify(prev?.attributes) !== JSON.stringify(next.attributes);
+      } else {
+        fires =
+          prev?.state !== next.state &&
+          (trigger.to === undefined || trigger.to === next.state) &&
+          (trigger.from === undefined || trigger.from === prev?.state);
+      }
+      if (fires && trigger.for) notes.push(`Only fires once ${trigger.entity_id} stays that way for ${trigger.for}.`);
+      return fires;
+    }
+    case 'numeric_state': {
+      if (event.kind !== 'state' || event.entityId !== trigger.entity_id) return false;
+      const wasIn = inRange(readNumber(before.get(trigger.entity_id), trigger.attribute), trigger.above, trigger.below);
+      const isIn = inRange(readNumber(after.get(trigger.entity_id), trigger.attribute), trigger.above, trigger.below);
+      // Home Assistant only fires when the value crosses into the range, not while it stays there.
+      if (wasIn && isIn) notes.push(`${trigger.entity_id} was already in range, so the threshold does not fire again.`);
+      const fires = !wasIn && isIn;
+      if (fires && trigger.for) {
+        notes.push(`Only fires once ${trigger.entity_id} stays past the threshold for ${trigger.for}.`);
+      }
+      return fires;
+    }
+    case 'time': {
+      const at = normalizeTime(trigger.at);
+      return (
+        event.kind === 'time' &&
+        at !== null &&
+        at === normalizeTime(input.time) &&
+        (!trigger.weekday || trigger.weekday.includes(input.weekday))
+      );
+    }
+    case 'sun': {
+      const fires = event.kind === 'sun' && event.event === trigger.event;
+      if (fires && trigger.offset) notes.push(`Runs ${trigger.offset} from ${trigger.event}, not exactly at it.`);
+      return fires;
+    }
+    case 'zone':
+      // People and zones are not devices, so there is no state here to move between zones.
+      if (event.kind === 'state' && event.entityId === trigger.entity_id) {
+        notes.push(`Zone triggers follow where ${trigger.entity_id} is and can't be tried out here.`);
+      }
+      return false;
+    default:
+      return false;
+  }
+}
+
+function toMinutes(value: string) {
+  const [h, m] = value.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function conditionPasses(condition: HaCondition, states: Map<string, EntityState>, input: SimulationInput): boolean {
+  const now = toMinutes(input.time);
+  switch (condition.condition) {
+    case 'state': {
+      const current = states.get(condition.entity_id)?.state;
+      const allowed = Array.isArray(condition.state) ? condition.state : [condition.state];
+      return current !== undefined && allowed.includes(current);
+    }
+    case 'numeric_state':
+      return inRange(
+        readNumber(states.get(condition.entity_id), condition.attribute),
+        condition.above,
+        condition.below
+      );
+    case 'time': {
+      if (condition.weekday && !condition.weekday.includes(input.weekday)) return false;
+      const after = condition.after ? toMinutes(condition.after) : null;
+      const before = condition.before ? toMinutes(condition.before) : null;
+      // Like Home Assistant, an "after" later than "before" spans midnight.
+      if (after !== null && before !== null && after > before) return now >= after || now < before;
+      return (after === null || now >= after) && (before === null || now < before);
+    }
+    case 'sun': {
+      const sunrise = toMinutes(input.sunrise ?? DEFAULT_SUNRISE);
+      const sunset = toMinutes(input.sunset ?? DEFAULT_SUNSET);
+      const at = (event: SunEvent) => (event === 'sunrise' ? sunrise : sunset);
+      return (!condition.after || now > at(condition.after)) && (!condition.before || now < at(condition.before));
+    }
+    case 'and':
+      return condition.conditions.every((c) => conditionPasses(c, states, input));
+    case 'or':
+      return condition.conditions.some((c) => conditionPasses(c, states, input));
+    case 'not':
+      return !condition.conditions.some((c) => conditionPasses(c, states, input));
+    default:
+      return false;
+  }
+}
+
+function durationSeconds(value: string | undefined): number {
+  const [h, m, s] = (value ?? '').split(':').map(Number);
+  return [h, m, s].every(Number.isFinite) ? h * 3600 + m * 60 + s : 0;
+}
+
+/** Returns the time offset after the last step, so parallel branches can report the longest one. */
+function collectCalls(actions: HaAction[], start: number, calls: SimulatedCall[], notes: string[]): number {
+  let offset = start;
+  actions.forEach((action) => {
+    if ('service' in action) {
+      calls.push({
+        service: action.service,
+        entityId: action.target?.entity_id ?? (action.data?.target_cover as string | undefined) ?? null,
+        data: action.data,
+        afterSeconds: offset,
+      });
+    } else if ('delay' in action) {
+      offset += durationSeconds(action.delay);
+    } else if ('wait_for_trigger' in action) {
+      const target = action.wait_for_trigger[0];
+      const name = target && 'entity_id' in target ? target.entity_id : 'a device';
+      notes.push(`Assumes ${name} changes as soon as the automation starts waiting for it.`);
+    } else if ('parallel' in action) {
+      offset = Math.max(...action.parallel.map((branch) => collectCalls([branch], offset, calls, notes)));
+    }
+  });
+  return offset;
+}
@@ -0,0 +1,226 @@
+import type { UIDevice } from '../models/device';
+import {
+  CAPABILITIES,
+  getActionsForDevice,
+  getCapabilitiesForDevice,
+  getEligibleDevicesForAutomations,
+  getTriggersForDevice,
+  type DeviceCommandId,
+} from '../capabilities/deviceCapabilities';
+import type { AutomationAction, AutomationDraft, DeviceAction } from './automationModel';
+import { HOME_ZONE } from '../presence/presenceModel';
+
+/** A device slot the template needs filled, e.g. "the motion sensor" or "the lights". */
+export type TemplateRole = {
+  key: string;
+  label: string;
+  capability: keyof typeof CAPABILITIES;
+  /** The device must offer this automation command... */
+  command?: DeviceCommandId;
+  /** ...or this automation trigger (a trigger spec id from CAPABILITIES). */
+  trigger?: string;
+  multiple?: boolean;
+};
+
+export type TemplateParam =
+  | { key: string; label: string; kind: 'number'; unit: string; defaultValue: number; min: number; max: number }
+  | { key: string; label: string; kind: 'time'; defaultValue: string };
+
+export type TemplateSelections = Record<string, UIDevice[]>;
+export type TemplateValues = Record<string, string>;
+
+type ResolvedValues = Record<string, number | string>;
+
+export type AutomationTemplate = {
+  id: string;
+  title: string;
+  description: string;
+  roles: TemplateRole[];
+  params: TemplateParam[];
+  build: (devices: TemplateSelections, values: ResolvedValues) => Omit<AutomationDraft, 'alias'>;
+};
+
+function commandFor(devices: UIDevice[], command: DeviceCommandId, value?: number): AutomationAction {
+  const actions = devices.map(
+    (d): DeviceAction =>
+      value === undefined
+        ? { kind: 'device_command', entityId: d.entityId, command }
+        : { kind: 'device_command', entityId: d.entityId, command, value }
+  );
+  return actions.length === 1 ? actions[0] : { kind: 'parallel', actions };
+}
+
+export const AUTOMATION_TEMPLATES: AutomationTemplate[] = [
+  {
+    id: 'motion-light',
+    title: 'Motion light with auto-off',
+    description: 'Turn lights on when motion is detected and off again once the room has been still.',
+    roles: [
+      { key: 'motion', label: 'Motion sensor', capability: 'Motion Sensor', trigger: 'motion-detected' },
+      { key: 'lights', label: 'Lights', capability: 'Light', command: 'light/turn_on', multiple: true },
+    ],
+    params: [
+      { key: 'minutes', label: 'Turn off after', kind: 'number', unit: 'min', defaultValue: 5, min: 1, max: 120 },
+    ],
+    build: (devices, values) => {
+      const [motion] = devices.motion;
+      return {
+        // A new movement restarts the run, so the countdown starts again from the last motion.
+        mode: 'restart',
+        triggers: [{ kind: 'state', entityId: motion.entityId, to: 'on' }],
+        actions: [
+          commandFor(devices.lights, 'light/turn_on'),
+          { kind: 'wait_for_state', entityId: motion.entityId, state: 'off', timeoutSeconds: null },
+          { kind: 'delay', seconds: Number(values.minutes) * 60 },
+          commandFor(devices.lights, 'light/turn_off'),
+        ],
+      };
+    },
+  },
+  {
+    id: 'quiet-lights-off',
+    title: 'Lights off when the home is quiet',
+    description: 'Switch lights off once a motion sensor has seen nobody for a while.',
+    roles: [
+      { key: 'motion', label: 'Motion sensor', capability: 'Motion Sensor', trigger: 'motion-clear' },
+      { key: 'lights', label: 'Lights', capability: 'Light', command: 'light/turn_off', multiple: true },
+    ],
+    params: [
+      { key: 'minutes', label: 'No motion for', kind: 'number', unit: 'min', defaultValue: 30, min: 1, max: 240 },
+    ],
+    build: (devices, values) => ({
+      triggers: [
+        { kind: 'state', entityId: devices.motion[0].entityId, to: 'off', forMinutes: Number(values.minutes) },
+      ],
+      actions: [commandFor(devices.lights, 'light/turn_off')],
+    }),
+  },
+  {
+    id: 'blinds-sunset',
+    title: 'Blinds close at sunset',
+    description: 'Close the blinds when the sun goes down, optionally a little before or after.',
+    roles: [{ key: 'blinds', label: 'Blinds', capability: 'Blind', command: 'blind/close', multiple: true }],
+    params: [
+      { key: 'offset', label: 'Offset from sunset', kind: 'number', unit: 'min', defaultValue: 0, min: -90, max: 90 },
+    ],
+    build: (devices, values) => ({
+      triggers: [{ kind: 'sun', event: 'sunset', offsetMinutes: Number(values.offset) }],
+      actions: [commandFor(devices.blinds, 'blind/close')],
+    }),
+  },
+  {
+    id: 'blinds-sunrise',
+    title: 'Blinds open at sunrise',
+    description: 'Let the daylight in by opening the blinds at sunrise.',
+    roles: [{ key: 'blinds', label: 'Blinds', capability: 'Blind', command: 'blind/open', multiple: true }],
+    params: [
+      { key: 'offset', label: 'Offset from sunrise', kind: 'number', unit: 'min', defaultValue: 0, min: -90, max: 90 },
+    ],
+    build: (devices, values) => ({
+      triggers: [{ kind: 'sun', event: 'sunrise', offsetMinutes: Number(values.offset) }],
+      actions: [commandFor(devices.blinds, 'blind/open')],
+    }),
+  },
+  {
+    id: 'heating-eco-night',
+    title: 'Heating eco at night',
+    description: 'Drop the heating to an energy-saving temperature every night.',
+    roles: [{ key: 'boiler', label: 'Heating', capability: 'Boiler', command: 'boiler/set_temperature' }],
+    params: [
+      { key: 'at', label: 'At', kind: 'time', defaultValue: '22:30' },
+      {
+        key: 'temperature',
+        label: 'Eco temperature',
+        kind: 'number',
+        unit: '°C',
+        defaultValue: 17,
+        min: 10,
+        max: 25,
+      },
+    ],
+    build: (devices, values) => ({
+      triggers: [{ kind: 'time', at: String(values.at) }],
+      actions: [commandFor(devices.boiler, 'boiler/set_temperature', Number(values.temperature))],
+    }),
+  },
+  {
+    id: 'everyone-leaves-lights-off',
+    title: 'Lights off when everyone leaves',
+    description: 'Switch the lights off once the last person has left home.',
+    roles: [{ key: 'lights', label: 'Lights', capability: 'Light', command: 'light/turn_off', multiple: true }],
+    params: [],
+    build: (devices) => ({
+      triggers: [{ kind: 'presence', event: 'last_leaves', zone: HOME_ZONE }],
+      actions: [commandFor(devices.lights, 'light/turn_off')],
+    }),
+  },
+  {
+    id: 'heating-on-arrival',
+    title: 'Warm up when someone gets home',
+    description: 'Bring the heating up to a comfortable temperature when the first person arrives home.',
+    roles: [{ key: 'boiler', label: 'Heating', capability: 'Boiler', command: 'boiler/set_temperature' }],
+    params: [
+      {
+        key: 'temperature',
+        label: 'Comfort temperature',
+        kind: 'number',
+        unit: '°C',
+        defaultValue: 21,
+        min: 10,
+        max: 25,
+      },
+    ],
+    build: (devices, values) => ({
+      triggers: [{ kind: 'presence', event: 'first_arrives', zone: HOME_ZONE }],
+      actions: [commandFor(devices.boiler, 'boiler/set_temperature', Number(values.temperature))],
+    }),
+  },
+];
+
+/** Automation-eligible devices that can fill the role: right capability, and the command or trigger it needs. */
+export function getDevicesForRole(role: TemplateRole, devices: UIDevice[]): UIDevice[] {
+  const capability = CAPABILITIES[role.capability];
+  return getEligibleDevicesForAutomations(devices).filter((device) => {
+    if (getCapabilitiesForDevice(device) !== capability) return false;
+    if (role.command) {
+      const commands = getActionsForDevice(device, 'automation').flatMap((spec) =>
+        spec.kind === 'toggle' ? [spec.commandOn, spec.commandOff] : [spec.command]
+      );
+      if (!commands.includes(role.command)) return false;
+    }
+    return !role.trigger || getTriggersForDevice(device, 'automation').some((t) => t.id === role.trigger);
+  });
+}
+
+export function getDefaultTemplateValues(template: AutomationTemplate): TemplateValues {
+  return Object.fromEntries(template.params.map((p) => [p.key, String(p.defaultValue)]));
+}
+
+/** Check the selections and values, then build the draft. Throws with a message fit for the user. */
+export function buildTemplateDraft(
+  template: AutomationTemplate,
+  selections: TemplateSelections,
+  values: TemplateValues
+): AutomationDraft {
+  template.roles.forEach((role) => {
+    const chosen = selections[role.key] ?? [];
+    const name = role.label.toLowerCase();
+    if (chosen.length === 0) throw new Error(`Choose ${role.multiple ? 'at least one' : 'a'} ${name}.`);
+    if (!role.multiple && chosen.length > 1) throw new Error(`Choose only one ${name}.`);
+  });
+  const resolved: ResolvedValues = {};
+  template.params.forEach((param) => {
+    const raw = (values[param.key] ?? '').trim();
+    if (param.kind === 'time') {
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(raw)) throw new Error(`${param.label}: enter a time as HH:MM.`);
+      resolved[param.key] = raw;
+      return;
+    }
+    const value = Number(raw);
+    if (!raw || !Number.isFinite(value) || value < param.min || value > param.max) {
+      throw new Error(`${param.label}: enter a number from ${param.min} to ${param.max}.`);
+    }
+    resolved[param.key] = value;
+  });
+  return { alias: template.title, description: template.description, ...template.build(selections, resolved) };
+}
@@ -77,6 +77,20 @@ export type DeviceActionSpec =
       step?: number;
       surfaces: Surface[];
       primary?: boolean;
+    }
+  | {
+      // A relative change; min/max/step bound the amount moved per run, not the resulting value.
+      kind: 'step';
+      id: string;
+      label: string;
+      command: DeviceCommandId;
+      min: number;
+      max: number;
+      step: number;
+      defaultValue: number;
+      unit: string;
+      surfaces: Surface[];
+      primary?: boolean;
     };
 
 export type DeviceTriggerSpec =
@@ -85,6 +99,7 @@ export type DeviceTriggerSpec =
       id: string;
       label: string;
       entityState: 'on' | 'off';
+      requiresDuration?: boolean; // e.g. "no motion for N minutes"
       surfaces: Surface[];
     }
   | {
@@ -110,6 +125,14 @@ export type DeviceTriggerSpec =
       at: string;
       daysOfWeek?: string[];
       surfaces: Surface[];
+    }
+  | {
+      kind: 'threshold';
+      id: string;
+      label: string;
+      attribute?: string; // omitted for the entity's own state
+      unit?: string;
+      surfaces: Surface[];
     };
 
 export type DeviceCapability = {
@@ -291,6 +314,30 @@ export const CAPABILITIES: Record<string, DeviceCapability> = {
         command: 'media/volume_down',
         surfaces: makeSurfaces('dashboard'),
       },
+      {
+        kind: 'step',
+        id: 'tv-volume-raise',
+        label: 'Turn volume up by',
+        command: 'media/volume_up',
+        min: 5,
+        max: 50,
+        step: 5,
+        defaultValue: 10,
+        unit: '%',
+        surfaces: makeSurfaces('automation'),
+      },
+      {
+        kind: 'step',
+        id: 'tv-volume-lower',
+        label: 'Turn volume down by',
+        command: 'media/volume_down',
+        min: 5,
+        max: 50,
+        step: 5,
+        defaultValue: 10,
+        unit: '%',
+        surfaces: makeSurfaces('automation'),
+      },
     ],
     triggers: [
       { kind: 'state', id: 'tv-on', label: 'Turns on', entityState: 'on', surfaces: makeSurfaces('automation') },
@@ -347,6 +394,30 @@ export const CAPABILITIES: Record<string, DeviceCapability> = {
         command: 'media/volume_down',
         surfaces: makeSurfaces('dashboard'),
       },
+      {
+        kind: 'step',
+        id: 'speaker-volume-raise',
+        label: 'Turn volume up by',
+        command: 'media/volume_up',
+        min: 5,
+        max: 50,
+        step: 5,
+        defaultValue: 10,
+        unit: '%',
+        surfaces: makeSurfaces('automation'),
+      },
+      {
+        kind: 'step',
+        id: 'speaker-volume-lower',
+        label: 'Turn volume down by',
+        command: 'media/volume_down',
+        min: 5,
+        max: 50,
+        step: 5,
+        defaultValue: 10,
+        unit: '%',
+        surfaces: makeSurfaces('automation'),
+      },
     ],
     triggers: [
       { kind: 'state', id: 'speaker-on', label: 'Turns on', entityState: 'on', surfaces: makeSurfaces('automation') },
@@ -381,6 +452,30 @@ export const CAPABILITIES: Record<string, DeviceCapability> = {
         surfaces: makeSurfaces('dashboard', 'automation'),
         primary: true,
       },
+      {
+        kind: 'step',
+        id: 'boiler-temp-raise',
+        label: 'Raise temperature by',
+        command: 'boiler/temp_up',
+        min: 0.5,
+        max: 5,
+        step: 0.5,
+        defaultValue: 1,
+        unit: '°C',
+        surfaces: makeSurfaces('automation'),
+      },
+      {
+        kind: 'step',
+        id: 'boiler-temp-lower',
+        label: 'Lower temperature by',
+        command: 'boiler/temp_down',
+        min: 0.5,
+        max: 5,
+        step: 0.5,
+        defaultValue: 1,
+        unit: '°C',
+        surfaces: makeSurfaces('automation'),
+      },
     ],
     triggers: [
       {
@@ -399,6 +494,34 @@ export const CAPABILITIES: Record<string, DeviceCapability> = {
         direction: 'decrease',
         surfaces: makeSurfaces('automation'),
       },
+      {
+        kind: 'threshold',
+        id: 'boiler-temp-threshold',
+        label: 'Temperature crosses a threshold',
+        attribute: 'current_temperature',
+        unit: '°C',
+        surfaces: makeSurfaces('automation'),
+      },
+    ],
+  },
+  'Motion Sensor': {
+    actions: [],
+    triggers: [
+      {
+        kind: 'state',
+        id: 'motion-detected',
+        label: 'Motion detected',
+        entityState: 'on',
+        surfaces: makeSurfaces('automation'),
+      },
+      {
+        kind: 'state',
+        id: 'motion-clear',
+        label: 'No motion for…',
+        entityState: 'off',
+        requiresDuration: true,
+        surfaces: makeSurfaces('automation'),
+      },
     ],
   },
   Sockets: {
@@ -446,6 +569,34 @@ export const CAPABILITIES: Record<string, DeviceCapability> = {
   },
 };
 
+// Unlabelled numeric sensors (temperature, humidity, power, lux) can only trigger automations.
+const NUMERIC_SENSOR_CAPABILITY: DeviceCapability = {
+  actions: [],
+  triggers: [
+    {
+      kind: 'threshold',
+      id: 'sensor-threshold',
+      label: 'Crosses a threshold',
+      surfaces: makeSurfaces('automation'),
+    },
+  ],
+};
+
+export function isNumericSensor(device: UIDevice): boolean {
+  if (device.domain !== 'sensor') return false;
+  const state = (device.state ?? '').toString().trim();
+  if (state && Number.isFinite(Number(state))) return true;
+  return typeof device.attributes?.unit_of_measurement === 'string';
+}
+
+/** Unit to show next to a threshold value: the spec's own, else the sensor's unit_of_measurement. */
+export function getThresholdUnit(device: UIDevice, spec?: { attribute?: string; unit?: string }): string {
+  if (spec?.unit) return spec.unit;
+  if (spec?.attribute) return '';
+  const unit = device.attributes?.unit_of_measurement;
+  return typeof unit === 'string' ? unit : '';
+}
+
 function resolveCapabilityKey(label: string): string | null {
   const normalized = label.trim().toLowerCase();
   for (const key of Object.keys(CAPABILITIES)) {
@@ -457,8 +608,14 @@ function resolveCapabilityKey(label: string): string | null {
 export function getCapabilitiesForDevice(device: UIDevice): DeviceCapability | null {
   const label = getPrimaryLabel(device);
   const key = resolveCapabilityKey(label);
-  if (!key) return null;
-  return CAPABILITIES[key] ?? null;
+  if (key) return CAPABILITIES[key] ?? null;
+  return isNumericSensor(device) ? NUMERIC_SENSOR_CAPABILITY : null;
+}
+
+/** Bounds of a capability's absolute setter, e.g. the boiler's set-temperature slider. */
+export function getCommandRange(capability: string, command: DeviceCommandId): { min: number; max: number } | null {
+  const spec = CAPABILITIES[capability]?.actions.find((a) => a.kind === 'slider' && a.command === command);
+  return spec && spec.kind === 'slider' ? { min: spec.min, max: spec.max } : null;
 }
 
 export function getActionsForDevice(device: UIDevice, surface: Surface): DeviceActionSpec[] {
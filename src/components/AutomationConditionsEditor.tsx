@@ -0,0 +1,489 @@
+// src/components/AutomationConditionsEditor.tsx
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { AutomationCondition, SunCondition } from '../automations/automationModel';
+import type { UIDevice } from '../models/device';
+import { describePresenceCondition, HOME_ZONE, zoneName, type PresenceZone } from '../presence/presenceModel';
+import { palette, radii, spacing } from '../ui/theme';
+import { TextField } from './ui/TextField';
+
+type Props = {
+  conditions: AutomationCondition[];
+  devices: UIDevice[];
+  /** Home Assistant zones for the "People home" check; home is always offered. */
+  zones?: PresenceZone[];
+  /** False on the cloud route, where the "People home" check can't be saved. */
+  allowPresence?: boolean;
+  disabled?: boolean;
+  onChange: (next: AutomationCondition[]) => void;
+};
+
+type ConditionKind = 'device_on' | 'state' | 'numeric' | 'time_window' | 'sun' | 'weekday' | 'presence';
+
+const KINDS: { key: ConditionKind; label: string }[] = [
+  { key: 'device_on', label: 'Device is on' },
+  { key: 'state', label: 'Device state' },
+  { key: 'numeric', label: 'Number' },
+  { key: 'time_window', label: 'Time between' },
+  { key: 'sun', label: 'Daylight' },
+  { key: 'weekday', label: 'Days' },
+  { key: 'presence', label: 'People home' },
+];
+
+const SUN_PRESETS: { label: string; after: SunCondition['after']; before: SunCondition['before'] }[] = [
+  { label: 'After sunset', after: 'sunset', before: null },
+  { label: 'Before sunrise', after: null, before: 'sunrise' },
+  { label: 'When dark', after: 'sunset', before: 'sunrise' },
+  { label: 'In daylight', after: 'sunrise', before: 'sunset' },
+];
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const DOMAIN_STATES: Record<string, string[]> = {
+  light: ['on', 'off'],
+  switch: ['on', 'off'],
+  binary_sensor: ['on', 'off'],
+  cover: ['open', 'closed'],
+  media_player: ['playing', 'paused', 'idle', 'off'],
+  climate: ['heat', 'off'],
+};
+
+/** Common states for the device's domain, plus whatever it reports right now. */
+export function getStateOptions(device: UIDevice): string[] {
+  return Array.from(new Set([...(DOMAIN_STATES[device.domain] ?? []), device.state].filter(Boolean)));
+}
+
+function deviceName(entityId: string, devices: UIDevice[]) {
+  return devices.find((d) => d.entityId === entityId)?.name ?? entityId;
+}
+
+export function describeCondition(
+  condition: AutomationCondition,
+  devices: UIDevice[],
+  zones: PresenceZone[] = []
+): string {
+  switch (condition.kind) {
+    case 'device_on':
+      return `${deviceName(condition.entityId, devices)} is on`;
+    case 'state':
+      return `${deviceName(condition.entityId, devices)} is ${condition.negate ? 'not ' : ''}${condition.state}`;
+    case 'numeric': {
+      const subject = condition.attribute
+        ? `${deviceName(condition.entityId, devices)} ${condition.attribute.replace(/_/g, ' ')}`
+        : deviceName(condition.entityId, devices);
+      const bounds = [
+        typeof condition.above === 'number' ? `above ${condition.above}` : null,
+        typeof condition.below === 'number' ? `below ${condition.below}` : null,
+      ].filter(Boolean);
+      return `${subject} ${bounds.join(' and ')}`;
+    }
+    case 'time_window':
+      if (condition.after && condition.before) return `Between ${condition.after} and ${condition.before}`;
+      return condition.after ? `After ${condition.after}` : `Before ${condition.before ?? ''}`;
+    case 'sun': {
+      const preset = SUN_PRESETS.find(
+        (p) => p.after === (condition.after ?? null) && p.before === (condition.before ?? null)
+      );
+      if (preset) return preset.label;
+      return [condition.after && `After ${condition.after}`, condition.before && `before ${condition.before}`]
+        .filter(Boolean)
+        .join(', ');
+    }
+    case 'weekday':
+      return `On ${condition.daysOfWeek.map((d) => d.toUpperCase()).join(', ')}`;
+    case 'presence':
+      return describePresenceCondition(condition, zones);
+    case 'group': {
+      const inner = condition.conditions.map((c) => describeCondition(c, devices, zones)).join('; ');
+      return `${condition.operator === 'or' ? 'Any' : 'All'} of: ${inner}`;
+    }
+    default:
+      return 'Custom condition';
+  }
+}
+
+function isAnyGroup(conditions: AutomationCondition[]) {
+  const only = conditions.length === 1 ? conditions[0] : null;
+  return !!only && only.kind === 'group' && only.operator === 'or';
+}
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : null;
+}
+
+function isTime(text: string) {
+  return /^([01]?\d|2[0-3]):[0-5]\d$/.test(text.trim());
+}
+
+export function AutomationConditionsEditor({
+  conditions,
+  devices,
+  zones = [],
+  allowPresence = true,
+  disabled,
+  onChange,
+}: Props) {
+  const matchAny = isAnyGroup(conditions);
+  const items =
+    matchAny && conditions[0].kind === 'group' ? conditions[0].conditions : conditions;
+
+  const [kind, setKind] = useState<ConditionKind | null>(null);
+  const [entityId, setEntityId] = useState<string | null>(null);
+  const [stateValue, setStateValue] = useState<string | null>(null);
+  const [negate, setNegate] = useState(false);
+  const [attribute, setAttribute] = useState('');
+  const [above, setAbove] = useState('');
+  const [below, setBelow] = useState('');
+  const [after, setAfter] = useState('');
+  const [before, setBefore] = useState('');
+  const [days, setDays] = useState<string[]>([]);
+  const [sunPreset, setSunPreset] = useState<number | null>(null);
+  const [zone, setZone] = useState(HOME_ZONE);
+  const [occupied, setOccupied] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const device = entityId ? devices.find((d) => d.entityId === entityId) ?? null : null;
+  const stateOptions = device ? getStateOptions(device) : [];
+  const zoneOptions = [HOME_ZONE, ...zones.map((z) => z.entityId).filter((id) => id !== HOME_ZONE)];
+
+  const emit = (next: AutomationCondition[], any = matchAny) => {
+    onChange(any && next.length > 0 ? [{ kind: 'group', operator: 'or', conditions: next }] : next);
+  };
+
+  const resetForm = () => {
+    setKind(null);
+    setEntityId(null);
+    setStateValue(null);
+    setNegate(false);
+    setAttribute('');
+    setAbove('');
+    setBelow('');
+    setAfter('');
+    setBefore('');
+    setDays([]);
+    setSunPreset(null);
+    setZone(HOME_ZONE);
+    setOccupied(true);
+    setError(null);
+  };
+
+  const buildCondition = (): AutomationCondition | string => {
+    switch (kind) {
+      case 'device_on':
+        return entityId ? { kind: 'device_on', entityId } : 'Choose a device.';
+      case 'state':
+        if (!entityId) return 'Choose a device.';
+        if (!stateValue) return 'Choose a state.';
+        return { kind: 'state', entityId, state: stateValue, negate };
+      case 'numeric': {
+        if (!entityId) return 'Choose a device.';
+        const aboveValue = parseNumber(above);
+        const belowValue = parseNumber(below);
+        if (aboveValue === null && belowValue === null) return 'Enter a value to compare against.';
+        return {
+          kind: 'numeric',
+          entityId,
+          attribute: attribute.trim() || null,
+          above: aboveValue,
+          below: belowValue,
+        };
+      }
+      case 'time_window': {
+        const hasAfter = after.trim().length > 0;
+        const hasBefore = before.trim().length > 0;
+        if (!hasAfter && !hasBefore) return 'Enter a start or end time.';
+        if ((hasAfter && !isTime(after)) || (hasBefore && !isTime(before))) return 'Use HH:MM for times.';
+        return { kind: 'time_window', after: hasAfter ? after.trim() : null, before: hasBefore ? before.trim() : null };
+      }
+      case 'sun': {
+        const preset = sunPreset !== null ? SUN_PRESETS[sunPreset] : null;
+        return preset ? { kind: 'sun', after: preset.after, before: preset.before } : 'Choose when it applies.';
+      }
+      case 'weekday':
+        return days.length > 0 ? { kind: 'weekday', daysOfWeek: days } : 'Select at least one day.';
+      case 'presence':
+        return { kind: 'presence', zone, occupied };
+      default:
+        return 'Choose a condition type.';
+    }
+  };
+
+  const addCondition = () => {
+    const built = buildCondition();
+    if (typeof built === 'string') {
+      setError(built);
+      return;
+    }
+    emit([...items, built]);
+    resetForm();
+  };
+
+  const renderDevicePicker = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+      {devices.map((d) => {
+        const selected = d.entityId === entityId;
+        return (
+          <TouchableOpacity
+            key={d.entityId}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => {
+              setEntityId(d.entityId);
+              setStateValue(null);
+            }}
+            disabled={disabled}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{d.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  return (
+    <View>
+      <View style={styles.matchRow}>
+        <Text style={styles.label}>Run only if</Text>
+        {(['all', 'any'] as const).map((mode) => {
+          const selected = (mode === 'any') === matchAny;
+          return (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => emit(items, mode === 'any')}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {mode === 'all' ? 'All match' : 'Any matches'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {items.length === 0 ? (
+        <Text style={styles.helper}>No conditions. The action runs every time the trigger fires.</Text>
+      ) : (
+        items.map((c, idx) => (
+          <View key={`${c.kind}-${idx}`} style={styles.rowItem}>
+            <Text style={styles.rowItemText} numberOfLines={2}>
+              {describeCondition(c, devices, zones)}
+            </Text>
+            <TouchableOpacity
+              onPress={() => emit(items.filter((_, i) => i !== idx))}
+              disabled={disabled}
+            >
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {KINDS.filter((k) => allowPresence || k.key !== 'presence').map((k) => {
+          const selected = k.key === kind;
+          return (
+            <TouchableOpacity
+              key={k.key}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => {
+                resetForm();
+                setKind(selected ? null : k.key);
+              }}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>+ {k.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {kind ? (
+        <View style={styles.form}>
+          {kind === 'device_on' || kind === 'state' || kind === 'numeric' ? renderDevicePicker() : null}
+
+          {kind === 'state' && device ? (
+            <>
+              <View style={styles.matchRow}>
+                {[false, true].map((value) => (
+                  <TouchableOpacity
+                    key={String(value)}
+                    style={[styles.chip, negate === value && styles.chipSelected]}
+                    onPress={() => setNegate(value)}
+                  >
+                    <Text style={[styles.chipText, negate === value && styles.chipTextSelected]}>
+                      {value ? 'is not' : 'is'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {stateOptions.map((state) => (
+                  <TouchableOpacity
+                    key={state}
+                    style={[styles.chip, stateValue === state && styles.chipSelected]}
+                    onPress={() => setStateValue(state)}
+                  >
+                    <Text style={[styles.chipText, stateValue === state && styles.chipTextSelected]}>{state}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          ) : null}
+
+          {kind === 'numeric' ? (
+            <>
+              <TextField
+                label="Attribute (optional)"
+                placeholder="e.g. current_temperature"
+                value={attribute}
+                onChangeText={setAttribute}
+                autoCapitalize="none"
+              />
+              <View style={styles.inlineFields}>
+                <View style={styles.inlineField}>
+                  <TextField label="Above" placeholder="—" value={above} onChangeText={setAbove} keyboardType="numeric" />
+                </View>
+                <View style={styles.inlineField}>
+                  <TextField label="Below" placeholder="—" value={below} onChangeText={setBelow} keyboardType="numeric" />
+                </View>
+              </View>
+            </>
+          ) : null}
+
+          {kind === 'time_window' ? (
+            <View style={styles.inlineFields}>
+              <View style={styles.inlineField}>
+                <TextField label="From" placeholder="HH:MM" value={after} onChangeText={setAfter} />
+              </View>
+              <View style={styles.inlineField}>
+                <TextField label="Until" placeholder="HH:MM" value={before} onChangeText={setBefore} />
+              </View>
+            </View>
+          ) : null}
+
+          {kind === 'sun' ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {SUN_PRESETS.map((preset, idx) => (
+                <TouchableOpacity
+                  key={preset.label}
+                  style={[styles.chip, sunPreset === idx && styles.chipSelected]}
+                  onPress={() => setSunPreset(idx)}
+                >
+                  <Text style={[styles.chipText, sunPreset === idx && styles.chipTextSelected]}>{preset.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : null}
+
+          {kind === 'weekday' ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {WEEKDAYS.map((day) => {
+                const selected = days.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() =>
+                      setDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]))
+                    }
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{day.toUpperCase()}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          ) : null}
+
+          {kind === 'presence' ? (
+            <>
+              <View style={styles.matchRow}>
+                {[true, false].map((value) => (
+                  <TouchableOpacity
+                    key={String(value)}
+                    style={[styles.chip, occupied === value && styles.chipSelected]}
+                    onPress={() => setOccupied(value)}
+                  >
+                    <Text style={[styles.chipText, occupied === value && styles.chipTextSelected]}>
+                      {value ? 'Someone is' : 'No one is'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {zoneOptions.map((id) => (
+                  <TouchableOpacity
+                    key={id}
+                    style={[styles.chip, zone === id && styles.chipSelected]}
+                    onPress={() => setZone(id)}
+                  >
+                    <Text style={[styles.chipText, zone === id && styles.chipTextSelected]}>
+                      {id === HOME_ZONE ? 'Home' : zoneName(id, zones)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          ) : null}
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          <View style={styles.formActions}>
+            <TouchableOpacity style={styles.chip} onPress={resetForm}>
+              <Text style={styles.chipText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.chip, styles.chipSelected]} onPress={addCondition} disabled={disabled}>
+              <Text style={[styles.chipText, styles.chipTextSelected]}>Add condition</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontSize: 12, fontWeight: '600', color: palette.textMuted, marginRight: spacing.sm },
+  helper: { color: palette.textMuted, fontSize: 12, marginBottom: spacing.sm },
+  matchRow: { flexDirection: 'row', alignItems: 'center', marginBottom: spacing.sm },
+  chipRow: { marginVertical: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginRight: 8,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+  rowItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radii.lg,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginBottom: 8,
+  },
+  rowItemText: { color: palette.text, fontWeight: '600', flex: 1, marginRight: spacing.sm },
+  removeText: { color: palette.danger, fontWeight: '600', fontSize: 12 },
+  form: {
+    marginTop: spacing.xs,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    borderRadius: radii.md,
+    backgroundColor: palette.surfaceMuted,
+  },
+  inlineFields: { flexDirection: 'row', gap: spacing.sm },
+  inlineField: { flex: 1 },
+  error: { color: palette.danger, fontSize: 12, marginTop: spacing.xs },
+  formActions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: spacing.sm },
+});
@@ -0,0 +1,140 @@
+// src/components/AutomationPresenceTriggerPicker.tsx
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { PresenceEvent, PresenceTrigger } from '../automations/automationModel';
+import {
+  describePresenceTrigger,
+  HOME_ZONE,
+  zoneName,
+  type PresencePerson,
+  type PresenceZone,
+} from '../presence/presenceModel';
+import { palette, radii, spacing } from '../ui/theme';
+
+type Props = {
+  value: PresenceTrigger;
+  people: PresencePerson[];
+  zones: PresenceZone[];
+  loading?: boolean;
+  disabled?: boolean;
+  onChange: (next: PresenceTrigger) => void;
+};
+
+const EVENTS: { key: PresenceEvent; label: string }[] = [
+  { key: 'first_arrives', label: 'First person arrives' },
+  { key: 'last_leaves', label: 'Last person leaves' },
+  { key: 'enters', label: 'Someone arrives' },
+  { key: 'leaves', label: 'Someone leaves' },
+];
+
+function needsPerson(event: PresenceEvent) {
+  return event === 'enters' || event === 'leaves';
+}
+
+export function AutomationPresenceTriggerPicker({ value, people, zones, loading, disabled, onChange }: Props) {
+  const zoneOptions = [HOME_ZONE, ...zones.map((z) => z.entityId).filter((id) => id !== HOME_ZONE)];
+  const personal = needsPerson(value.event);
+
+  const setEvent = (event: PresenceEvent) => {
+    // Whole-zone events count everyone, so they never name a person.
+    const entityId = needsPerson(event) ? value.entityId ?? people[0]?.entityId : undefined;
+    const next: PresenceTrigger = { kind: 'presence', event, zone: value.zone };
+    onChange(entityId ? { ...next, entityId } : next);
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>When</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {EVENTS.map((e) => {
+          const selected = value.event === e.key;
+          return (
+            <TouchableOpacity
+              key={e.key}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => setEvent(e.key)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{e.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {personal ? (
+        <>
+          <Text style={styles.label}>Person or phone</Text>
+          {people.length === 0 ? (
+            <Text style={styles.helper}>
+              {loading
+                ? 'Loading people…'
+                : 'No people or tracked phones in Home Assistant yet. Add the companion app or router tracking.'}
+            </Text>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {people.map((p) => {
+                const selected = value.entityId === p.entityId;
+                return (
+                  <TouchableOpacity
+                    key={p.entityId}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => onChange({ ...value, entityId: p.entityId })}
+                    disabled={disabled}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{p.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </>
+      ) : null}
+
+      <Text style={styles.label}>Zone</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {zoneOptions.map((id) => {
+          const selected = value.zone === id;
+          return (
+            <TouchableOpacity
+              key={id}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onChange({ ...value, zone: id })}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {id === HOME_ZONE ? 'Home' : zoneName(id, zones)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <Text style={styles.helper}>
+        {describePresenceTrigger(value, people, zones)}.
+        {personal && value.zone === HOME_ZONE
+          ? ' Phones tracked by the home Wi-Fi router work here too.'
+          : personal
+            ? ' Needs a tracker that reports location, such as the companion app.'
+            : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontSize: 12, fontWeight: '600', color: palette.textMuted, marginTop: spacing.xs },
+  helper: { color: palette.textMuted, fontSize: 12, marginTop: spacing.xs },
+  chipRow: { marginVertical: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginRight: 8,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+});
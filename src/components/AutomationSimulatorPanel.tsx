@@ -0,0 +1,274 @@
+// src/components/AutomationSimulatorPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { AutomationDraft, SunEvent } from '../automations/automationModel';
+import { normalizeTime } from '../automations/haCompiler';
+import {
+  DEFAULT_SUNRISE,
+  DEFAULT_SUNSET,
+  simulateAutomation,
+  type SimulatedCall,
+  type SimulatedCheck,
+  type SimulatedEvent,
+  type SimulationResult,
+} from '../automations/simulator';
+import type { UIDevice } from '../models/device';
+import { palette, radii, spacing } from '../ui/theme';
+import { TextField } from './ui/TextField';
+import { describeCondition, getStateOptions } from './AutomationConditionsEditor';
+
+type Props = {
+  devices: UIDevice[];
+  /** Builds the draft from the editor's current fields; returns null when they are incomplete. */
+  buildDraft: () => AutomationDraft | null;
+  disabled?: boolean;
+};
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+function nowTime() {
+  const now = new Date();
+  return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+}
+
+function today() {
+  return WEEKDAYS[(new Date().getDay() + 6) % 7];
+}
+
+/** Local HH:mm of sun.sun's next rising or setting, when the hub's sun entity is among the devices. */
+function sunTime(devices: UIDevice[], attribute: 'next_rising' | 'next_setting') {
+  const raw = devices.find((d) => d.entityId === 'sun.sun')?.attributes?.[attribute];
+  const date = typeof raw === 'string' ? new Date(raw) : null;
+  if (!date || Number.isNaN(date.getTime())) return '';
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function formatOffset(seconds: number) {
+  if (seconds <= 0) return 'Immediately';
+  if (seconds < 60) return `After ${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `After ${minutes} min${rest ? ` ${rest} s` : ''}`;
+}
+
+function describeCall(call: SimulatedCall, devices: UIDevice[]) {
+  const name = devices.find((d) => d.entityId === call.entityId)?.name ?? call.entityId ?? '';
+  const data = call.data
+    ? Object.entries(call.data)
+        .filter(([, value]) => value !== call.entityId)
+        .map(([key, value]) => `${key.replace(/_/g, ' ')} ${value}`)
+        .join(', ')
+    : '';
+  return `${call.service}${name ? ` → ${name}` : ''}${data ? ` (${data})` : ''}`;
+}
+
+function describeCheck(check: SimulatedCheck, devices: UIDevice[]) {
+  if (check.kind === 'condition') return describeCondition(check.condition, devices);
+  const verb = check.trigger.direction === 'decrease' ? 'dropped' : 'rose';
+  return `Value ${verb} by at least ${check.threshold} (changed by ${Math.round(check.change * 100) / 100})`;
+}
+
+export function AutomationSimulatorPanel({ devices, buildDraft, disabled }: Props) {
+  const [eventKind, setEventKind] = useState<'device' | 'time' | 'sun'>('device');
+  const [entityId, setEntityId] = useState<string | null>(null);
+  const [toState, setToState] = useState<string | null>(null);
+  const [reading, setReading] = useState('');
+  const [sunEvent, setSunEvent] = useState<SunEvent>('sunset');
+  const [weekday, setWeekday] = useState<string>(today());
+  const [time, setTime] = useState(nowTime());
+  const [sunrise, setSunrise] = useState('');
+  const [sunset, setSunset] = useState('');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const device = entityId ? devices.find((d) => d.entityId === entityId) ?? null : null;
+
+  // Devices arrive after the panel mounts; fill the sun times once, without overwriting what was typed.
+  useEffect(() => {
+    setSunrise((prev) => prev || sunTime(devices, 'next_rising'));
+    setSunset((prev) => prev || sunTime(devices, 'next_setting'));
+  }, [devices]);
+
+  const run = () => {
+    setResult(null);
+    const at = normalizeTime(time);
+    if (!at) {
+      setError('Enter the time as HH:MM.');
+      return;
+    }
+    // Blank sun times fall back to the simulator's defaults.
+    const sunriseAt = sunrise.trim() ? normalizeTime(sunrise) : DEFAULT_SUNRISE;
+    const sunsetAt = sunset.trim() ? normalizeTime(sunset) : DEFAULT_SUNSET;
+    if (!sunriseAt || !sunsetAt) {
+      setError('Enter sunrise and sunset as HH:MM.');
+      return;
+    }
+    const draft = buildDraft();
+    if (!draft) return;
+    let event: SimulatedEvent;
+    if (eventKind === 'device') {
+      const value = reading.trim() ? Number(reading.trim()) : null;
+      if (!entityId || (!toState && value === null)) {
+        setError('Choose a device and what it changes to.');
+        return;
+      }
+      if (value !== null && !Number.isFinite(value)) {
+        setError('The new reading must be a number.');
+        return;
+      }
+      // Readings go where the draft's own trigger on this device looks, e.g. current_temperature.
+      const trigger = draft.triggers.find((t) => 'entityId' in t && t.entityId === entityId);
+      const attribute = trigger && 'attribute' in trigger ? trigger.attribute ?? null : null;
+      event = { kind: 'state', entityId, to: toState, value, attribute };
+    } else if (eventKind === 'sun') {
+      event = { kind: 'sun', event: sunEvent };
+    } else {
+      event = { kind: 'time' };
+    }
+    setError(null);
+    try {
+      setResult(
+        simulateAutomation(draft, devices, { event, weekday, time: at, sunrise: sunriseAt, sunset: sunsetAt })
+      );
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'This automation could not be tried out.');
+    }
+  };
+
+  const chip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={styles.helper}>
+        Try the automation against your devices as they are now, without sending anything.
+      </Text>
+      <View style={styles.row}>
+        {chip('device', 'A device changes', eventKind === 'device', () => setEventKind('device'))}
+        {chip('time', 'The time is reached', eventKind === 'time', () => setEventKind('time'))}
+        {chip('sun', 'Sunrise / sunset', eventKind === 'sun', () => setEventKind('sun'))}
+      </View>
+
+      {eventKind === 'device' ? (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {devices.map((d) =>
+              chip(d.entityId, d.name, d.entityId === entityId, () => {
+                setEntityId(d.entityId);
+                setToState(null);
+              })
+            )}
+          </ScrollView>
+          {device ? (
+            <>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {getStateOptions(device).map((state) =>
+                  chip(state, state, toState === state, () => setToState(toState === state ? null : state))
+                )}
+              </ScrollView>
+              <TextField
+                label="Or a new reading"
+                placeholder={`Now ${device.state}`}
+                value={reading}
+                onChangeText={setReading}
+                keyboardType="numeric"
+              />
+            </>
+          ) : null}
+        </>
+      ) : eventKind === 'sun' ? (
+        <View style={styles.row}>
+          {(['sunrise', 'sunset'] as const).map((key) =>
+            chip(key, key === 'sunrise' ? 'Sunrise' : 'Sunset', sunEvent === key, () => setSunEvent(key))
+          )}
+        </View>
+      ) : null}
+
+      <View style={styles.row}>
+        {WEEKDAYS.map((day) => chip(day, day.charAt(0).toUpperCase() + day.slice(1), weekday === day, () => setWeekday(day)))}
+      </View>
+      <TextField label="At (HH:MM)" value={time} onChangeText={setTime} placeholder="19:30" />
+      <View style={styles.sunFields}>
+        <View style={styles.sunField}>
+          <TextField label="Sunrise" value={sunrise} onChangeText={setSunrise} placeholder={DEFAULT_SUNRISE} />
+        </View>
+        <View style={styles.sunField}>
+          <TextField label="Sunset" value={sunset} onChangeText={setSunset} placeholder={DEFAULT_SUNSET} />
+        </View>
+      </View>
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      <TouchableOpacity style={[styles.chip, styles.chipSelected, styles.runButton]} onPress={run} disabled={disabled}>
+        <Text style={[styles.chipText, styles.chipTextSelected]}>Run test</Text>
+      </TouchableOpacity>
+
+      {result ? (
+        <View style={styles.result}>
+          <Text style={[styles.verdict, result.fired && result.conditionsPassed ? styles.ok : styles.warn]}>
+            {!result.fired
+              ? 'Would not start: no trigger matches this event.'
+              : result.conditionsPassed
+              ? `Would run and send ${result.calls.length} command${result.calls.length === 1 ? '' : 's'}.`
+              : 'Would start, but a condition stops it.'}
+          </Text>
+          {result.checks.map((check, idx) => (
+            <Text key={`check-${idx}`} style={styles.line}>
+              <Text style={check.passed ? styles.ok : styles.warn}>{check.passed ? '✓ ' : '✕ '}</Text>
+              {describeCheck(check, devices)}
+            </Text>
+          ))}
+          {result.calls.map((call, idx) => (
+            <Text key={`call-${idx}`} style={styles.line}>
+              {formatOffset(call.afterSeconds)}: {describeCall(call, devices)}
+            </Text>
+          ))}
+          {result.notes.map((note, idx) => (
+            <Text key={`note-${idx}`} style={styles.note}>
+              {note}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  helper: { color: palette.textMuted, fontSize: 12, marginBottom: spacing.sm },
+  row: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginVertical: 6 },
+  chipRow: { marginVertical: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginRight: 8,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+  sunFields: { flexDirection: 'row', gap: spacing.sm },
+  sunField: { flex: 1 },
+  runButton: { alignSelf: 'flex-start', marginTop: spacing.xs },
+  error: { color: palette.danger, fontSize: 12, marginTop: spacing.xs },
+  result: {
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: radii.md,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    gap: 4,
+  },
+  verdict: { fontWeight: '700', marginBottom: 4 },
+  ok: { color: '#15803d' },
+  warn: { color: '#b45309' },
+  line: { fontSize: 13, color: palette.text },
+  note: { fontSize: 12, color: palette.textMuted, fontStyle: 'italic' },
+});
@@ -0,0 +1,349 @@
+// src/components/AutomationStepsEditor.tsx
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { AutomationAction } from '../automations/automationModel';
+import type { UIDevice } from '../models/device';
+import type { SceneSummary } from '../scenes/sceneModel';
+import { palette, radii, spacing } from '../ui/theme';
+import { TextField } from './ui/TextField';
+import { getStateOptions } from './AutomationConditionsEditor';
+
+/** One row in the editor; rows marked withPrevious start together with the row above. */
+export type AutomationStep = {
+  action: AutomationAction;
+  withPrevious: boolean;
+};
+
+type Props = {
+  steps: AutomationStep[];
+  devices: UIDevice[];
+  scenes?: SceneSummary[];
+  disabled?: boolean;
+  onChange: (next: AutomationStep[]) => void;
+};
+
+export function stepsFromActions(actions: AutomationAction[]): AutomationStep[] {
+  return actions.flatMap((action) =>
+    action.kind === 'parallel'
+      ? action.actions.map((inner, idx) => ({ action: inner, withPrevious: idx > 0 }))
+      : [{ action, withPrevious: false }]
+  );
+}
+
+export function actionsFromSteps(steps: AutomationStep[]): AutomationAction[] {
+  const groups: AutomationAction[][] = [];
+  steps.forEach((step, idx) => {
+    if (step.withPrevious && idx > 0) groups[groups.length - 1].push(step.action);
+    else groups.push([step.action]);
+  });
+  return groups.map((group) => (group.length === 1 ? group[0] : { kind: 'parallel', actions: group }));
+}
+
+function formatSeconds(total: number) {
+  if (total < 60) return `${total} s`;
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return seconds ? `${minutes} min ${seconds} s` : `${minutes} min`;
+}
+
+export function describeAction(action: AutomationAction, devices: UIDevice[]): string {
+  const name = (entityId: string) => devices.find((d) => d.entityId === entityId)?.name ?? entityId;
+  switch (action.kind) {
+    case 'device_command': {
+      const verb = (action.command.split('/')[1] ?? action.command).replace(/_/g, ' ');
+      const label = verb.charAt(0).toUpperCase() + verb.slice(1);
+      const relative = /_(up|down)$/.test(action.command);
+      const amount = typeof action.value === 'number' ? (relative ? action.value : Math.round(action.value)) : null;
+      const value = amount === null ? '' : ` ${relative ? 'by' : 'to'} ${amount}`;
+      return `${name(action.entityId)}: ${label}${value}`;
+    }
+    case 'delay':
+      return `Wait ${formatSeconds(action.seconds)}`;
+    case 'wait_for_state': {
+      const timeout = action.timeoutSeconds ? ` (up to ${formatSeconds(action.timeoutSeconds)})` : '';
+      return `Wait until ${name(action.entityId)} is ${action.state}${timeout}`;
+    }
+    case 'parallel':
+      return action.actions.map((a) => describeAction(a, devices)).join(' + ');
+    case 'activate_scene':
+      return `Activate scene ${action.name ?? action.sceneId}`;
+    default:
+      return 'Custom step';
+  }
+}
+
+export function AutomationStepsEditor({ steps, devices, scenes = [], disabled, onChange }: Props) {
+  const [form, setForm] = useState<'delay' | 'wait' | 'scene' | null>(null);
+  const [seconds, setSeconds] = useState('30');
+  const [waitEntityId, setWaitEntityId] = useState<string | null>(null);
+  const [waitState, setWaitState] = useState<string | null>(null);
+  const [timeout, setTimeoutText] = useState('');
+  const [continueOnTimeout, setContinueOnTimeout] = useState(true);
+  const [sceneId, setSceneId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const waitDevice = waitEntityId ? devices.find((d) => d.entityId === waitEntityId) ?? null : null;
+
+  const closeForm = () => {
+    setForm(null);
+    setWaitEntityId(null);
+    setWaitState(null);
+    setTimeoutText('');
+    setContinueOnTimeout(true);
+    setSceneId(null);
+    setError(null);
+  };
+
+  const update = (idx: number, patch: Partial<AutomationStep>) => {
+    onChange(steps.map((step, i) => (i === idx ? { ...step, ...patch } : step)));
+  };
+
+  const remove = (idx: number) => {
+    const next = steps.filter((_, i) => i !== idx);
+    if (next[0]) next[0] = { ...next[0], withPrevious: false };
+    onChange(next);
+  };
+
+  const moveUp = (idx: number) => {
+    if (idx === 0) return;
+    const next = [...steps];
+    [next[idx - 1], next[idx]] = [next[idx], next[idx - 1]];
+    next[0] = { ...next[0], withPrevious: false };
+    onChange(next);
+  };
+
+  const addStep = () => {
+    if (form === 'delay') {
+      const value = Math.round(Number(seconds));
+      if (!Number.isFinite(value) || value <= 0) {
+        setError('Enter how many seconds to wait.');
+        return;
+      }
+      onChange([...steps, { action: { kind: 'delay', seconds: value }, withPrevious: false }]);
+    } else if (form === 'wait') {
+      if (!waitEntityId || !waitState) {
+        setError('Choose a device and the state to wait for.');
+        return;
+      }
+      const timeoutValue = timeout.trim() ? Math.round(Number(timeout)) : null;
+      if (timeoutValue !== null && (!Number.isFinite(timeoutValue) || timeoutValue <= 0)) {
+        setError('Timeout must be a number of seconds.');
+        return;
+      }
+      onChange([
+        ...steps,
+        {
+          action: {
+            kind: 'wait_for_state',
+            entityId: waitEntityId,
+            state: waitState,
+            timeoutSeconds: timeoutValue,
+            continueOnTimeout,
+          },
+          withPrevious: false,
+        },
+      ]);
+    } else if (form === 'scene') {
+      const scene = scenes.find((s) => s.id === sceneId);
+      if (!scene) {
+        setError('Choose a scene to activate.');
+        return;
+      }
+      if (!scene.entityId) {
+        setError('This scene is not on the hub yet, so automations cannot activate it.');
+        return;
+      }
+      onChange([
+        ...steps,
+        {
+          action: { kind: 'activate_scene', sceneId: scene.id, sceneEntityId: scene.entityId ?? null, name: scene.name },
+          withPrevious: false,
+        },
+      ]);
+    }
+    closeForm();
+  };
+
+  return (
+    <View>
+      {steps.length === 0 ? (
+        <Text style={styles.helper}>No steps yet. The action above runs on its own.</Text>
+      ) : (
+        steps.map((step, idx) => (
+          <View key={`${step.action.kind}-${idx}`} style={[styles.rowItem, step.withPrevious && styles.rowItemNested]}>
+            <Text style={styles.rowItemText} numberOfLines={2}>
+              {step.withPrevious ? '+ ' : `${idx + 1}. `}
+              {describeAction(step.action, devices)}
+            </Text>
+            <View style={styles.rowActions}>
+              {idx > 0 ? (
+                <TouchableOpacity
+                  style={[styles.chip, step.withPrevious && styles.chipSelected]}
+                  onPress={() => update(idx, { withPrevious: !step.withPrevious })}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.chipText, step.withPrevious && styles.chipTextSelected]}>With previous</Text>
+                </TouchableOpacity>
+              ) : null}
+              {idx > 0 ? (
+                <TouchableOpacity onPress={() => moveUp(idx)} disabled={disabled}>
+                  <Text style={styles.linkText}>Up</Text>
+                </TouchableOpacity>
+              ) : null}
+              <TouchableOpacity onPress={() => remove(idx)} disabled={disabled}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+
+      <View style={styles.addRow}>
+        {(scenes.length > 0 ? (['delay', 'wait', 'scene'] as const) : (['delay', 'wait'] as const)).map((key) => {
+          const selected = form === key;
+          return (
+            <TouchableOpacity
+              key={key}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => (selected ? closeForm() : setForm(key))}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {key === 'delay' ? '+ Delay' : key === 'wait' ? '+ Wait for device' : '+ Scene'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {form ? (
+        <View style={styles.form}>
+          {form === 'delay' ? (
+            <TextField label="Seconds" value={seconds} onChangeText={setSeconds} keyboardType="numeric" />
+          ) : form === 'scene' ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {scenes.map((scene) => {
+                const selected = scene.id === sceneId;
+                return (
+                  <TouchableOpacity
+                    key={scene.id}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setSceneId(scene.id)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{scene.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          ) : (
+            <>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {devices.map((d) => {
+                  const selected = d.entityId === waitEntityId;
+                  return (
+                    <TouchableOpacity
+                      key={d.entityId}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => {
+                        setWaitEntityId(d.entityId);
+                        setWaitState(null);
+                      }}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{d.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              {waitDevice ? (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                  {getStateOptions(waitDevice).map((state) => (
+                    <TouchableOpacity
+                      key={state}
+                      style={[styles.chip, waitState === state && styles.chipSelected]}
+                      onPress={() => setWaitState(state)}
+                    >
+                      <Text style={[styles.chipText, waitState === state && styles.chipTextSelected]}>{state}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              ) : null}
+              <TextField
+                label="Give up after (seconds, optional)"
+                placeholder="Wait forever"
+                value={timeout}
+                onChangeText={setTimeoutText}
+                keyboardType="numeric"
+              />
+              {timeout.trim() ? (
+                <View style={styles.addRow}>
+                  {[true, false].map((value) => (
+                    <TouchableOpacity
+                      key={String(value)}
+                      style={[styles.chip, continueOnTimeout === value && styles.chipSelected]}
+                      onPress={() => setContinueOnTimeout(value)}
+                    >
+                      <Text style={[styles.chipText, continueOnTimeout === value && styles.chipTextSelected]}>
+                        {value ? 'Then carry on' : 'Then stop'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : null}
+            </>
+          )}
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          <View style={styles.formActions}>
+            <TouchableOpacity style={styles.chip} onPress={closeForm}>
+              <Text style={styles.chipText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.chip, styles.chipSelected]} onPress={addStep} disabled={disabled}>
+              <Text style={[styles.chipText, styles.chipTextSelected]}>Add step</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  helper: { color: palette.textMuted, fontSize: 12, marginBottom: spacing.sm },
+  chipRow: { marginVertical: 6 },
+  addRow: { flexDirection: 'row', alignItems: 'center', marginVertical: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginRight: 8,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+  rowItem: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radii.lg,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginBottom: 8,
+  },
+  rowItemNested: { marginLeft: spacing.lg },
+  rowItemText: { color: palette.text, fontWeight: '600' },
+  rowActions: { flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', gap: spacing.sm, marginTop: 6 },
+  linkText: { color: palette.primary, fontWeight: '600', fontSize: 12 },
+  removeText: { color: palette.danger, fontWeight: '600', fontSize: 12 },
+  form: {
+    marginTop: spacing.xs,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    borderRadius: radii.md,
+    backgroundColor: palette.surfaceMuted,
+  },
+  error: { color: palette.danger, fontSize: 12, marginTop: spacing.xs },
+  formActions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: spacing.sm },
+});
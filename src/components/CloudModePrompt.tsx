@@ -9,6 +9,8 @@ type Props = {
   result: 'idle' | 'checking' | 'success' | 'error';
   onCancel: () => void;
   onConfirm: () => void;
+  // Offers automatic home/cloud switching alongside the fixed-mode choice.
+  onChooseAuto?: () => void;
   title?: string;
   subtitle?: string;
   checkingText?: string;
@@ -22,6 +24,7 @@ export function CloudModePrompt({
   result,
   onCancel,
   onConfirm,
+  onChooseAuto,
   title = 'Move to Cloud mode?',
   subtitle = 'Control your devices from anywhere in the world.',
   checkingText = 'checking if remote access is enabled for this home',
@@ -72,6 +75,14 @@ export function CloudModePrompt({
                 onPress={onConfirm}
                 style={styles.compactButton}
               />
+              {onChooseAuto ? (
+                <PrimaryButton
+                  title="Switch automatically"
+                  onPress={onChooseAuto}
+                  variant="ghost"
+                  style={styles.compactButton}
+                />
+              ) : null}
               <PrimaryButton
                 title="Cancel"
                 onPress={onCancel}
@@ -27,6 +27,8 @@ type Props = {
   showControls?: boolean;
   kwhTotal?: number | null;
   energyCost?: number | null;
+  // Refreshes are failing and this is the last known state; commands are queued.
+  stale?: boolean;
 };
 
 export const DeviceCard = memo(function DeviceCard({
@@ -39,6 +41,7 @@ export const DeviceCard = memo(function DeviceCard({
   showControls = true,
   kwhTotal = null,
   energyCost = null,
+  stale = false,
 }: Props) {
   const label = getPrimaryLabel(device);
   const { session, haMode } = useSession();
@@ -96,6 +99,11 @@ export const DeviceCard = memo(function DeviceCard({
         device,
         command,
         value,
+        userId: session.user?.id,
+        stale,
+        onRollback: (rollbackErr) => {
+          Alert.alert('That change did not go through', rollbackErr.message);
+        },
       });
       if (onAfterCommand) await Promise.resolve(onAfterCommand());
     } catch (err) {
@@ -169,6 +177,11 @@ export const DeviceCard = memo(function DeviceCard({
           >
             {secondaryText}
           </Text>
+          {stale && (
+            <Text style={styles.staleNote} numberOfLines={1}>
+              Last known state
+            </Text>
+          )}
           {kwhTotal !== null && Number.isFinite(kwhTotal) && isAdmin && (
             <View style={styles.energyBlock}>
               <Text style={styles.energyLabel}>Energy Usage:</Text>
@@ -509,6 +522,7 @@ const styles = StyleSheet.create({
   footer: { marginTop: 'auto', paddingTop: spacing.xs },
   name: { fontSize: 15, fontWeight: '700', color: palette.text },
   secondary: { fontSize: 12, color: palette.textMuted, marginTop: 2 },
+  staleNote: { fontSize: 10, fontWeight: '700', color: '#b45309', marginTop: 2 },
   energyBlock: {
     marginTop: spacing.xs,
     alignSelf: 'flex-start',
@@ -34,6 +34,7 @@ import { palette, radii, shadows, spacing } from '../ui/theme';
 import { fetchHomeModeSecrets } from '../api/haSecrets';
 import { assertHaUrlAllowed } from '../api/haUrlPolicy';
 import { updateDeviceOverride } from '../api/deviceOverrides';
+import { updateBlindTravelInAutomations } from '../api/automations';
 
 type Props = {
   device: UIDevice | null;
@@ -45,6 +46,8 @@ type Props = {
   allowSensorHistory?: boolean;
   showControls?: boolean;
   showStateText?: boolean;
+  // Refreshes are failing and this is the last known state; commands are queued.
+  stale?: boolean;
 };
 
 export function DeviceDetail({
@@ -57,6 +60,7 @@ export function DeviceDetail({
   allowSensorHistory,
   showControls = true,
   showStateText = true,
+  stale = false,
 }: Props) {
   const { session, haMode } = useSession();
   const [pendingCommand, setPendingCommand] = useState<string | null>(null);
@@ -172,6 +176,23 @@ export function DeviceDetail({
         name: editName.trim() || device.name,
         blindTravelSeconds: isBlind ? travelValue : undefined,
       });
+      const previousTravel = device.blindTravelSeconds ?? null;
+      if (isBlind && travelValue !== previousTravel) {
+        // Automations carry the travel time in their blind-controller calls, so update the ones moving this blind.
+        try {
+          await updateBlindTravelInAutomations(device.entityId, travelValue, {
+            haConnection: connection,
+            mode: haMode,
+          });
+        } catch (err) {
+          Alert.alert(
+            'Travel time saved',
+            err instanceof Error && err.message
+              ? err.message
+              : 'Automations that move this blind could not be updated. Save them again from the automations list.'
+          );
+        }
+      }
       if (onCommandComplete) await Promise.resolve(onCommandComplete());
       closeEditor();
     } catch (err) {
@@ -197,6 +218,11 @@ export function DeviceDetail({
         device,
         command,
         value,
+        userId: session.user?.id,
+        stale,
+        onRollback: (rollbackErr) => {
+          Alert.alert('That change did not go through', rollbackErr.message);
+        },
       });
       if (onCommandComplete) await Promise.resolve(onCommandComplete());
     } catch (err) {
@@ -272,6 +298,11 @@ export function DeviceDetail({
             <Text style={styles.title}>{device?.name ?? ''}</Text>
             <Text style={styles.subtitle}>{area || 'Unassigned area'}</Text>
             {showStateText && <Text style={styles.secondary}>{secondary}</Text>}
+            {stale && (
+              <Text style={styles.staleNote}>
+                Last known state. Changes will be sent when we reconnect.
+              </Text>
+            )}
           </View>
           <View style={[styles.headerIcon, { backgroundColor: preset.iconActiveBackground }]}>
             <Text style={styles.headerIconText}>{preset.icon}</Text>
@@ -770,6 +801,7 @@ const styles = StyleSheet.create({
   title: { fontSize: 22, fontWeight: '800', color: palette.text, marginTop: 2 },
   subtitle: { fontSize: 13, color: palette.textMuted, marginTop: 4 },
   secondary: { fontSize: 12, color: palette.textMuted, marginTop: 6 },
+  staleNote: { fontSize: 12, fontWeight: '600', color: '#b45309', marginTop: 6 },
   headerIcon: {
     width: 52,
     height: 52,
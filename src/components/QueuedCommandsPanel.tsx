@@ -0,0 +1,71 @@
+// src/components/QueuedCommandsPanel.tsx
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { QueuedCommand } from '../store/commandQueue';
+import { palette, radii, shadows, spacing } from '../ui/theme';
+
+type Props = {
+  queued: QueuedCommand[];
+  replayError: string | null;
+  onCancel: (id: string) => void;
+  onDismissError: () => void;
+};
+
+function describeCommand(item: QueuedCommand): string {
+  const action = (item.command.split('/')[1] ?? item.command).replace(/_/g, ' ');
+  const label = action.charAt(0).toUpperCase() + action.slice(1);
+  return typeof item.value === 'number' ? `${label} to ${item.value}` : label;
+}
+
+export function QueuedCommandsPanel({ queued, replayError, onCancel, onDismissError }: Props) {
+  if (queued.length === 0 && !replayError) return null;
+
+  return (
+    <View style={styles.panel}>
+      {queued.length > 0 ? (
+        <Text style={styles.title}>
+          Waiting for connection · {queued.length} {queued.length === 1 ? 'command' : 'commands'}
+        </Text>
+      ) : null}
+      {queued.map((item) => (
+        <View key={item.id} style={styles.row}>
+          <Text style={styles.rowText} numberOfLines={1}>
+            {item.deviceName} — {describeCommand(item)}
+          </Text>
+          <TouchableOpacity onPress={() => onCancel(item.id)} style={styles.cancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {replayError ? (
+        <TouchableOpacity onPress={onDismissError}>
+          <Text style={styles.error}>{replayError}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: palette.surface,
+    marginHorizontal: spacing.xl,
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: radii.md,
+    borderWidth: 1,
+    borderColor: '#eab308',
+    ...shadows.soft,
+  },
+  title: { fontSize: 13, fontWeight: '700', color: palette.text, marginBottom: spacing.xs },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 4 },
+  rowText: { flex: 1, fontSize: 13, color: palette.textMuted },
+  cancel: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4,
+    borderRadius: radii.pill,
+    backgroundColor: palette.surfaceMuted,
+  },
+  cancelText: { fontSize: 12, fontWeight: '600', color: palette.danger },
+  error: { fontSize: 12, color: palette.danger, marginTop: spacing.xs },
+});
@@ -0,0 +1,62 @@
+// src/components/ScenesStrip.tsx
+import React from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { SceneSummary } from '../scenes/sceneModel';
+import { palette, radii, shadows, spacing } from '../ui/theme';
+
+type Props = {
+  scenes: SceneSummary[];
+  activatingId: string | null;
+  onActivate: (scene: SceneSummary) => void;
+  onEdit: (scene: SceneSummary) => void;
+  onAdd: () => void;
+};
+
+export function ScenesStrip({ scenes, activatingId, onActivate, onEdit, onAdd }: Props) {
+  return (
+    <View style={styles.wrap}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {scenes.map((scene) => (
+          <TouchableOpacity
+            key={scene.id}
+            style={styles.scene}
+            onPress={() => onActivate(scene)}
+            onLongPress={scene.canEdit !== false ? () => onEdit(scene) : undefined}
+            disabled={activatingId !== null}
+            activeOpacity={0.85}
+          >
+            {activatingId === scene.id ? <ActivityIndicator size="small" color={palette.primary} /> : null}
+            <Text style={styles.sceneText} numberOfLines={1}>
+              {scene.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={[styles.scene, styles.add]} onPress={onAdd} activeOpacity={0.85}>
+          <Text style={styles.addText}>+ Scene</Text>
+        </TouchableOpacity>
+      </ScrollView>
+      {scenes.length > 0 ? <Text style={styles.hint}>Tap to activate · hold to edit</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: { marginHorizontal: spacing.xl, marginTop: spacing.sm },
+  row: { gap: spacing.sm, paddingVertical: 2 },
+  scene: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radii.pill,
+    backgroundColor: palette.surface,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    ...shadows.soft,
+  },
+  sceneText: { fontSize: 13, fontWeight: '700', color: palette.text, maxWidth: 180 },
+  add: { borderStyle: 'dashed', backgroundColor: palette.surfaceMuted },
+  addText: { fontSize: 13, fontWeight: '700', color: palette.primary },
+  hint: { fontSize: 11, color: palette.textMuted, marginTop: 4 },
+});
@@ -2,10 +2,12 @@ import React from 'react';
 import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SegmentedTabs } from './SegmentedTabs';
 import { palette, radii, shadows, spacing, maxContentWidth } from '../../ui/theme';
+import type { HaMode } from '../../api/dinodia';
+import { useServedHaRoute } from '../../api/haRouter';
 
 type Props = {
   areaLabel?: string;
-  mode: 'home' | 'cloud';
+  mode: HaMode;
   activeTab?: 'dashboard' | 'automations' | 'homeSetup' | 'addDevices' | null;
   onChangeTab: (key: 'dashboard' | 'automations' | 'homeSetup' | 'addDevices') => void;
   onPressMenu: () => void;
@@ -37,6 +39,15 @@ export function TopBar({
       ? Math.max(0, Math.min(100, Math.round(batteryLevel)))
       : null;
   const batteryLabel = batteryPct === null ? '--%' : `${batteryPct}%`;
+  // In auto mode the pill follows whichever path served the last request.
+  const servedRoute = useServedHaRoute();
+  const showCloud = mode === 'cloud' || (mode === 'auto' && servedRoute === 'cloud');
+  const modeLabel =
+    mode === 'auto'
+      ? `Auto · ${servedRoute === 'cloud' ? 'Cloud' : 'Home'}`
+      : mode === 'cloud'
+      ? 'Cloud Mode'
+      : 'Home Mode';
   const resolvedTabs =
     tabs && tabs.length > 0
       ? tabs
@@ -73,11 +84,11 @@ export function TopBar({
             onPress={onPressMode}
             activeOpacity={0.8}
             disabled={!onPressMode}
-            style={[styles.modePill, mode === 'cloud' ? styles.modePillCloud : styles.modePillHome]}
+            style={[styles.modePill, showCloud ? styles.modePillCloud : styles.modePillHome]}
           >
-            <View style={[styles.dot, mode === 'cloud' ? styles.dotCloud : styles.dotHome]} />
-            <Text style={[styles.modeText, mode === 'cloud' ? styles.modeTextCloud : styles.modeTextHome]}>
-              {mode === 'cloud' ? 'Cloud Mode' : 'Home Mode'}
+            <View style={[styles.dot, showCloud ? styles.dotCloud : styles.dotHome]} />
+            <Text style={[styles.modeText, showCloud ? styles.modeTextCloud : styles.modeTextHome]}>
+              {modeLabel}
             </Text>
           </TouchableOpacity>
         </View>
@@ -1,4 +1,10 @@
 // src/config/env.ts
 export const ENV = {
   DINODIA_PLATFORM_API: 'https://app.dinodiasmartliving.com',
+  // Development only: point platform streams at a local stand-in (scripts/deviceStreamServer.js).
+  DINODIA_PLATFORM_STREAM_API: '',
+  // Last-known devices stay on screen (marked stale) through refresh failures until they are this old.
+  DEVICE_CACHE_HARD_EXPIRY_HOURS: 24,
+  // Showroom builds: serve Home mode from an in-process simulated hub instead of real hardware.
+  DINODIA_DEMO_HUB: false as boolean,
 };
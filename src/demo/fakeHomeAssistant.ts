@@ -0,0 +1,1224 @@
+// src/demo/fakeHomeAssistant.ts
+// An in-memory Home Assistant for showroom kiosks and hardware-free testing. It answers the
+// REST paths and WebSocket commands the app uses, and service calls change its model.
+import type { HAState } from '../api/ha';
+import { parseRelativeStepTemplate, resolveRelativeStep } from '../automations/haCompiler';
+
+type FakeState = HAState & {
+  last_changed: string;
+  last_updated: string;
+  context: { id: string; parent_id: null; user_id: null };
+};
+
+type FakeArea = { area_id: string; name: string };
+type FakeLabel = { label_id: string; name: string };
+type FakeDevice = {
+  id: string;
+  name: string;
+  area_id: string | null;
+  labels: string[];
+  manufacturer: string;
+  model: string;
+};
+type FakeEntity = {
+  entity_id: string;
+  device_id: string | null;
+  area_id: string | null;
+  labels: string[];
+  name: string | null;
+  platform: string;
+};
+
+type FakeFlow = {
+  flow_id: string;
+  handler: string;
+  step: 'user' | 'commissioning';
+  readyAt: number;
+};
+
+type FakeTraceStep = { path: string; timestamp: string; error?: string; result?: Record<string, unknown> };
+
+type FakeTrace = {
+  run_id: string;
+  item_id: string;
+  trigger: string;
+  config: Record<string, unknown>;
+  steps: FakeTraceStep[];
+  start: string;
+  finish: string;
+  error?: string;
+};
+
+type FakeModel = {
+  states: Map<string, FakeState>;
+  areas: FakeArea[];
+  labels: FakeLabel[];
+  devices: FakeDevice[];
+  entities: FakeEntity[];
+  automations: Map<string, Record<string, unknown>>;
+  scenes: Map<string, Record<string, unknown>>;
+  traces: Map<string, FakeTrace[]>;
+  flows: Map<string, FakeFlow>;
+};
+
+export type FakeHaEvent = {
+  event_type: string;
+  data: Record<string, unknown>;
+  origin: 'LOCAL';
+  time_fired: string;
+};
+
+export type FakeHaResponse = {
+  status: number;
+  body: unknown;
+};
+
+type Seed = {
+  entityId: string;
+  state: string;
+  attributes: Record<string, unknown>;
+  device?: string;
+  area?: string;
+  label?: string;
+};
+
+// Blinds move this fast when no travel time is given, matching the app's default.
+const DEFAULT_TRAVEL_SECONDS = 22;
+const BLIND_TICK_MS = 1000;
+const COMMISSIONING_MS = 4000;
+const VOLUME_STEP = 0.05;
+const MEDIA_OFF_STATES = new Set(['off', 'standby']);
+const TRACES_KEPT = 5;
+const PLAYLIST = ['Morning Jazz', 'Evening Chill', 'Showroom Mix', 'Acoustic Sessions'];
+
+const AREAS: FakeArea[] = [
+  { area_id: 'living_room', name: 'Living Room' },
+  { area_id: 'kitchen', name: 'Kitchen' },
+  { area_id: 'bedroom', name: 'Bedroom' },
+  { area_id: 'hallway', name: 'Hallway' },
+];
+
+const LABELS: FakeLabel[] = [
+  { label_id: 'light', name: 'Light' },
+  { label_id: 'blind', name: 'Blind' },
+  { label_id: 'boiler', name: 'Boiler' },
+  { label_id: 'tv', name: 'TV' },
+  { label_id: 'speaker', name: 'Speaker' },
+  { label_id: 'motion_sensor', name: 'Motion Sensor' },
+  { label_id: 'sockets', name: 'Sockets' },
+  { label_id: 'sensor', name: 'Sensor' },
+];
+
+const SEED: Seed[] = [
+  {
+    entityId: 'light.living_room_lamp',
+    state: 'on',
+    attributes: { friendly_name: 'Living Room Lamp', brightness: 180, color_mode: 'brightness' },
+    device: 'Living Room Lamp',
+    area: 'living_room',
+    label: 'light',
+  },
+  {
+    entityId: 'light.kitchen_ceiling',
+    state: 'off',
+    attributes: { friendly_name: 'Kitchen Ceiling', color_mode: 'brightness' },
+    device: 'Kitchen Ceiling',
+    area: 'kitchen',
+    label: 'light',
+  },
+  {
+    entityId: 'light.bedroom_lamp',
+    state: 'off',
+    attributes: { friendly_name: 'Bedroom Lamp', color_mode: 'brightness' },
+    device: 'Bedroom Lamp',
+    area: 'bedroom',
+    label: 'light',
+  },
+  {
+    entityId: 'cover.living_room_blind',
+    state: 'open',
+    attributes: { friendly_name: 'Living Room Blind', current_position: 100, device_class: 'blind' },
+    device: 'Living Room Blind',
+    area: 'living_room',
+    label: 'blind',
+  },
+  {
+    entityId: 'cover.bedroom_blind',
+    state: 'closed',
+    attributes: { friendly_name: 'Bedroom Blind', current_position: 0, device_class: 'blind' },
+    device: 'Bedroom Blind',
+    area: 'bedroom',
+    label: 'blind',
+  },
+  {
+    entityId: 'climate.boiler',
+    state: 'heat',
+    attributes: {
+      friendly_name: 'Boiler',
+      temperature: 20,
+      current_temperature: 19.5,
+      min_temp: 7,
+      max_temp: 30,
+      target_temp_step: 0.5,
+      hvac_modes: ['off', 'heat'],
+      hvac_action: 'heating',
+    },
+    device: 'Boiler',
+    area: 'hallway',
+    label: 'boiler',
+  },
+  {
+    entityId: 'media_player.living_room_tv',
+    state: 'off',
+    attributes: {
+      friendly_name: 'Living Room TV',
+      volume_level: 0.3,
+      is_volume_muted: false,
+      source_list: ['TV', 'HDMI 1', 'HDMI 2'],
+      source: 'TV',
+      device_class: 'tv',
+    },
+    device: 'Living Room TV',
+    area: 'living_room',
+    label: 'tv',
+  },
+  {
+    entityId: 'media_player.kitchen_speaker',
+    state: 'paused',
+    attributes: {
+      friendly_name: 'Kitchen Speaker',
+      volume_level: 0.4,
+      is_volume_muted: false,
+      media_title: PLAYLIST[0],
+      media_artist: 'Dinodia Radio',
+      device_class: 'speaker',
+    },
+    device: 'Kitchen Speaker',
+    area: 'kitchen',
+    label: 'speaker',
+  },
+  {
+    entityId: 'binary_sensor.hallway_motion',
+    state: 'off',
+    attributes: { friendly_name: 'Hallway Motion', device_class: 'motion' },
+    device: 'Hallway Motion Sensor',
+    area: 'hallway',
+    label: 'motion_sensor',
+  },
+  {
+    entityId: 'sensor.hallway_motion_battery',
+    state: '76',
+    attributes: {
+      friendly_name: 'Hallway Motion Battery',
+      device_class: 'battery',
+      unit_of_measurement: '%',
+      state_class: 'measurement',
+    },
+    device: 'Hallway Motion Sensor',
+    area: 'hallway',
+  },
+  {
+    entityId: 'sensor.living_room_temperature',
+    state: '21.3',
+    attributes: {
+      friendly_name: 'Living Room Temperature',
+      device_class: 'temperature',
+      unit_of_measurement: '°C',
+      state_class: 'measurement',
+    },
+    device: 'Living Room Climate Sensor',
+    area: 'living_room',
+    label: 'sensor',
+  },
+  {
+    entityId: 'switch.kitchen_socket',
+    state: 'on',
+    attributes: { friendly_name: 'Kitchen Socket' },
+    device: 'Kitchen Socket',
+    area: 'kitchen',
+    label: 'sockets',
+  },
+  {
+    entityId: 'sensor.kitchen_socket_energy',
+    state: '134.2',
+    attributes: {
+      friendly_name: 'Kitchen Socket Energy',
+      device_class: 'energy',
+      unit_of_measurement: 'kWh',
+      state_class: 'total_increasing',
+    },
+    device: 'Kitchen Socket',
+    area: 'kitchen',
+  },
+  {
+    entityId: 'script.global_blind_controller',
+    state: 'off',
+    attributes: { friendly_name: 'Global Blind Controller', mode: 'parallel' },
+  },
+  {
+    entityId: 'sun.sun',
+    state: 'above_horizon',
+    attributes: { friendly_name: 'Sun', elevation: 32.4, rising: false },
+  },
+  {
+    entityId: 'person.alex',
+    state: 'home',
+    attributes: { friendly_name: 'Alex', source: 'device_tracker.alex_phone' },
+  },
+  {
+    entityId: 'device_tracker.guest_phone',
+    state: 'not_home',
+    attributes: { friendly_name: 'Guest Phone', source_type: 'router' },
+  },
+  {
+    entityId: 'zone.home',
+    state: '1',
+    attributes: { friendly_name: 'Home', latitude: 51.5072, longitude: -0.1276, radius: 100 },
+  },
+  {
+    entityId: 'zone.work',
+    state: '0',
+    attributes: { friendly_name: 'Work', latitude: 51.5155, longitude: -0.0922, radius: 150 },
+  },
+];
+
+const listeners = new Set<(event: FakeHaEvent) => void>();
+const blindTimers = new Map<string, ReturnType<typeof setInterval>>();
+let nextContextId = 1;
+let model: FakeModel = createModel();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function contextId() {
+  nextContextId += 1;
+  return `demo${Date.now().toString(16)}${nextContextId}`;
+}
+
+function slugify(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function makeState(entityId: string, state: string, attributes: Record<string, unknown>): FakeState {
+  const time = nowIso();
+  return {
+    entity_id: entityId,
+    state,
+    attributes: { ...attributes },
+    last_changed: time,
+    last_updated: time,
+    context: { id: contextId(), parent_id: null, user_id: null },
+  };
+}
+
+function createModel(): FakeModel {
+  const next: FakeModel = {
+    states: new Map(),
+    areas: AREAS.map((area) => ({ ...area })),
+    labels: LABELS.map((label) => ({ ...label })),
+    devices: [],
+    entities: [],
+    automations: new Map(),
+    scenes: new Map(),
+    traces: new Map(),
+    flows: new Map(),
+  };
+  const deviceIds = new Map<string, string>();
+  for (const seed of SEED) {
+    next.states.set(seed.entityId, makeState(seed.entityId, seed.state, seed.attributes));
+    let deviceId: string | null = null;
+    if (seed.device) {
+      deviceId = deviceIds.get(seed.device) ?? `demo_${slugify(seed.device)}`;
+      if (!deviceIds.has(seed.device)) {
+        deviceIds.set(seed.device, deviceId);
+        next.devices.push({
+          id: deviceId,
+          name: seed.device,
+          area_id: seed.area ?? null,
+          labels: [],
+          manufacturer: 'Dinodia Demo',
+          model: seed.entityId.split('.')[0],
+        });
+      }
+    }
+    next.entities.push({
+      entity_id: seed.entityId,
+      device_id: deviceId,
+      area_id: null,
+      labels: seed.label ? [seed.label] : [],
+      name: null,
+      platform: 'demo',
+    });
+  }
+  return next;
+}
+
+function fire(eventType: string, data: Record<string, unknown>) {
+  const event: FakeHaEvent = { event_type: eventType, data, origin: 'LOCAL', time_fired: nowIso() };
+  listeners.forEach((listener) => listener(event));
+}
+
+function setState(entityId: string, state: string, attributes?: Record<string, unknown>): FakeState {
+  const old = model.states.get(entityId) ?? null;
+  const nextAttributes = attributes ?? old?.attributes ?? {};
+  const time = nowIso();
+  const next: FakeState = {
+    entity_id: entityId,
+    state,
+    attributes: { ...nextAttributes },
+    last_changed: old && old.state === state ? old.last_changed : time,
+    last_updated: time,
+    context: { id: contextId(), parent_id: null, user_id: null },
+  };
+  model.states.set(entityId, next);
+  fire('state_changed', { entity_id: entityId, old_state: old, new_state: next });
+  return next;
+}
+
+function patchAttributes(entityId: string, patch: Record<string, unknown>, state?: string) {
+  const current = model.states.get(entityId);
+  if (!current) return;
+  const attributes = { ...current.attributes, ...patch };
+  Object.keys(patch).forEach((key) => {
+    if (patch[key] === undefined) delete attributes[key];
+  });
+  setState(entityId, state ?? current.state, attributes);
+}
+
+function requireEntity(entityId: string): FakeState {
+  const state = model.states.get(entityId);
+  if (!state) throw fakeHaError(400, `Entity ${entityId} not found.`);
+  return state;
+}
+
+function fakeHaError(status: number, message: string): Error {
+  const err = new Error(message) as Error & { status: number };
+  err.status = status;
+  return err;
+}
+
+function targetEntityIds(data: Record<string, unknown>): string[] {
+  const target = (data.target ?? {}) as Record<string, unknown>;
+  const raw = data.entity_id ?? target.entity_id;
+  const ids = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  return ids.map((id) => String(id).trim()).filter(Boolean);
+}
+
+function readNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function stopBlind(entityId: string) {
+  const timer = blindTimers.get(entityId);
+  if (timer) clearInterval(timer);
+  blindTimers.delete(entityId);
+}
+
+// Covers report opening/closing and step towards the target like a real motor would.
+function moveBlind(entityId: string, target: number, travelSeconds: number) {
+  const current = requireEntity(entityId);
+  stopBlind(entityId);
+  const start = readNumber(current.attributes.current_position) ?? (current.state === 'open' ? 100 : 0);
+  const goal = clamp(Math.round(target), 0, 100);
+  if (start === goal) {
+    patchAttributes(entityId, { current_position: goal }, goal > 0 ? 'open' : 'closed');
+    return;
+  }
+  const step = Math.max(1, Math.round((100 / Math.max(1, travelSeconds)) * (BLIND_TICK_MS / 1000)));
+  const direction = goal > start ? 1 : -1;
+  let position = start;
+  patchAttributes(entityId, {}, direction > 0 ? 'opening' : 'closing');
+  const timer = setInterval(() => {
+    position = direction > 0 ? Math.min(goal, position + step) : Math.max(goal, position - step);
+    if (position === goal) {
+      stopBlind(entityId);
+      patchAttributes(entityId, { current_position: goal }, goal > 0 ? 'open' : 'closed');
+      return;
+    }
+    patchAttributes(entityId, { current_position: position });
+  }, BLIND_TICK_MS);
+  blindTimers.set(entityId, timer);
+}
+
+function setOnOff(entityId: string, on: boolean) {
+  const current = requireEntity(entityId);
+  const domain = entityId.split('.')[0];
+  switch (domain) {
+    case 'light':
+      if (on) {
+        const brightness = readNumber(current.attributes.brightness) ?? 255;
+        patchAttributes(entityId, { brightness }, 'on');
+      } else {
+        patchAttributes(entityId, { brightness: undefined }, 'off');
+      }
+      return;
+    case 'media_player':
+      setState(entityId, on ? (current.attributes.device_class === 'tv' ? 'on' : 'idle') : 'off');
+      return;
+    case 'climate':
+      patchAttributes(entityId, { hvac_action: on ? 'heating' : 'off' }, on ? 'heat' : 'off');
+      return;
+    case 'cover':
+      moveBlind(entityId, on ? 100 : 0, DEFAULT_TRAVEL_SECONDS);
+      return;
+    case 'switch':
+    case 'input_boolean':
+    case 'automation':
+    case 'fan':
+      setState(entityId, on ? 'on' : 'off');
+      return;
+    default:
+      throw fakeHaError(400, `Entity ${entityId} does not support turning on or off.`);
+  }
+}
+
+function isOn(state: FakeState) {
+  const domain = state.entity_id.split('.')[0];
+  if (domain === 'media_player') return !MEDIA_OFF_STATES.has(state.state);
+  if (domain === 'cover') return state.state !== 'closed';
+  if (domain === 'climate') return state.state !== 'off';
+  return state.state === 'on';
+}
+
+function callLight(service: string, entityId: string, data: Record<string, unknown>) {
+  const current = requireEntity(entityId);
+  if (service === 'turn_off') return setOnOff(entityId, false);
+  if (service === 'toggle') return setOnOff(entityId, !isOn(current));
+  const pct = readNumber(data.brightness_pct);
+  const raw = readNumber(data.brightness);
+  const stepPct = readNumber(data.brightness_step_pct);
+  let brightness = readNumber(current.attributes.brightness) ?? 255;
+  if (pct !== null) brightness = Math.round((clamp(pct, 0, 100) / 100) * 255);
+  else if (raw !== null) brightness = clamp(Math.round(raw), 0, 255);
+  else if (stepPct !== null) brightness = clamp(Math.round(brightness + (stepPct / 100) * 255), 0, 255);
+  if (brightness <= 0) return setOnOff(entityId, false);
+  patchAttributes(entityId, { brightness }, 'on');
+}
+
+function callCover(service: string, entityId: string, data: Record<string, unknown>) {
+  const current = requireEntity(entityId);
+  switch (service) {
+    case 'open_cover':
+      return moveBlind(entityId, 100, DEFAULT_TRAVEL_SECONDS);
+    case 'close_cover':
+      return moveBlind(entityId, 0, DEFAULT_TRAVEL_SECONDS);
+    case 'set_cover_position':
+      return moveBlind(entityId, readNumber(data.position) ?? 0, DEFAULT_TRAVEL_SECONDS);
+    case 'toggle':
+      return moveBlind(entityId, isOn(current) ? 0 : 100, DEFAULT_TRAVEL_SECONDS);
+    case 'stop_cover': {
+      stopBlind(entityId);
+      const position = readNumber(current.attributes.current_position) ?? 0;
+      patchAttributes(entityId, {}, position > 0 ? 'open' : 'closed');
+      return;
+    }
+    default:
+      throw fakeHaError(400, `Service cover.${service} not found.`);
+  }
+}
+
+function nextTrack(current: FakeState, offset: number) {
+  const title = String(current.attributes.media_title ?? PLAYLIST[0]);
+  const index = Math.max(0, PLAYLIST.indexOf(title));
+  return PLAYLIST[(index + offset + PLAYLIST.length) % PLAYLIST.length];
+}
+
+function callMediaPlayer(service: string, entityId: string, data: Record<string, unknown>) {
+  const current = requireEntity(entityId);
+  const volume = readNumber(current.attributes.volume_level) ?? 0;
+  switch (service) {
+    case 'turn_on':
+    case 'turn_off':
+      return setOnOff(entityId, service === 'turn_on');
+    case 'toggle':
+      return setOnOff(entityId, !isOn(current));
+    case 'media_play':
+      return setState(entityId, 'playing');
+    case 'media_pause':
+      return setState(entityId, 'paused');
+    case 'media_play_pause':
+      return setState(entityId, current.state === 'playing' ? 'paused' : 'playing');
+    case 'media_stop':
+      return setState(entityId, 'idle');
+    case 'media_next_track':
+      return patchAttributes(entityId, { media_title: nextTrack(current, 1) });
+    case 'media_previous_track':
+      return patchAttributes(entityId, { media_title: nextTrack(current, -1) });
+    case 'volume_up':
+      return patchAttributes(entityId, { volume_level: clamp(volume + VOLUME_STEP, 0, 1) });
+    case 'volume_down':
+      return patchAttributes(entityId, { volume_level: clamp(volume - VOLUME_STEP, 0, 1) });
+    case 'volume_set':
+      return patchAttributes(entityId, { volume_level: clamp(readNumber(data.volume_level) ?? volume, 0, 1) });
+    case 'volume_mute':
+      return patchAttributes(entityId, { is_volume_muted: data.is_volume_muted === true });
+    case 'select_source':
+      return patchAttributes(entityId, { source: data.source });
+    default:
+      throw fakeHaError(400, `Service media_player.${service} not found.`);
+  }
+}
+
+function callClimate(service: string, entityId: string, data: Record<string, unknown>) {
+  const current = requireEntity(entityId);
+  switch (service) {
+    case 'set_temperature': {
+      const target = readNumber(data.temperature);
+      if (target === null) throw fakeHaError(400, 'temperature is required.');
+      const min = readNumber(current.attributes.min_temp) ?? 7;
+      const max = readNumber(current.attributes.max_temp) ?? 35;
+      return patchAttributes(entityId, { temperature: clamp(target, min, max) });
+    }
+    case 'set_hvac_mode': {
+      const mode = String(data.hvac_mode ?? '');
+      const modes = Array.isArray(current.attributes.hvac_modes) ? current.attributes.hvac_modes : [];
+      if (!modes.includes(mode)) throw fakeHaError(400, `hvac_mode ${mode} is not supported.`);
+      return patchAttributes(entityId, { hvac_action: mode === 'off' ? 'off' : 'heating' }, mode);
+    }
+    case 'turn_on':
+    case 'turn_off':
+      return setOnOff(entityId, service === 'turn_on');
+    default:
+      throw fakeHaError(400, `Service climate.${service} not found.`);
+  }
+}
+
+function callGeneric(domain: string, service: string, entityId: string) {
+  const current = requireEntity(entityId);
+  if (service === 'turn_on' || service === 'turn_off') {
+    return setOnOff(entityId, service === 'turn_on');
+  }
+  if (service === 'toggle') return setOnOff(entityId, !isOn(current));
+  throw fakeHaError(400, `Service ${domain}.${service} not found.`);
+}
+
+function automationEntityId(config: Record<string, unknown>, id: string) {
+  for (const [entityId, state] of model.states) {
+    if (entityId.startsWith('automation.') && state.attributes.id === id) return entityId;
+  }
+  const alias = typeof config.alias === 'string' && config.alias.trim() ? config.alias : id;
+  let entityId = `automation.${slugify(alias) || slugify(id)}`;
+  let suffix = 2;
+  while (model.states.has(entityId)) {
+    entityId = `automation.${slugify(alias)}_${suffix}`;
+    suffix += 1;
+  }
+  return entityId;
+}
+
+function listOf(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.filter((item) => !!item && typeof item === 'object');
+  return value && typeof value === 'object' ? [value as Record<string, unknown>] : [];
+}
+
+// Runs the service-call steps of an automation; conditions, delays and waits are not simulated.
+function runAutomationActions(actions: unknown, steps: FakeTraceStep[], path = 'action') {
+  listOf(actions).forEach((action, idx) => {
+    const stepPath = `${path}/${idx}`;
+    const nestedKey = action.parallel ? 'parallel' : action.sequence ? 'sequence' : null;
+    if (nestedKey) {
+      steps.push({ path: stepPath, timestamp: nowIso() });
+      runAutomationActions(action[nestedKey], steps, `${stepPath}/${nestedKey}`);
+      return;
+    }
+    const step: FakeTraceStep = { path: stepPath, timestamp: nowIso() };
+    steps.push(step);
+    const call = typeof action.action === 'string' ? action.action : action.service;
+    if (typeof call !== 'string' || !call.includes('.')) return;
+    const [domain, service] = call.split('.');
+    const data: Record<string, unknown> = {
+      ...((action.data ?? {}) as Record<string, unknown>),
+      ...(action.target ? { target: action.target } : {}),
+    };
+    // The only templates the app compiles are relative steps, so render just those.
+    Object.entries(data).forEach(([key, value]) => {
+      const relative = parseRelativeStepTemplate(value);
+      if (relative) data[key] = resolveRelativeStep(relative, model.states.get(relative.entityId)?.attributes ?? {});
+    });
+    step.result = { params: { domain, service, service_data: data } };
+    try {
+      callService(domain, service, data);
+    } catch (err) {
+      // A failing step does not stop the demo automation, matching continue_on_error.
+      step.error = err instanceof Error ? err.message : String(err);
+    }
+  });
+}
+
+function recordTrace(id: string, config: Record<string, unknown>, trigger: string) {
+  const start = nowIso();
+  const steps: FakeTraceStep[] = [{ path: 'trigger', timestamp: start }];
+  runAutomationActions(config.actions ?? config.action, steps);
+  const error = steps.find((step) => step.error)?.error;
+  const trace: FakeTrace = { run_id: contextId(), item_id: id, trigger, config, steps, start, finish: nowIso(), error };
+  model.traces.set(id, [trace, ...(model.traces.get(id) ?? [])].slice(0, TRACES_KEPT));
+}
+
+function traceSummary(trace: FakeTrace) {
+  return {
+    domain: 'automation',
+    item_id: trace.item_id,
+    run_id: trace.run_id,
+    state: 'stopped',
+    script_execution: trace.error ? 'error' : 'finished',
+    timestamp: { start: trace.start, finish: trace.finish },
+    last_step: trace.steps[trace.steps.length - 1]?.path ?? null,
+    trigger: trace.trigger,
+    ...(trace.error ? { error: trace.error } : {}),
+  };
+}
+
+function traceDetail(trace: FakeTrace) {
+  const steps: Record<string, Record<string, unknown>[]> = {};
+  trace.steps.forEach(({ path, ...entry }) => {
+    steps[path] = [...(steps[path] ?? []), { path, ...entry }];
+  });
+  return { ...traceSummary(trace), trace: steps, config: trace.config };
+}
+
+function callAutomation(service: string, entityId: string) {
+  const current = requireEntity(entityId);
+  if (service === 'trigger') {
+    const id = String(current.attributes.id ?? '');
+    const config = model.automations.get(id);
+    if (config) recordTrace(id, config, 'triggered by action automation.trigger');
+    patchAttributes(entityId, { last_triggered: nowIso() });
+    fire('automation_triggered', { entity_id: entityId, name: current.attributes.friendly_name });
+    return;
+  }
+  callGeneric('automation', service, entityId);
+}
+
+function callScript(service: string, data: Record<string, unknown>) {
+  if (service === 'global_blind_controller') {
+    const entityId = String(data.target_cover ?? '');
+    const target = readNumber(data.target_position);
+    if (!entityId || target === null) {
+      throw fakeHaError(400, 'target_cover and target_position are required.');
+    }
+    const travel = readNumber(data.travel_seconds) ?? DEFAULT_TRAVEL_SECONDS;
+    moveBlind(entityId, target, clamp(travel, 1, 120));
+    return;
+  }
+  if (service === 'turn_on' || service === 'turn_off') return;
+  throw fakeHaError(400, `Service script.${service} not found.`);
+}
+
+// Moves each entity towards its scene entry using the same handlers the service calls use.
+function reproduceSceneEntities(entities: unknown) {
+  if (!entities || typeof entities !== 'object') throw fakeHaError(400, 'entities is required.');
+  for (const [entityId, raw] of Object.entries(entities as Record<string, unknown>)) {
+    const entry = (raw && typeof raw === 'object' ? raw : { state: raw }) as Record<string, unknown>;
+    const state = String(entry.state ?? '');
+    const on = !['off', 'closed', 'standby'].includes(state);
+    try {
+      switch (entityId.split('.')[0]) {
+        case 'light':
+          if (on && readNumber(entry.brightness) !== null) callLight('turn_on', entityId, entry);
+          else setOnOff(entityId, on);
+          break;
+        case 'cover':
+          callCover('set_cover_position', entityId, { position: readNumber(entry.current_position) ?? (on ? 100 : 0) });
+          break;
+        case 'climate':
+          setOnOff(entityId, on);
+          if (on && readNumber(entry.temperature) !== null) callClimate('set_temperature', entityId, entry);
+          break;
+        case 'media_player':
+          setOnOff(entityId, on);
+          if (on && readNumber(entry.volume_level) !== null) callMediaPlayer('volume_set', entityId, entry);
+          break;
+        default:
+          setOnOff(entityId, on);
+      }
+    } catch {
+      // Home Assistant skips entities it cannot reproduce and applies the rest.
+    }
+  }
+}
+
+function callScene(service: string, data: Record<string, unknown>) {
+  if (service === 'apply') return reproduceSceneEntities(data.entities);
+  if (service !== 'turn_on') throw fakeHaError(400, `Service scene.${service} not found.`);
+  const entityIds = targetEntityIds(data);
+  if (entityIds.length === 0) throw fakeHaError(400, 'entity_id is required.');
+  entityIds.forEach((entityId) => {
+    const current = requireEntity(entityId);
+    const config = model.scenes.get(String(current.attributes.id ?? ''));
+    if (config) reproduceSceneEntities(config.entities);
+    setState(entityId, nowIso(), current.attributes);
+  });
+}
+
+/**
+ * Call a service the way POST /api/services/<domain>/<service> would. Returns the states that
+ * changed, as Home Assistant does.
+ */
+export function callService(domain: string, service: string, data: Record<string, unknown> = {}) {
+  const changed: FakeState[] = [];
+  const collect = (event: FakeHaEvent) => {
+    if (event.event_type !== 'state_changed') return;
+    const next = event.data.new_state as FakeState | null;
+    if (next) changed.push(next);
+  };
+  listeners.add(collect);
+  try {
+    if (domain === 'script') {
+      callScript(service, data);
+    } else if (domain === 'scene') {
+      callScene(service, data);
+    } else if (domain === 'cloud' || domain === 'persistent_notification') {
+      // Nothing to do in the demo home.
+    } else {
+      const entityIds = targetEntityIds(data);
+      if (entityIds.length === 0) throw fakeHaError(400, 'entity_id is required.');
+      entityIds.forEach((entityId) => {
+        const entityDomain = entityId.split('.')[0];
+        if (domain !== 'homeassistant' && domain !== entityDomain) {
+          throw fakeHaError(400, `Entity ${entityId} is not a ${domain} entity.`);
+        }
+        switch (entityDomain === 'automation' ? 'automation' : domain) {
+          case 'light':
+            return callLight(service, entityId, data);
+          case 'cover':
+            return callCover(service, entityId, data);
+          case 'media_player':
+            return callMediaPlayer(service, entityId, data);
+          case 'climate':
+            return callClimate(service, entityId, data);
+          case 'automation':
+            return callAutomation(service, entityId);
+          default:
+            return callGeneric(domain, service, entityId);
+        }
+      });
+    }
+  } finally {
+    listeners.delete(collect);
+  }
+  fire('call_service', { domain, service, service_data: data });
+  return changed;
+}
+
+function saveAutomation(id: string, config: Record<string, unknown>) {
+  const stored: Record<string, unknown> = { ...config, id };
+  const existed = model.automations.has(id);
+  model.automations.set(id, stored);
+  const entityId = automationEntityId(stored, id);
+  const previous = model.states.get(entityId);
+  setState(entityId, previous?.state ?? 'on', {
+    ...(previous?.attributes ?? {}),
+    id,
+    friendly_name: typeof stored.alias === 'string' ? stored.alias : id,
+    mode: typeof stored.mode === 'string' ? stored.mode : 'single',
+    current: 0,
+  });
+  if (!existed) {
+    model.entities.push({
+      entity_id: entityId,
+      device_id: null,
+      area_id: null,
+      labels: [],
+      name: null,
+      platform: 'automation',
+    });
+    fire('entity_registry_updated', { action: 'create', entity_id: entityId });
+  }
+}
+
+function deleteAutomation(id: string) {
+  if (!model.automations.delete(id)) throw fakeHaError(404, 'Resource not found');
+  model.traces.delete(id);
+  for (const [entityId, state] of Array.from(model.states)) {
+    if (!entityId.startsWith('automation.') || state.attributes.id !== id) continue;
+    model.states.delete(entityId);
+    model.entities = model.entities.filter((entity) => entity.entity_id !== entityId);
+    fire('state_changed', { entity_id: entityId, old_state: state, new_state: null });
+    fire('entity_registry_updated', { action: 'remove', entity_id: entityId });
+  }
+}
+
+function sceneEntityId(config: Record<string, unknown>, id: string) {
+  for (const [entityId, state] of model.states) {
+    if (entityId.startsWith('scene.') && state.attributes.id === id) return entityId;
+  }
+  const name = typeof config.name === 'string' && config.name.trim() ? config.name : id;
+  let entityId = `scene.${slugify(name) || slugify(id)}`;
+  let suffix = 2;
+  while (model.states.has(entityId)) {
+    entityId = `scene.${slugify(name)}_${suffix}`;
+    suffix += 1;
+  }
+  return entityId;
+}
+
+function saveScene(id: string, config: Record<string, unknown>) {
+  const stored: Record<string, unknown> = { ...config, id };
+  const existed = model.scenes.has(id);
+  model.scenes.set(id, stored);
+  const entityId = sceneEntityId(stored, id);
+  const previous = model.states.get(entityId);
+  setState(entityId, previous?.state ?? 'unknown', {
+    id,
+    friendly_name: typeof stored.name === 'string' ? stored.name : id,
+    entity_id: Object.keys((stored.entities ?? {}) as Record<string, unknown>),
+  });
+  if (!existed) {
+    model.entities.push({
+      entity_id: entityId,
+      device_id: null,
+      area_id: null,
+      labels: [],
+      name: null,
+      platform: 'homeassistant',
+    });
+    fire('entity_registry_updated', { action: 'create', entity_id: entityId });
+  }
+}
+
+function deleteScene(id: string) {
+  if (!model.scenes.delete(id)) throw fakeHaError(404, 'Resource not found');
+  for (const [entityId, state] of Array.from(model.states)) {
+    if (!entityId.startsWith('scene.') || state.attributes.id !== id) continue;
+    model.states.delete(entityId);
+    model.entities = model.entities.filter((entity) => entity.entity_id !== entityId);
+    fire('state_changed', { entity_id: entityId, old_state: state, new_state: null });
+    fire('entity_registry_updated', { action: 'remove', entity_id: entityId });
+  }
+}
+
+function areaName(entity: FakeEntity | undefined) {
+  if (!entity) return null;
+  const device = entity.device_id ? model.devices.find((d) => d.id === entity.device_id) : undefined;
+  const areaId = entity.area_id ?? device?.area_id ?? null;
+  return areaId ? model.areas.find((area) => area.area_id === areaId)?.name ?? null : null;
+}
+
+// Only the metadata template the app renders (area_name/device_id/labels per state) is supported.
+function renderTemplate(template: string) {
+  if (!template.includes('area_name(s.entity_id)')) {
+    throw fakeHaError(400, 'The demo hub can only render the device metadata template.');
+  }
+  return Array.from(model.states.keys()).map((entityId) => {
+    const entity = model.entities.find((e) => e.entity_id === entityId);
+    return {
+      entity_id: entityId,
+      area_name: areaName(entity),
+      device_id: entity?.device_id ?? null,
+      labels: (entity?.labels ?? []).map(
+        (labelId) => model.labels.find((label) => label.label_id === labelId)?.name ?? labelId
+      ),
+    };
+  });
+}
+
+// A Matter-style flow: ask for a pairing code, "commission" for a few seconds, then add a light.
+function advanceFlow(flow: FakeFlow, userInput: Record<string, unknown> | undefined) {
+  if (flow.step === 'user') {
+    const code = typeof userInput?.code === 'string' ? userInput.code.replace(/[^0-9]/g, '') : '';
+    if (!userInput || Object.keys(userInput).length === 0) return flowForm(flow);
+    if (code.length < 8) return flowForm(flow, { code: 'The pairing code should have at least 8 digits.' });
+    flow.step = 'commissioning';
+    flow.readyAt = Date.now() + COMMISSIONING_MS;
+  }
+  if (Date.now() < flow.readyAt) {
+    return {
+      type: 'progress',
+      flow_id: flow.flow_id,
+      handler: flow.handler,
+      step_id: 'commission',
+      progress_action: 'wait',
+    };
+  }
+  model.flows.delete(flow.flow_id);
+  const count = model.devices.filter((d) => d.manufacturer === 'Dinodia Demo Matter').length + 1;
+  const name = `Matter Light ${count}`;
+  const deviceId = `demo_matter_${Date.now().toString(16)}`;
+  const entityId = `light.${slugify(name)}`;
+  model.devices.push({
+    id: deviceId,
+    name,
+    area_id: null,
+    labels: [],
+    manufacturer: 'Dinodia Demo Matter',
+    model: 'light',
+  });
+  model.entities.push({
+    entity_id: entityId,
+    device_id: deviceId,
+    area_id: null,
+    labels: [],
+    name: null,
+    platform: 'matter',
+  });
+  setState(entityId, 'off', { friendly_name: name, color_mode: 'brightness' });
+  fire('device_registry_updated', { action: 'create', device_id: deviceId });
+  fire('entity_registry_updated', { action: 'create', entity_id: entityId });
+  return { type: 'create_entry', flow_id: flow.flow_id, handler: flow.handler, title: name };
+}
+
+function flowForm(flow: FakeFlow, errors?: Record<string, string>) {
+  return {
+    type: 'form',
+    flow_id: flow.flow_id,
+    handler: flow.handler,
+    step_id: 'user',
+    data_schema: [{ name: 'code', type: 'string', required: true }],
+    errors: errors ?? {},
+    description_placeholders: {},
+  };
+}
+
+function parseBody(body: unknown): Record<string, unknown> {
+  if (typeof body !== 'string' || body.trim().length === 0) return {};
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    throw fakeHaError(400, 'Invalid JSON specified.');
+  }
+}
+
+function handleRest(method: string, path: string, body: unknown): unknown {
+  const data = () => parseBody(body);
+  if (path === '/api/' || path === '/api') return { message: 'API running.' };
+  if (path === '/api/config') return getConfig();
+  if (path === '/api/states' && method === 'GET') return Array.from(model.states.values());
+  let match = path.match(/^\/api\/states\/(.+)$/);
+  if (match && method === 'GET') {
+    const state = model.states.get(decodeURIComponent(match[1]));
+    if (!state) throw fakeHaError(404, 'Entity not found.');
+    return state;
+  }
+  match = path.match(/^\/api\/services\/([^/]+)\/([^/]+)$/);
+  if (match && method === 'POST') return callService(match[1], match[2], data());
+  if (path === '/api/template' && method === 'POST') {
+    return renderTemplate(String(data().template ?? ''));
+  }
+  if (path === '/api/config/config_entries/flow' && method === 'POST') {
+    const handler = String(data().handler ?? '');
+    if (handler !== 'matter') throw fakeHaError(400, `Integration ${handler} not found.`);
+    const flow: FakeFlow = { flow_id: contextId(), handler, step: 'user', readyAt: 0 };
+    model.flows.set(flow.flow_id, flow);
+    return flowForm(flow);
+  }
+  match = path.match(/^\/api\/config\/config_entries\/flow\/([^/]+)$/);
+  if (match) {
+    const flow = model.flows.get(decodeURIComponent(match[1]));
+    if (!flow) throw fakeHaError(404, 'Invalid flow specified');
+    if (method === 'DELETE') {
+      model.flows.delete(flow.flow_id);
+      return { message: 'Flow aborted' };
+    }
+    const input = method === 'POST' ? (data().user_input as Record<string, unknown> | undefined) : undefined;
+    return advanceFlow(flow, input);
+  }
+  if (path === '/api/config/automation' && method === 'GET') {
+    return Array.from(model.automations.values());
+  }
+  match = path.match(/^\/api\/config\/automation\/config\/([^/]+)$/);
+  if (match) {
+    const id = decodeURIComponent(match[1]);
+    if (method === 'GET') {
+      const config = model.automations.get(id);
+      if (!config) throw fakeHaError(404, 'Resource not found');
+      return config;
+    }
+    if (method === 'POST') {
+      saveAutomation(id, data());
+      return { result: 'ok' };
+    }
+    if (method === 'DELETE') {
+      deleteAutomation(id);
+      return { result: 'ok' };
+    }
+  }
+  match = path.match(/^\/api\/config\/scene\/config\/([^/]+)$/);
+  if (match) {
+    const id = decodeURIComponent(match[1]);
+    if (method === 'GET') {
+      const config = model.scenes.get(id);
+      if (!config) throw fakeHaError(404, 'Resource not found');
+      return config;
+    }
+    if (method === 'POST') {
+      saveScene(id, data());
+      return { result: 'ok' };
+    }
+    if (method === 'DELETE') {
+      deleteScene(id);
+      return { result: 'ok' };
+    }
+  }
+  throw fakeHaError(404, `${method} ${path} is not available on the demo hub.`);
+}
+
+/** Serve a REST request against the fake hub. */
+export function handleFakeHaRequest(method: string, path: string, body?: unknown): FakeHaResponse {
+  const cleanPath = path.split('?')[0];
+  try {
+    return { status: 200, body: handleRest(method.toUpperCase(), cleanPath, body) };
+  } catch (err) {
+    const status = typeof (err as { status?: unknown }).status === 'number' ? (err as { status: number }).status : 500;
+    return { status, body: { message: err instanceof Error ? err.message : 'Demo hub error' } };
+  }
+}
+
+function getConfig() {
+  return {
+    location_name: 'Dinodia Showroom',
+    version: '2024.10.0',
+    time_zone: 'Europe/London',
+    latitude: 51.5072,
+    longitude: -0.1276,
+    elevation: 11,
+    unit_system: { temperature: '°C', length: 'km', mass: 'g', volume: 'L' },
+    components: ['automation', 'climate', 'cover', 'light', 'matter', 'media_player', 'script', 'sun'],
+    external_url: null,
+    internal_url: null,
+    state: 'RUNNING',
+  };
+}
+
+function updateRegistryEntry<T extends { labels: string[]; area_id: string | null }>(
+  entry: T,
+  msg: Record<string, unknown>
+) {
+  if ('area_id' in msg) {
+    const areaId = msg.area_id === null ? null : String(msg.area_id);
+    if (areaId && !model.areas.some((area) => area.area_id === areaId)) {
+      throw fakeHaError(400, `Area ${areaId} not found.`);
+    }
+    entry.area_id = areaId;
+  }
+  if (Array.isArray(msg.labels)) {
+    entry.labels = msg.labels.map(String).filter((id) => model.labels.some((label) => label.label_id === id));
+  }
+}
+
+/** Answer a WebSocket command (anything other than event subscriptions) against the fake hub. */
+export function handleFakeHaCommand(type: string, msg: Record<string, unknown>): unknown {
+  switch (type) {
+    case 'get_states':
+      return Array.from(model.states.values());
+    case 'get_config':
+      return getConfig();
+    case 'call_service': {
+      const serviceData = (msg.service_data ?? {}) as Record<string, unknown>;
+      callService(String(msg.domain ?? ''), String(msg.service ?? ''), {
+        ...serviceData,
+        ...(msg.target ? { target: msg.target } : {}),
+      });
+      return { context: { id: contextId(), parent_id: null, user_id: null } };
+    }
+    case 'config/area_registry/list':
+      return model.areas.map((area) => ({ ...area, aliases: [], labels: [], floor_id: null }));
+    case 'config/label_registry/list':
+      return model.labels.map((label) => ({ ...label, color: null, icon: null, description: null }));
+    case 'config/device_registry/list':
+      return model.devices.map((device) => ({ ...device, labels: [...device.labels] }));
+    case 'config/entity_registry/list':
+      return model.entities.map((entity) => ({ ...entity, labels: [...entity.labels] }));
+    case 'config/device_registry/update': {
+      const device = model.devices.find((d) => d.id === msg.device_id);
+      if (!device) throw fakeHaError(404, 'Device not found');
+      updateRegistryEntry(device, msg);
+      fire('device_registry_updated', { action: 'update', device_id: device.id });
+      return { ...device };
+    }
+    case 'config/entity_registry/update': {
+      const entity = model.entities.find((e) => e.entity_id === msg.entity_id);
+      if (!entity) throw fakeHaError(404, 'Entity not found');
+      updateRegistryEntry(entity, msg);
+      if (typeof msg.name === 'string' || msg.name === null) entity.name = msg.name;
+      fire('entity_registry_updated', { action: 'update', entity_id: entity.entity_id });
+      return { entity_entry: { ...entity } };
+    }
+    case 'config/entity_registry/remove': {
+      const entityId = String(msg.entity_id ?? '');
+      const before = model.entities.length;
+      model.entities = model.entities.filter((e) => e.entity_id !== entityId);
+      if (model.entities.length === before) throw fakeHaError(404, 'Entity not found');
+      const old = model.states.get(entityId) ?? null;
+      model.states.delete(entityId);
+      if (old) fire('state_changed', { entity_id: entityId, old_state: old, new_state: null });
+      fire('entity_registry_updated', { action: 'remove', entity_id: entityId });
+      return null;
+    }
+    case 'config/device_registry/remove': {
+      const deviceId = String(msg.device_id ?? '');
+      if (!model.devices.some((d) => d.id === deviceId)) throw fakeHaError(404, 'Device not found');
+      model.devices = model.devices.filter((d) => d.id !== deviceId);
+      model.entities
+        .filter((e) => e.device_id === deviceId)
+        .forEach((e) => handleFakeHaCommand('config/entity_registry/remove', { entity_id: e.entity_id }));
+      fire('device_registry_updated', { action: 'remove', device_id: deviceId });
+      return null;
+    }
+    case 'automation/config': {
+      const state = model.states.get(String(msg.entity_id ?? ''));
+      const config = state ? model.automations.get(String(state.attributes.id ?? '')) : undefined;
+      if (!config) throw fakeHaError(404, 'Entity not found');
+      return { config };
+    }
+    case 'trace/list': {
+      const traces = model.traces.get(String(msg.item_id ?? '')) ?? [];
+      return msg.domain === 'automation' ? traces.map(traceSummary) : [];
+    }
+    case 'trace/get': {
+      const trace = (model.traces.get(String(msg.item_id ?? '')) ?? []).find((t) => t.run_id === msg.run_id);
+      if (!trace) throw fakeHaError(404, 'The trace could not be found');
+      return traceDetail(trace);
+    }
+    case 'cloud/status':
+      return { logged_in: false, cloud: 'disconnected', remote_enabled: false };
+    case 'ping':
+      return null;
+    default:
+      throw fakeHaError(400, `Unknown command ${type}.`);
+  }
+}
+
+/** Listen to fake hub events; pass null to receive every event type. */
+export function subscribeFakeHaEvents(
+  eventType: string | null,
+  listener: (event: FakeHaEvent) => void
+): () => void {
+  const filtered = (event: FakeHaEvent) => {
+    if (eventType === null || event.event_type === eventType) listener(event);
+  };
+  listeners.add(filtered);
+  return () => {
+    listeners.delete(filtered);
+  };
+}
+
+/** Put the showroom back to its seeded state; connected clients see the changes as events. */
+export function resetFakeHomeAssistant() {
+  blindTimers.forEach((timer) => clearInterval(timer));
+  blindTimers.clear();
+  const previous = model;
+  model = createModel();
+  previous.states.forEach((old, entityId) => {
+    const next = model.states.get(entityId) ?? null;
+    fire('state_changed', { entity_id: entityId, old_state: old, new_state: next });
+  });
+  model.states.forEach((next, entityId) => {
+    if (!previous.states.has(entityId)) {
+      fire('state_changed', { entity_id: entityId, old_state: null, new_state: next });
+    }
+  });
+  ['area_registry_updated', 'label_registry_updated', 'device_registry_updated', 'entity_registry_updated'].forEach(
+    (eventType) => fire(eventType, { action: 'update' })
+  );
+}
@@ -0,0 +1,164 @@
+// src/devices/commandProjection.ts
+import type { UIDevice } from '../models/device';
+import type { HaMode } from '../api/dinodia';
+import {
+  getBlindPosition,
+  getBrightnessPct,
+  getTargetTemperature,
+  getVolumePct,
+} from '../capabilities/attributeReaders';
+
+export type CommandProjection = {
+  state?: string;
+  attributes?: Record<string, unknown>;
+  // True once the real device state reflects the command.
+  isConfirmed: (device: UIDevice) => boolean;
+};
+
+const HOME_CONFIRM_TIMEOUT_MS = 10000;
+const CLOUD_CONFIRM_TIMEOUT_MS = 20000;
+const DEFAULT_BLIND_TRAVEL_SECONDS = 22;
+const BLIND_POSITION_KEYS = ['blind_position', 'position', 'current_position', 'position_percent'];
+const MEDIA_OFF_STATES = new Set(['off', 'standby', 'unavailable', 'unknown']);
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function stateOf(device: UIDevice) {
+  return (device.state ?? '').toString().toLowerCase();
+}
+
+function projectState(state: string): CommandProjection {
+  return { state, isConfirmed: (d) => stateOf(d) === state };
+}
+
+function projectMediaPower(on: boolean): CommandProjection {
+  return {
+    state: on ? 'on' : 'off',
+    isConfirmed: (d) => MEDIA_OFF_STATES.has(stateOf(d)) !== on,
+  };
+}
+
+function projectBlind(device: UIDevice, target: number): CommandProjection {
+  const attrs = device.attributes ?? {};
+  // Write the position under whichever key the tile already reads it from.
+  const positionKey = BLIND_POSITION_KEYS.find((key) => key in attrs);
+  if (!positionKey) {
+    return projectState(target > 0 ? 'open' : 'closed');
+  }
+  return {
+    state: target > 0 ? 'open' : 'closed',
+    attributes: { [positionKey]: target },
+    isConfirmed: (d) => {
+      const position = getBlindPosition(d.attributes ?? {});
+      return position !== null && Math.abs(position - target) <= 1;
+    },
+  };
+}
+
+function projectTemperature(target: number): CommandProjection {
+  return {
+    attributes: { temperature: target },
+    isConfirmed: (d) => {
+      const temperature = getTargetTemperature(d.attributes ?? {});
+      return temperature !== null && Math.abs(temperature - target) < 0.05;
+    },
+  };
+}
+
+/**
+ * Predict how a device will look once a command lands so the UI can show it immediately.
+ * Returns null for commands whose outcome we cannot know up front (track skips, relative volume).
+ */
+export function projectDeviceCommand(
+  device: UIDevice,
+  command: string,
+  value?: number
+): CommandProjection | null {
+  const attrs = device.attributes ?? {};
+  const state = stateOf(device);
+
+  switch (command) {
+    case 'light/turn_on':
+      return projectState('on');
+    case 'light/turn_off':
+      return projectState('off');
+    case 'light/toggle':
+      return projectState(state === 'on' ? 'off' : 'on');
+    case 'light/set_brightness': {
+      if (typeof value !== 'number') return null;
+      const pct = clamp(Math.round(value), 0, 100);
+      const attributes: Record<string, unknown> = { brightness: Math.round((pct / 100) * 255) };
+      if ('brightness_pct' in attrs) attributes.brightness_pct = pct;
+      return {
+        state: pct > 0 ? 'on' : 'off',
+        attributes,
+        isConfirmed: (d) => {
+          if (pct === 0) return stateOf(d) === 'off';
+          const current = getBrightnessPct(d.attributes ?? {});
+          return stateOf(d) === 'on' && current !== null && Math.abs(current - pct) <= 1;
+        },
+      };
+    }
+    case 'blind/open':
+      return projectBlind(device, 100);
+    case 'blind/close':
+      return projectBlind(device, 0);
+    case 'blind/set_position':
+      return typeof value === 'number' ? projectBlind(device, clamp(Math.round(value), 0, 100)) : null;
+    case 'media/play_pause':
+      return projectState(state === 'playing' ? 'paused' : 'playing');
+    case 'media/volume_set': {
+      if (typeof value !== 'number') return null;
+      const pct = clamp(Math.round(value), 0, 100);
+      return {
+        attributes: { volume_level: pct / 100 },
+        isConfirmed: (d) => {
+          const current = getVolumePct(d.attributes ?? {});
+          return current !== null && Math.abs(current - pct) <= 1;
+        },
+      };
+    }
+    case 'tv/turn_on':
+    case 'speaker/turn_on':
+      return projectMediaPower(true);
+    case 'tv/turn_off':
+    case 'speaker/turn_off':
+      return projectMediaPower(false);
+    case 'tv/toggle_power':
+    case 'speaker/toggle_power':
+      return projectMediaPower(state === 'off' || state === 'standby');
+    case 'boiler/temp_up':
+    case 'boiler/temp_down': {
+      const current = getTargetTemperature(attrs) ?? 20;
+      return projectTemperature(current + (command === 'boiler/temp_up' ? 1 : -1));
+    }
+    case 'boiler/set_temperature':
+      return typeof value === 'number' ? projectTemperature(value) : null;
+    default:
+      return null;
+  }
+}
+
+export function applyProjection(device: UIDevice, projection: CommandProjection): UIDevice {
+  return {
+    ...device,
+    state: projection.state ?? device.state,
+    attributes: projection.attributes
+      ? { ...device.attributes, ...projection.attributes }
+      : device.attributes,
+  };
+}
+
+// Blinds report their final position only after the travel time has elapsed.
+export function getProjectionTimeoutMs(device: UIDevice, command: string, mode: HaMode): number {
+  // Auto mode may be served by the cloud, so it gets the longer allowance.
+  const base = mode === 'home' ? HOME_CONFIRM_TIMEOUT_MS : CLOUD_CONFIRM_TIMEOUT_MS;
+  if (!command.startsWith('blind/')) return base;
+  const travel =
+    typeof device.blindTravelSeconds === 'number' && device.blindTravelSeconds > 0
+      ? device.blindTravelSeconds
+      : DEFAULT_BLIND_TRAVEL_SECONDS;
+  return base + clamp(travel, 5, 90) * 1000;
+}
@@ -5,6 +5,17 @@ import { sendCloudDeviceCommand } from '../api/deviceControl';
 import { handleDeviceCommand } from '../utils/haCommands';
 import type { DeviceCommandId } from '../capabilities/deviceCapabilities';
 import { fetchHomeModeSecrets } from '../api/haSecrets';
+import { checkHomeModeReachable, checkRemoteAccessEnabled } from '../api/remoteAccess';
+import { isHubRequestNotSentError, runOnHaRoute, type HaRoute } from '../api/haRouter';
+import { trackOptimisticCommand } from '../store/deviceStore';
+import {
+  enqueueCommand,
+  getQueuedCommands,
+  loadQueuedCommands,
+  removeQueuedCommand,
+  type QueuedCommand,
+} from '../store/commandQueue';
+import { getProjectionTimeoutMs, projectDeviceCommand } from './commandProjection';
 
 type ExecuteParams = {
   haMode: HaMode;
@@ -12,22 +23,162 @@ type ExecuteParams = {
   device: UIDevice;
   command: DeviceCommandId | string;
   value?: number;
+  // When set, the expected result is shown immediately and rolled back if never confirmed,
+  // and commands that cannot reach the hub or cloud are queued for replay.
+  userId?: number | null;
+  onRollback?: (error: Error) => void;
+  // The device is showing last-known state because refreshes are failing; the command is
+  // queued and replayed once a route answers instead of being sent against state we cannot see.
+  stale?: boolean;
 };
 
-export async function executeDeviceCommand(params: ExecuteParams): Promise<void> {
-  const { haMode, connection, device, command, value } = params;
+type SendParams = {
+  haMode: HaRoute;
+  entityId: string;
+  command: string;
+  value?: number;
+  blindTravelSeconds?: number | null;
+  idempotencyKey?: string;
+};
 
-  if (haMode === 'cloud') {
-    try {
-      await sendCloudDeviceCommand({
-        entityId: device.entityId,
-        command,
-        value,
-      });
-      return;
-    } catch (err: any) {
-      throw err;
+export type ExecuteResult = 'sent' | 'queued';
+
+export type ReplayResult = {
+  sent: number;
+  failed: { item: QueuedCommand; error: Error }[];
+};
+
+const HUB_UNREACHABLE_MESSAGE =
+  'We cannot find your Dinodia Hub on the home Wi-Fi. Switch to Dinodia Cloud to control your place.';
+
+const replayingUsers = new Set<number>();
+
+// Failures where the command never reached the hub or platform, so it is safe to retry later.
+// Timeouts are left out: the hub may already have run the command, and replaying a toggle would undo it.
+function isOfflineCommandError(err: unknown): boolean {
+  if (isHubRequestNotSentError(err)) return true;
+  const message = err instanceof Error ? err.message : '';
+  return message.startsWith('Unable to reach Dinodia servers');
+}
+
+export async function executeDeviceCommand(params: ExecuteParams): Promise<ExecuteResult> {
+  const { haMode, device, command, value, userId, onRollback, stale } = params;
+  if (stale && userId) {
+    await queueDeviceCommand(userId, haMode, device, command, value);
+    return 'queued';
+  }
+  const projection = userId ? projectDeviceCommand(device, command, value) : null;
+  const discardProjection =
+    userId && projection
+      ? trackOptimisticCommand({
+          userId,
+          mode: haMode,
+          entityId: device.entityId,
+          projection,
+          timeoutMs: getProjectionTimeoutMs(device, command, haMode),
+          onRollback,
+        })
+      : null;
+
+  try {
+    await runOnHaRoute(
+      haMode,
+      (route) =>
+        sendDeviceCommand({
+          haMode: route,
+          entityId: device.entityId,
+          command,
+          value,
+          blindTravelSeconds: device.blindTravelSeconds ?? null,
+        }),
+      { mutating: true }
+    );
+    return 'sent';
+  } catch (err) {
+    discardProjection?.();
+    if (!userId || !isOfflineCommandError(err)) throw err;
+    await queueDeviceCommand(userId, haMode, device, command, value);
+    return 'queued';
+  }
+}
+
+async function queueDeviceCommand(
+  userId: number,
+  haMode: HaMode,
+  device: UIDevice,
+  command: string,
+  value?: number
+) {
+  await enqueueCommand(userId, {
+    mode: haMode,
+    entityId: device.entityId,
+    deviceName: device.name,
+    command,
+    value,
+    blindTravelSeconds: device.blindTravelSeconds ?? null,
+  });
+}
+
+/**
+ * Send queued commands in the order they were tapped, through the hub when it answers and
+ * otherwise through Dinodia Cloud. Stops at the first command that still cannot get through.
+ */
+export async function replayQueuedCommands(userId: number): Promise<ReplayResult> {
+  const result: ReplayResult = { sent: 0, failed: [] };
+  if (replayingUsers.has(userId)) return result;
+  replayingUsers.add(userId);
+  try {
+    const queue = await loadQueuedCommands(userId);
+    if (queue.length === 0) return result;
+
+    let route: HaRoute | null = null;
+    if (await checkHomeModeReachable()) {
+      route = 'home';
+    } else if (await checkRemoteAccessEnabled().catch(() => false)) {
+      route = 'cloud';
+    }
+    if (!route) return result;
+
+    for (const queued of queue) {
+      // Re-read so commands cancelled or expired while we were sending are skipped.
+      const item = getQueuedCommands(userId).find((entry) => entry.id === queued.id);
+      if (!item) continue;
+      if (item.expiresAt <= Date.now()) {
+        removeQueuedCommand(userId, item.id);
+        continue;
+      }
+      try {
+        await sendDeviceCommand({
+          haMode: route,
+          entityId: item.entityId,
+          command: item.command,
+          value: item.value,
+          blindTravelSeconds: item.blindTravelSeconds,
+          idempotencyKey: item.id,
+        });
+        removeQueuedCommand(userId, item.id);
+        result.sent += 1;
+      } catch (err) {
+        if (isOfflineCommandError(err)) break;
+        removeQueuedCommand(userId, item.id);
+        result.failed.push({
+          item,
+          error: err instanceof Error ? err : new Error('That queued command could not be sent.'),
+        });
+      }
     }
+    return result;
+  } finally {
+    replayingUsers.delete(userId);
+  }
+}
+
+async function sendDeviceCommand(params: SendParams): Promise<void> {
+  const { haMode, entityId, command, value, blindTravelSeconds, idempotencyKey } = params;
+
+  if (haMode === 'cloud') {
+    await sendCloudDeviceCommand({ entityId, command, value, idempotencyKey });
+    return;
   }
 
   const homeSecrets = await fetchHomeModeSecrets().catch(() => null);
@@ -35,9 +186,7 @@ export async function executeDeviceCommand(params: ExecuteParams): Promise<void>
   const token = homeSecrets?.longLivedToken;
 
   if (!baseUrl || !token) {
-    throw new Error(
-      'We cannot find your Dinodia Hub on the home Wi-Fi. Switch to Dinodia Cloud to control your place.'
-    );
+    throw new Error(HUB_UNREACHABLE_MESSAGE);
   }
 
   await handleDeviceCommand({
@@ -45,9 +194,9 @@ export async function executeDeviceCommand(params: ExecuteParams): Promise<void>
       baseUrl,
       longLivedToken: token,
     },
-    entityId: device.entityId,
+    entityId,
     command,
     value,
-    blindTravelSeconds: device.blindTravelSeconds ?? null,
+    blindTravelSeconds: blindTravelSeconds ?? null,
   });
 }
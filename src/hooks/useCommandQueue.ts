@@ -0,0 +1,45 @@
+// src/hooks/useCommandQueue.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { replayQueuedCommands } from '../devices/deviceExecutor';
+import { removeQueuedCommand, useQueuedCommands } from '../store/commandQueue';
+
+const REPLAY_INTERVAL_MS = 5000;
+
+export function useCommandQueue(userId: number, onReplayed?: () => void) {
+  const queued = useQueuedCommands(userId);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+  const hasQueued = queued.length > 0;
+
+  const replay = useCallback(async () => {
+    const result = await replayQueuedCommands(userId).catch(() => null);
+    if (!result) return;
+    if (result.failed.length > 0) {
+      const { item, error } = result.failed[result.failed.length - 1];
+      setReplayError(`${item.deviceName}: ${error.message}`);
+    }
+    if (result.sent > 0 && onReplayedRef.current) onReplayedRef.current();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!hasQueued) return;
+    const interval = setInterval(() => {
+      if (AppState.currentState !== 'active') return;
+      void replay();
+    }, REPLAY_INTERVAL_MS);
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') void replay();
+    });
+    return () => {
+      clearInterval(interval);
+      sub.remove();
+    };
+  }, [hasQueued, replay]);
+
+  const cancel = useCallback((id: string) => removeQueuedCommand(userId, id), [userId]);
+  const dismissError = useCallback(() => setReplayError(null), []);
+
+  return { queued, cancel, replayError, dismissError };
+}
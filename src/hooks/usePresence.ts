@@ -0,0 +1,45 @@
+// src/hooks/usePresence.ts
+import { useCallback, useEffect, useState } from 'react';
+import type { HaMode } from '../api/dinodia';
+import { listPresenceSources } from '../api/presence';
+import type { PresencePerson, PresenceZone } from '../presence/presenceModel';
+
+/** Pass enabled = false to skip loading, e.g. on the cloud route where presence isn't offered. */
+export function usePresence(mode: HaMode, enabled = true) {
+  const [people, setPeople] = useState<PresencePerson[]>([]);
+  const [zones, setZones] = useState<PresenceZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+    let active = true;
+    setLoading(true);
+    listPresenceSources({ mode })
+      .then((sources) => {
+        if (!active) return;
+        setPeople(sources.people);
+        setZones(sources.zones);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err instanceof Error ? err.message : 'Unable to load people and zones.');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [mode, enabled, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { people, zones, loading, error, reload };
+}
@@ -0,0 +1,38 @@
+// src/hooks/useScenes.ts
+import { useCallback, useEffect, useState } from 'react';
+import type { HaMode } from '../api/dinodia';
+import { listScenes } from '../api/scenes';
+import type { SceneSummary } from '../scenes/sceneModel';
+
+export function useScenes(mode: HaMode) {
+  const [scenes, setScenes] = useState<SceneSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    listScenes({ mode })
+      .then((list) => {
+        if (!active) return;
+        setScenes(list);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err instanceof Error ? err.message : 'Unable to load scenes.');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [mode, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { scenes, loading, error, reload };
+}
@@ -5,8 +5,13 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { AdminDashboardScreen } from '../screens/AdminDashboardScreen';
 import { AdminHomeSetupScreen } from '../screens/AdminHomeSetupScreen';
 import { ManageDevicesScreen } from '../screens/ManageDevicesScreen';
+import { SceneEditorScreen } from '../screens/SceneEditorScreen';
+import type { SceneSummary } from '../scenes/sceneModel';
 import { AutomationsListScreen } from '../screens/automations/AutomationsListScreen';
 import { AutomationEditorScreen } from '../screens/automations/AutomationEditorScreen';
+import { AutomationTracesScreen } from '../screens/automations/AutomationTracesScreen';
+import { AutomationImportScreen } from '../screens/automations/AutomationImportScreen';
+import { AutomationTemplatesScreen } from '../screens/automations/AutomationTemplatesScreen';
 import { RemoteAccessSetupScreen } from '../screens/RemoteAccessSetupScreen';
 
 export type AdminStackParamList = {
@@ -14,11 +19,15 @@ export type AdminStackParamList = {
   AdminHomeSetup: undefined;
   RemoteAccessSetup: undefined;
   ManageDevices: undefined;
+  SceneEditor: { scene?: SceneSummary } | undefined;
 };
 
 export type AdminAutomationsStackParamList = {
   AutomationsList: undefined;
   AutomationEditor: { automationId?: string } | undefined;
+  AutomationTraces: { automationId: string; alias?: string };
+  AutomationImport: undefined;
+  AutomationTemplates: undefined;
 };
 
 export type AdminTabParamList = {
@@ -37,6 +46,7 @@ function DashboardStackScreen() {
       <Stack.Screen name="AdminHomeSetup" component={AdminHomeSetupScreen} />
       <Stack.Screen name="RemoteAccessSetup" component={RemoteAccessSetupScreen} />
       <Stack.Screen name="ManageDevices" component={ManageDevicesScreen} />
+      <Stack.Screen name="SceneEditor" component={SceneEditorScreen} />
     </Stack.Navigator>
   );
 }
@@ -46,6 +56,9 @@ function AutomationStackScreen() {
     <AutomationsStack.Navigator screenOptions={{ headerShown: false }}>
       <AutomationsStack.Screen name="AutomationsList" component={AutomationsListScreen} />
       <AutomationsStack.Screen name="AutomationEditor" component={AutomationEditorScreen} />
+      <AutomationsStack.Screen name="AutomationTraces" component={AutomationTracesScreen} />
+      <AutomationsStack.Screen name="AutomationImport" component={AutomationImportScreen} />
+      <AutomationsStack.Screen name="AutomationTemplates" component={AutomationTemplatesScreen} />
     </AutomationsStack.Navigator>
   );
 }
@@ -6,19 +6,28 @@ import { TenantDashboardScreen } from '../screens/TenantDashboardScreen';
 import { TenantSettingsScreen } from '../screens/TenantSettingsScreen';
 import { TenantAddDevicesScreen } from '../screens/TenantAddDevicesScreen';
 import { ManageDevicesScreen } from '../screens/ManageDevicesScreen';
+import { SceneEditorScreen } from '../screens/SceneEditorScreen';
+import type { SceneSummary } from '../scenes/sceneModel';
 import { AutomationsListScreen } from '../screens/automations/AutomationsListScreen';
 import { AutomationEditorScreen } from '../screens/automations/AutomationEditorScreen';
+import { AutomationTracesScreen } from '../screens/automations/AutomationTracesScreen';
+import { AutomationImportScreen } from '../screens/automations/AutomationImportScreen';
+import { AutomationTemplatesScreen } from '../screens/automations/AutomationTemplatesScreen';
 
 export type TenantStackParamList = {
   TenantDashboard: undefined;
   TenantSettings: undefined;
   TenantAddDevices: undefined;
   ManageDevices: undefined;
+  SceneEditor: { scene?: SceneSummary } | undefined;
 };
 
 export type TenantAutomationsStackParamList = {
   AutomationsList: undefined;
   AutomationEditor: { automationId?: string } | undefined;
+  AutomationTraces: { automationId: string; alias?: string };
+  AutomationImport: undefined;
+  AutomationTemplates: undefined;
 };
 
 export type TenantTabParamList = {
@@ -37,6 +46,7 @@ function DashboardStackScreen() {
       <Stack.Screen name="TenantSettings" component={TenantSettingsScreen} />
       <Stack.Screen name="TenantAddDevices" component={TenantAddDevicesScreen} />
       <Stack.Screen name="ManageDevices" component={ManageDevicesScreen} />
+      <Stack.Screen name="SceneEditor" component={SceneEditorScreen} />
     </Stack.Navigator>
   );
 }
@@ -46,6 +56,9 @@ function AutomationStackScreen() {
     <AutomationsStack.Navigator screenOptions={{ headerShown: false }}>
       <AutomationsStack.Screen name="AutomationsList" component={AutomationsListScreen} />
       <AutomationsStack.Screen name="AutomationEditor" component={AutomationEditorScreen} />
+      <AutomationsStack.Screen name="AutomationTraces" component={AutomationTracesScreen} />
+      <AutomationsStack.Screen name="AutomationImport" component={AutomationImportScreen} />
+      <AutomationsStack.Screen name="AutomationTemplates" component={AutomationTemplatesScreen} />
     </AutomationsStack.Navigator>
   );
 }
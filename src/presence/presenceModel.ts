@@ -0,0 +1,71 @@
+import type { PresenceCondition, PresenceTrigger } from '../automations/automationModel';
+
+export const HOME_ZONE = 'zone.home';
+
+/** A person, or a tracked device such as a phone seen on the home Wi-Fi. */
+export type PresencePerson = {
+  entityId: string;
+  name: string;
+  /** 'home', 'not_home' or the name of the zone they are in. */
+  state: string;
+};
+
+export type PresenceZone = {
+  entityId: string;
+  name: string;
+  /** People in the zone right now; zones only count person entities. */
+  count: number | null;
+};
+
+export type PresenceSources = {
+  people: PresencePerson[];
+  zones: PresenceZone[];
+};
+
+export function isPresenceEntity(entityId: string): boolean {
+  return entityId.startsWith('person.') || entityId.startsWith('device_tracker.');
+}
+
+export function isZoneEntity(entityId: string): boolean {
+  return entityId.startsWith('zone.');
+}
+
+/** "home" for the home zone, otherwise the zone's name, e.g. "Work". */
+export function zoneName(zone: string, zones: PresenceZone[] = []): string {
+  if (zone === HOME_ZONE) return 'home';
+  const known = zones.find((z) => z.entityId === zone)?.name;
+  if (known) return known;
+  const slug = zone.replace(/^zone\./, '').replace(/_/g, ' ');
+  return slug.charAt(0).toUpperCase() + slug.slice(1);
+}
+
+function zonePhrase(zone: string, zones: PresenceZone[]) {
+  return zone === HOME_ZONE ? 'home' : `at ${zoneName(zone, zones)}`;
+}
+
+export function describePresenceTrigger(
+  trigger: PresenceTrigger,
+  people: PresencePerson[] = [],
+  zones: PresenceZone[] = []
+): string {
+  const who = trigger.entityId
+    ? people.find((p) => p.entityId === trigger.entityId)?.name ?? trigger.entityId
+    : 'Someone';
+  const where = zoneName(trigger.zone, zones);
+  switch (trigger.event) {
+    case 'first_arrives':
+      return trigger.zone === HOME_ZONE ? 'First person arrives home' : `First person arrives at ${where}`;
+    case 'last_leaves':
+      return trigger.zone === HOME_ZONE ? 'Last person leaves home' : `Last person leaves ${where}`;
+    case 'enters':
+      return trigger.zone === HOME_ZONE ? `${who} arrives home` : `${who} enters ${where}`;
+    case 'leaves':
+      return trigger.zone === HOME_ZONE ? `${who} leaves home` : `${who} leaves ${where}`;
+    default:
+      return 'Presence changes';
+  }
+}
+
+export function describePresenceCondition(condition: PresenceCondition, zones: PresenceZone[] = []): string {
+  return `${condition.occupied ? 'Someone is' : 'No one is'} ${zonePhrase(condition.zone, zones)}`;
+}
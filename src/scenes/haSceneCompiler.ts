@@ -0,0 +1,107 @@
+import { toHvacMode, type SceneDraft, type SceneEntityState } from './sceneModel';
+
+export type HaSceneEntities = Record<string, Record<string, unknown>>;
+
+export type HaSceneConfig = {
+  id?: string;
+  name: string;
+  icon?: string;
+  entities: HaSceneEntities;
+};
+
+export function compileSceneEntities(scene: Pick<SceneDraft, 'entities'>): HaSceneEntities {
+  const entities: HaSceneEntities = {};
+  scene.entities.forEach((entity) => {
+    entities[entity.entityId] = compileEntity(entity);
+  });
+  return entities;
+}
+
+export function compileSceneToHaConfig(scene: SceneDraft): HaSceneConfig {
+  return {
+    id: scene.id,
+    name: scene.name,
+    icon: scene.icon ?? undefined,
+    entities: compileSceneEntities(scene),
+  };
+}
+
+// Home Assistant reproduces each entry through the domain's own services, so the attribute names
+// here are the ones each integration's reproduce_state understands.
+function compileEntity(entity: SceneEntityState): Record<string, unknown> {
+  const domain = entity.entityId.split('.')[0] || '';
+  switch (domain) {
+    case 'light':
+      if (!entity.on) return { state: 'off' };
+      return typeof entity.brightnessPct === 'number'
+        ? { state: 'on', brightness: Math.round((clamp(entity.brightnessPct, 0, 100) / 100) * 255) }
+        : { state: 'on' };
+    case 'cover': {
+      const position = clamp(entity.position ?? (entity.on ? 100 : 0), 0, 100);
+      return { state: position > 0 ? 'open' : 'closed', current_position: position };
+    }
+    case 'climate': {
+      if (!entity.on) return { state: 'off' };
+      const mode = entity.hvacMode ?? 'heat';
+      return typeof entity.targetTemperature === 'number'
+        ? { state: mode, temperature: entity.targetTemperature }
+        : { state: mode };
+    }
+    case 'media_player':
+      if (!entity.on) return { state: 'off' };
+      return typeof entity.volumePct === 'number'
+        ? { state: 'on', volume_level: clamp(entity.volumePct, 0, 100) / 100 }
+        : { state: 'on' };
+    default:
+      return { state: entity.on ? 'on' : 'off' };
+  }
+}
+
+/** Read a scene back from the hub's scene config; entries we do not understand are kept as on/off. */
+export function parseHaSceneConfig(config: any): SceneDraft | null {
+  if (!config || typeof config !== 'object' || !config.entities || typeof config.entities !== 'object') {
+    return null;
+  }
+  const entities: SceneEntityState[] = Object.entries(config.entities as Record<string, any>).map(
+    ([entityId, raw]) => parseEntity(entityId, raw)
+  );
+  return {
+    id: typeof config.id === 'string' ? config.id : undefined,
+    name: typeof config.name === 'string' && config.name.trim() ? config.name : 'Scene',
+    icon: typeof config.icon === 'string' ? config.icon : null,
+    entities,
+  };
+}
+
+function parseEntity(entityId: string, raw: any): SceneEntityState {
+  const value = raw && typeof raw === 'object' ? raw : { state: raw };
+  const state = String(value.state ?? '').toLowerCase();
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+  const domain = entityId.split('.')[0] || '';
+  switch (domain) {
+    case 'light': {
+      const brightness = num(value.brightness);
+      return {
+        entityId,
+        on: state === 'on',
+        brightnessPct: brightness !== null ? Math.round((brightness / 255) * 100) : num(value.brightness_pct),
+      };
+    }
+    case 'cover': {
+      const position = num(value.current_position) ?? (state === 'open' ? 100 : 0);
+      return { entityId, on: position > 0, position };
+    }
+    case 'climate':
+      return { entityId, on: state !== 'off', targetTemperature: num(value.temperature), hvacMode: toHvacMode(state) };
+    case 'media_player': {
+      const volume = num(value.volume_level);
+      return { entityId, on: state !== 'off', volumePct: volume !== null ? Math.round(volume * 100) : null };
+    }
+    default:
+      return { entityId, on: state === 'on' };
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,104 @@
+import type { UIDevice } from '../models/device';
+import {
+  getBlindPosition,
+  getBrightnessPct,
+  getTargetTemperature,
+  getVolumePct,
+  isDeviceStateOn,
+} from '../capabilities/attributeReaders';
+
+/** What one device should look like when the scene is applied. Unset values are left alone. */
+export type SceneEntityState = {
+  entityId: string;
+  on: boolean;
+  brightnessPct?: number | null;
+  position?: number | null;
+  targetTemperature?: number | null;
+  /** Climate only: the HVAC mode to return to (heat, cool, auto...); scenes saved without one heat. */
+  hvacMode?: string | null;
+  volumePct?: number | null;
+};
+
+export type SceneDraft = {
+  id?: string;
+  name: string;
+  icon?: string | null;
+  entities: SceneEntityState[];
+};
+
+export type SceneSummary = SceneDraft & {
+  id: string;
+  /** scene.* entity on the hub, when known; automations activate scenes through it. */
+  entityId?: string | null;
+  canEdit?: boolean;
+};
+
+const MEDIA_OFF_STATES = ['off', 'standby', 'unavailable', 'unknown'];
+
+/** Climate states Home Assistant can set again through climate.set_hvac_mode, with their labels. */
+export const HVAC_MODE_LABELS: Record<string, string> = {
+  heat: 'Heat',
+  cool: 'Cool',
+  heat_cool: 'Heat/cool',
+  auto: 'Auto',
+  dry: 'Dry',
+  fan_only: 'Fan',
+};
+
+export function toHvacMode(state: string): string | null {
+  return state in HVAC_MODE_LABELS ? state : null;
+}
+
+// Blinds are left out: a scene would move them with cover services, skipping the blind controller script
+// and the travel time set for each blind.
+export function isSceneCapable(device: UIDevice): boolean {
+  return ['light', 'climate', 'media_player', 'switch', 'fan', 'input_boolean'].includes(device.domain);
+}
+
+export function isSceneBlind(entity: Pick<SceneEntityState, 'entityId'>): boolean {
+  return entity.entityId.startsWith('cover.');
+}
+
+export function captureSceneEntity(device: UIDevice): SceneEntityState {
+  const attrs = device.attributes ?? {};
+  const state = (device.state ?? '').toString().toLowerCase();
+  const entityId = device.entityId;
+  switch (device.domain) {
+    case 'light': {
+      const on = state === 'on';
+      return { entityId, on, brightnessPct: on ? getBrightnessPct(attrs) : null };
+    }
+    case 'cover': {
+      const position = getBlindPosition(attrs) ?? (isDeviceStateOn(device) ? 100 : 0);
+      return { entityId, on: position > 0, position };
+    }
+    case 'climate':
+      return {
+        entityId,
+        on: state !== 'off',
+        targetTemperature: getTargetTemperature(attrs),
+        hvacMode: toHvacMode(state),
+      };
+    case 'media_player': {
+      const on = !MEDIA_OFF_STATES.includes(state);
+      return { entityId, on, volumePct: on ? getVolumePct(attrs) : null };
+    }
+    default:
+      return { entityId, on: isDeviceStateOn(device) };
+  }
+}
+
+export function describeSceneEntity(entity: SceneEntityState): string {
+  if (typeof entity.position === 'number') {
+    if (entity.position <= 0) return 'Closed';
+    return entity.position >= 100 ? 'Open' : `Open ${entity.position}%`;
+  }
+  if (!entity.on) return 'Off';
+  if (typeof entity.brightnessPct === 'number') return `On at ${entity.brightnessPct}%`;
+  if (typeof entity.targetTemperature === 'number') {
+    return `${HVAC_MODE_LABELS[entity.hvacMode ?? 'heat'] ?? 'Heat'} to ${entity.targetTemperature}°`;
+  }
+  if (entity.hvacMode) return HVAC_MODE_LABELS[entity.hvacMode] ?? 'On';
+  if (typeof entity.volumePct === 'number') return `On, volume ${entity.volumePct}%`;
+  return 'On';
+}
@@ -33,6 +33,7 @@ import { PrimaryButton } from '../components/ui/PrimaryButton';
 import { useCloudModeSwitch } from '../hooks/useCloudModeSwitch';
 import { callHaService, listHaStates, probeHaReachability, type HaConnectionLike } from '../api/ha';
 import { haWsCall } from '../api/haWebSocket';
+import { fetchHaUrl } from '../api/haDemo';
 import { fetchHomeModeSecrets, type HomeModeSecrets } from '../api/haSecrets';
 import { friendlyError } from '../ui/friendlyError';
 
@@ -96,7 +97,7 @@ async function listHaAutomationIds(ha: HaConnectionLike): Promise<string[]> {
 
 async function deleteHaAutomation(ha: HaConnectionLike, id: string) {
   const url = `${ha.baseUrl.replace(/\/+$/, '')}/api/config/automation/config/${encodeURIComponent(id)}`;
-  const res = await fetch(url, {
+  const res = await fetchHaUrl(url, {
     method: 'DELETE',
     headers: { Authorization: `Bearer ${ha.longLivedToken}` },
   });
@@ -21,7 +21,14 @@ import { DeviceCard } from '../components/DeviceCard';
 import type { DeviceCardSize } from '../components/DeviceCard';
 import { DeviceDetail } from '../components/DeviceDetail';
 import { CloudModePrompt } from '../components/CloudModePrompt';
-import { useDevices, clearDeviceCacheForUserAndMode } from '../store/deviceStore';
+import { QueuedCommandsPanel } from '../components/QueuedCommandsPanel';
+import { ScenesStrip } from '../components/ScenesStrip';
+import {
+  useDevice,
+  useDevices,
+  useDevicesByLabel,
+  clearDeviceCacheForUserAndMode,
+} from '../store/deviceStore';
 import { HOME_WIFI_PROMPT, type HaMode } from '../api/dinodia';
 import {
   buildDeviceSections,
@@ -38,10 +45,15 @@ import type { Role } from '../models/roles';
 import { useSession } from '../store/sessionStore';
 import { useRemoteAccessStatus } from '../hooks/useRemoteAccessStatus';
 import { useDeviceStatus } from '../hooks/useDeviceStatus';
+import { useCommandQueue } from '../hooks/useCommandQueue';
+import { useScenes } from '../hooks/useScenes';
+import { activateScene } from '../api/scenes';
+import type { SceneSummary } from '../scenes/sceneModel';
 import { getDeviceGroupingId } from '../utils/haDeviceIdentity';
 import { fetchAdminKwhBaselines } from '../api/kwhBaselines';
 import { TopBar } from '../components/ui/TopBar';
 import { buildBatteryPercentByDeviceGroup, getBatteryPercentForDevice } from '../utils/deviceBattery';
+import { formatDataAge } from '../utils/dataAge';
 import { palette, maxContentWidth, radii, shadows, spacing } from '../ui/theme';
 import { useCloudModeSwitch } from '../hooks/useCloudModeSwitch';
 import type { HaConnection } from '../models/haConnection';
@@ -81,11 +93,19 @@ function DashboardContent({
   const isAdmin = role === 'ADMIN';
   const hideSensors = false; // Show sensors for all roles; tenants are already filtered by access rules.
   const persistAreaSelection = role === 'TENANT';
-  const { devices, refreshing, error, refreshDevices, lastUpdated } = useDevices(userId, haMode);
+  const { devices, refreshing, error, refreshDevices, lastUpdated, stale } = useDevices(userId, haMode);
+  const [staleNow, setStaleNow] = useState(() => Date.now());
   const batteryByGroup = useMemo(() => buildBatteryPercentByDeviceGroup(devices), [devices]);
   const [loggingOut, setLoggingOut] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
-  const [selected, setSelected] = useState<UIDevice | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { scenes, reload: reloadScenes } = useScenes(haMode);
+  const [activatingSceneId, setActivatingSceneId] = useState<string | null>(null);
+  const selected = useDevice(userId, haMode, selectedId);
+  const securityDevices = useDevicesByLabel(userId, haMode, 'Home Security');
+  const commandQueue = useCommandQueue(userId, () => {
+    void refreshDevices({ background: true });
+  });
   const [selectedArea, setSelectedArea] = useState<string | typeof ALL_AREAS>(ALL_AREAS);
   const [areaMenuVisible, setAreaMenuVisible] = useState(false);
   const [areaPrefLoaded, setAreaPrefLoaded] = useState(!persistAreaSelection);
@@ -125,16 +145,16 @@ function DashboardContent({
   };
 
   useEffect(() => {
-    if (!selected) return;
-    const updated = devices.find((d) => d.entityId === selected.entityId);
-    if (updated && updated !== selected) {
-      setSelected(updated);
-    }
-  }, [devices, selected]);
+    setSelectedId(null);
+  }, [haMode]);
 
+  // Keep the "showing devices from ..." age current while the data is stale.
   useEffect(() => {
-    setSelected(null);
-  }, [haMode]);
+    if (!stale) return;
+    setStaleNow(Date.now());
+    const interval = setInterval(() => setStaleNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [stale]);
 
   useEffect(() => {
     if (!isAdmin) {
@@ -332,14 +352,32 @@ function DashboardContent({
 
   const handleRefresh = useCallback(() => {
     void refreshDevices();
-  }, [refreshDevices]);
+    reloadScenes();
+  }, [refreshDevices, reloadScenes]);
+
+  useEffect(() => navigation.addListener('focus', reloadScenes), [navigation, reloadScenes]);
+
+  const handleActivateScene = useCallback(
+    async (scene: SceneSummary) => {
+      setActivatingSceneId(scene.id);
+      try {
+        await activateScene(scene, { haConnection, mode: haMode });
+        void refreshDevices({ background: true });
+      } catch (err) {
+        Alert.alert('Scene', err instanceof Error ? err.message : 'Unable to activate scene.');
+      } finally {
+        setActivatingSceneId(null);
+      }
+    },
+    [haConnection, haMode, refreshDevices]
+  );
 
   const handleBackgroundRefresh = useCallback(() => {
     void refreshDevices({ background: true });
   }, [refreshDevices]);
 
-  const handleOpenDetails = useCallback((device: UIDevice) => setSelected(device), []);
-  const handleCloseDetails = useCallback(() => setSelected(null), []);
+  const handleOpenDetails = useCallback((device: UIDevice) => setSelectedId(device.entityId), []);
+  const handleCloseDetails = useCallback(() => setSelectedId(null), []);
   const handleCommandComplete = useCallback(
     () => handleBackgroundRefresh(),
     [handleBackgroundRefresh]
@@ -370,6 +408,11 @@ function DashboardContent({
     onSwitchToHome: () => switchMode('home'),
   });
 
+  const handleChooseAuto = useCallback(() => {
+    handleCancelCloud();
+    void switchMode('auto');
+  }, [handleCancelCloud, switchMode]);
+
   const handleOpenWifiSetup = useCallback(() => {
     if (InlineWifiSetupLauncher && typeof InlineWifiSetupLauncher.open === 'function') {
       InlineWifiSetupLauncher.open();
@@ -411,6 +454,7 @@ function DashboardContent({
                         onAfterCommand={handleBackgroundRefresh}
                         onOpenDetails={handleOpenDetails}
                         showControls={!isAdmin}
+                        stale={stale}
                         kwhTotal={(() => {
                           const sensorId = kwhSensorByDevice[device.entityId];
                           if (!sensorId) return null;
@@ -454,7 +498,7 @@ function DashboardContent({
         })}
       </View>
     ),
-    [batteryByGroup, baseCardHeight, devices.length, gridColumns, handleBackgroundRefresh, handleOpenDetails, isAdmin, refreshing]
+    [batteryByGroup, baseCardHeight, devices.length, gridColumns, handleBackgroundRefresh, handleOpenDetails, isAdmin, refreshing, stale]
   );
 
   const isColdStart = !lastUpdated && devices.length === 0 && !error;
@@ -512,10 +556,31 @@ function DashboardContent({
         }}
       />
 
-      {!showHubOverlay && error && !showHomeWifiPrompt ? (
+      {!showHubOverlay && stale && lastUpdated ? (
+        <Text style={styles.staleBanner}>
+          {`Showing devices as they were ${formatDataAge(lastUpdated, staleNow)}. We could not refresh them, so changes you make will be sent when we reconnect.`}
+        </Text>
+      ) : !showHubOverlay && error && !showHomeWifiPrompt ? (
         <Text style={styles.errorBanner}>{error}</Text>
       ) : null}
 
+      <QueuedCommandsPanel
+        queued={commandQueue.queued}
+        replayError={commandQueue.replayError}
+        onCancel={commandQueue.cancel}
+        onDismissError={commandQueue.dismissError}
+      />
+
+      {!showHubOverlay ? (
+        <ScenesStrip
+          scenes={scenes}
+          activatingId={activatingSceneId}
+          onActivate={(scene) => void handleActivateScene(scene)}
+          onEdit={(scene) => navigation.navigate('SceneEditor', { scene })}
+          onAdd={() => navigation.navigate('SceneEditor')}
+        />
+      ) : null}
+
       <View style={styles.content}>
         <FlatList
           style={styles.list}
@@ -613,15 +678,12 @@ function DashboardContent({
         visible={!!selected}
         onClose={handleCloseDetails}
         onCommandComplete={handleCommandComplete}
-        relatedDevices={
-          selected && selected.label === 'Home Security'
-            ? devices.filter((d) => d.label === 'Home Security')
-            : undefined
-        }
+        relatedDevices={selected && selected.label === 'Home Security' ? securityDevices : undefined}
         linkedSensors={linkedSensors}
         allowSensorHistory
         showControls={!isAdmin}
         showStateText={!isAdmin}
+        stale={stale}
       />
       <HeaderMenu
         visible={menuVisible}
@@ -643,6 +705,7 @@ function DashboardContent({
         result={cloudCheckResult}
         onCancel={handleCancelCloud}
         onConfirm={handleConfirmCloud}
+        onChooseAuto={haMode === 'auto' ? undefined : handleChooseAuto}
         title={haMode === 'cloud' ? 'Move to Home mode?' : 'Move to Cloud mode?'}
         subtitle={
           haMode === 'cloud'
@@ -741,6 +804,14 @@ const styles = StyleSheet.create({
     borderRadius: radii.md,
     ...shadows.soft,
   },
+  staleBanner: {
+    backgroundColor: '#fffbeb',
+    color: '#92400e',
+    marginHorizontal: spacing.xl,
+    padding: spacing.sm,
+    borderRadius: radii.md,
+    ...shadows.soft,
+  },
   refreshing: { fontSize: 12, color: '#9ca3af' },
   deviceRow: {
     flexDirection: 'row',
@@ -0,0 +1,310 @@
+// src/screens/SceneEditorScreen.tsx
+import React, { useMemo, useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useSession } from '../store/sessionStore';
+import { useDevices } from '../store/deviceStore';
+import { deleteScene, saveScene } from '../api/scenes';
+import {
+  captureSceneEntity,
+  describeSceneEntity,
+  isSceneBlind,
+  isSceneCapable,
+  type SceneEntityState,
+  type SceneSummary,
+} from '../scenes/sceneModel';
+import type { UIDevice } from '../models/device';
+import { TextField } from '../components/ui/TextField';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { palette, radii, shadows, spacing, maxContentWidth } from '../ui/theme';
+import { friendlyError } from '../ui/friendlyError';
+
+type Props = NativeStackScreenProps<any>;
+
+export function SceneEditorScreen({ route, navigation }: Props) {
+  const scene = route.params?.scene as SceneSummary | undefined;
+  const isEditing = Boolean(scene?.id);
+  const { session, haMode } = useSession();
+  const userId = session.user?.id!;
+  const { devices, refreshing } = useDevices(userId, haMode);
+  const [name, setName] = useState(scene?.name ?? '');
+  const [entities, setEntities] = useState<SceneEntityState[]>(scene?.entities ?? []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () => devices.filter(isSceneCapable).sort((a, b) => a.name.localeCompare(b.name)),
+    [devices]
+  );
+  const byEntityId = useMemo(() => new Map(devices.map((d) => [d.entityId, d])), [devices]);
+
+  const toggleDevice = (device: UIDevice) => {
+    setEntities((prev) =>
+      prev.some((e) => e.entityId === device.entityId)
+        ? prev.filter((e) => e.entityId !== device.entityId)
+        : [...prev, captureSceneEntity(device)]
+    );
+  };
+
+  const updateEntity = (entityId: string, patch: Partial<SceneEntityState>) => {
+    setEntities((prev) => prev.map((e) => (e.entityId === entityId ? { ...e, ...patch } : e)));
+  };
+
+  const captureAll = () => {
+    setEntities((prev) =>
+      prev.map((e) => {
+        const device = byEntityId.get(e.entityId);
+        return device ? captureSceneEntity(device) : e;
+      })
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveScene({ id: scene?.id, name: name.trim(), icon: scene?.icon, entities }, { mode: haMode });
+      navigation.goBack();
+    } catch (err) {
+      setError(friendlyError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!scene?.id) return;
+    Alert.alert('Delete scene?', `"${scene.name}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setSaving(true);
+          try {
+            await deleteScene(scene.id, { mode: haMode });
+            navigation.goBack();
+          } catch (err) {
+            setError(friendlyError(err));
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderValueEditor = (entity: SceneEntityState) => {
+    const domain = entity.entityId.split('.')[0];
+    if (isSceneBlind(entity)) {
+      // Only scenes saved before blinds were left out get here; they must drop the blind to be saved again.
+      return (
+        <View style={styles.valueRow}>
+          <Text style={styles.helper}>Blinds move through the blind controller, so scenes can't include them.</Text>
+          <TouchableOpacity
+            onPress={() => setEntities((prev) => prev.filter((e) => e.entityId !== entity.entityId))}
+            disabled={saving}
+          >
+            <Text style={styles.linkText}>Remove from scene</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <View>
+        <View style={styles.chipRow}>
+          {[true, false].map((on) => (
+            <TouchableOpacity
+              key={String(on)}
+              style={[styles.chip, entity.on === on && styles.chipSelected]}
+              onPress={() => updateEntity(entity.entityId, { on })}
+            >
+              <Text style={[styles.chipText, entity.on === on && styles.chipTextSelected]}>{on ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {entity.on && domain === 'light' ? (
+          <View style={styles.valueRow}>
+            <Text style={styles.valueLabel}>Brightness {entity.brightnessPct ?? 100}%</Text>
+            <Slider
+              style={styles.slider}
+              minimumValue={1}
+              maximumValue={100}
+              step={1}
+              value={entity.brightnessPct ?? 100}
+              onSlidingComplete={(value) => updateEntity(entity.entityId, { brightnessPct: value })}
+              minimumTrackTintColor={palette.primary}
+            />
+          </View>
+        ) : null}
+        {entity.on && domain === 'media_player' ? (
+          <View style={styles.valueRow}>
+            <Text style={styles.valueLabel}>Volume {entity.volumePct ?? 0}%</Text>
+            <Slider
+              style={styles.slider}
+              minimumValue={0}
+              maximumValue={100}
+              step={1}
+              value={entity.volumePct ?? 0}
+              onSlidingComplete={(value) => updateEntity(entity.entityId, { volumePct: value })}
+              minimumTrackTintColor={palette.primary}
+            />
+          </View>
+        ) : null}
+        {entity.on && domain === 'climate' ? (
+          <View style={[styles.valueRow, styles.stepperRow]}>
+            <Text style={styles.valueLabel}>Target {entity.targetTemperature ?? '—'}°</Text>
+            {[-0.5, 0.5].map((delta) => (
+              <TouchableOpacity
+                key={delta}
+                style={styles.chip}
+                onPress={() =>
+                  updateEntity(entity.entityId, { targetTemperature: (entity.targetTemperature ?? 20) + delta })
+                }
+              >
+                <Text style={styles.chipText}>{delta < 0 ? '−' : '+'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backGlyph}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{isEditing ? 'Edit scene' : 'New scene'}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <TextField label="Scene name" placeholder="Movie night" value={name} onChangeText={setName} />
+          <Text style={styles.helper}>
+            Pick devices to include. Their current state is captured; adjust any value before saving.
+          </Text>
+          <View style={styles.chipWrap}>
+            {candidates.map((device) => {
+              const selected = entities.some((e) => e.entityId === device.entityId);
+              return (
+                <TouchableOpacity
+                  key={device.entityId}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleDevice(device)}
+                  disabled={saving}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{device.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {candidates.length === 0 && !refreshing ? (
+            <Text style={styles.helper}>No devices that scenes can control yet.</Text>
+          ) : null}
+        </View>
+
+        {entities.length > 0 ? (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>In this scene</Text>
+              <TouchableOpacity onPress={captureAll} disabled={saving}>
+                <Text style={styles.linkText}>Capture current state</Text>
+              </TouchableOpacity>
+            </View>
+            {entities.map((entity) => (
+              <View key={entity.entityId} style={styles.entityRow}>
+                <View style={styles.entityHeader}>
+                  <Text style={styles.entityName}>{byEntityId.get(entity.entityId)?.name ?? entity.entityId}</Text>
+                  <Text style={styles.entitySummary}>{describeSceneEntity(entity)}</Text>
+                </View>
+                {renderValueEditor(entity)}
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+        <PrimaryButton title={isEditing ? 'Save scene' : 'Create scene'} onPress={handleSave} loading={saving} />
+        {isEditing && scene?.canEdit !== false ? (
+          <PrimaryButton title="Delete scene" variant="danger" onPress={handleDelete} disabled={saving} />
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: palette.background },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+  },
+  backButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    ...shadows.soft,
+  },
+  backGlyph: { fontSize: 18, fontWeight: '700', color: palette.text },
+  headerTitle: { flex: 1, textAlign: 'center', fontSize: 18, fontWeight: '800', color: palette.text },
+  headerSpacer: { width: 42 },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+    width: '100%',
+    maxWidth: maxContentWidth,
+    alignSelf: 'center',
+  },
+  card: {
+    backgroundColor: palette.surface,
+    borderRadius: radii.lg,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    ...shadows.soft,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  cardTitle: { fontSize: 16, fontWeight: '800', color: palette.text },
+  helper: { color: palette.textMuted, fontSize: 12, marginVertical: spacing.sm },
+  chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chipRow: { flexDirection: 'row', marginVertical: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+    marginRight: 8,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+  linkText: { color: palette.primary, fontWeight: '600', fontSize: 12 },
+  entityRow: {
+    marginTop: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: palette.outline,
+  },
+  entityHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  entityName: { fontWeight: '700', color: palette.text },
+  entitySummary: { color: palette.textMuted, fontSize: 12 },
+  valueRow: { marginTop: 4 },
+  stepperRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+  valueLabel: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  slider: { width: '100%', height: 36 },
+  error: { color: palette.danger, fontSize: 13 },
+});
@@ -20,12 +20,30 @@ import { useDevices } from '../../store/deviceStore';
 import {
   getActionsForDevice,
   getEligibleDevicesForAutomations,
+  getThresholdUnit,
   getTriggersForDevice,
   type DeviceActionSpec,
   type DeviceTriggerSpec,
 } from '../../capabilities/deviceCapabilities';
-import { AutomationDraft, AutomationAction, AutomationTrigger } from '../../automations/automationModel';
-import { createAutomation, updateAutomation } from '../../api/automations';
+import {
+  AutomationDraft,
+  AutomationAction,
+  AutomationCondition,
+  AutomationTrigger,
+  PresenceTrigger,
+  SunEvent,
+} from '../../automations/automationModel';
+import { HOME_ZONE } from '../../presence/presenceModel';
+import {
+  createAutomation,
+  listAutomations,
+  summarizeAction,
+  summarizeTrigger,
+  updateAutomation,
+  type AutomationSummary,
+} from '../../api/automations';
+import { useServedHaRoute } from '../../api/haRouter';
+import { findDraftConflicts } from '../../automations/conflicts';
 import { getPrimaryLabel } from '../../utils/deviceLabels';
 import { getBlindPosition, getBrightnessPct, getTargetTemperature, getVolumePct } from '../../capabilities/attributeReaders';
 import { palette, radii, spacing, maxContentWidth, shadows, typography } from '../../ui/theme';
@@ -34,15 +52,33 @@ import { CloudModePrompt } from '../../components/CloudModePrompt';
 import { TextField } from '../../components/ui/TextField';
 import { PrimaryButton } from '../../components/ui/PrimaryButton';
 import { HeaderMenu } from '../../components/HeaderMenu';
+import { AutomationConditionsEditor } from '../../components/AutomationConditionsEditor';
+import { AutomationSimulatorPanel } from '../../components/AutomationSimulatorPanel';
+import { AutomationPresenceTriggerPicker } from '../../components/AutomationPresenceTriggerPicker';
+import {
+  AutomationStepsEditor,
+  actionsFromSteps,
+  stepsFromActions,
+  type AutomationStep,
+} from '../../components/AutomationStepsEditor';
 import { clearDeviceCacheForUserAndMode } from '../../store/deviceStore';
 import { useRemoteAccessStatus } from '../../hooks/useRemoteAccessStatus';
 import { useDeviceStatus } from '../../hooks/useDeviceStatus';
 import { useCloudModeSwitch } from '../../hooks/useCloudModeSwitch';
+import { useScenes } from '../../hooks/useScenes';
+import { usePresence } from '../../hooks/usePresence';
 
 const { InlineWifiSetupLauncher } = NativeModules;
 const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
 const HOURS = Array.from({ length: 24 }, (_, i) => String(i).padStart(2, '0'));
 const MINUTES = Array.from({ length: 60 }, (_, i) => String(i).padStart(2, '0'));
+const SUN_OFFSETS = [-60, -30, -15, 0, 15, 30, 60];
+const DEVICE_TRIGGER_KINDS: AutomationTrigger['kind'][] = [
+  'state',
+  'numeric_threshold',
+  'numeric_delta',
+  'position_equals',
+];
 
 type Props = NativeStackScreenProps<any>;
 
@@ -61,38 +97,83 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
   const isAdmin = session.user?.role === 'ADMIN';
   const isCloud = haMode === 'cloud';
   const remoteAccess = useRemoteAccessStatus(haMode);
+  const { scenes } = useScenes(haMode);
+  const servedRoute = useServedHaRoute();
+  // Presence only exists on the hub, so it is hidden whenever requests would go through the cloud.
+  const presenceAvailable = !isCloud && servedRoute !== 'cloud';
+  const { people, zones, loading: presenceLoading } = usePresence(haMode, presenceAvailable);
+  const [savedAutomations, setSavedAutomations] = useState<AutomationSummary[]>([]);
   const { wifiName, batteryLevel } = useDeviceStatus();
   const dashboardScreen = isAdmin ? 'AdminDashboard' : 'TenantDashboard';
   const addDevicesScreen = isAdmin ? null : 'TenantAddDevices';
 
   const eligibleDevices = useMemo(() => getEligibleDevicesForAutomations(devices), [devices]);
+  // Sensors can only trigger; keep them out of the action picker.
+  const triggerDevices = useMemo(
+    () => eligibleDevices.filter((d) => getTriggersForDevice(d, 'automation').length > 0),
+    [eligibleDevices]
+  );
+  const actionDevices = useMemo(
+    () => eligibleDevices.filter((d) => getActionsForDevice(d, 'automation').length > 0),
+    [eligibleDevices]
+  );
   const [alias, setAlias] = useState(initialDraft?.alias ?? initialAlias ?? (isEditing ? 'Edit automation' : 'New automation'));
   const [description, setDescription] = useState(initialDraft?.description ?? initialDescription ?? '');
 
   const [triggerDeviceId, setTriggerDeviceId] = useState<string | null>(null);
-  const [actionDeviceId, setActionDeviceId] = useState<string | null>(eligibleDevices[0]?.entityId ?? null);
+  const [actionDeviceId, setActionDeviceId] = useState<string | null>(actionDevices[0]?.entityId ?? null);
 
-  const triggerDevice = triggerDeviceId ? eligibleDevices.find((d) => d.entityId === triggerDeviceId) ?? null : null;
-  const actionDevice = eligibleDevices.find((d) => d.entityId === actionDeviceId) ?? null;
+  const triggerDevice = triggerDeviceId ? triggerDevices.find((d) => d.entityId === triggerDeviceId) ?? null : null;
+  const actionDevice = actionDevices.find((d) => d.entityId === actionDeviceId) ?? null;
 
   const triggerSpecs = triggerDevice ? getTriggersForDevice(triggerDevice, 'automation') : [];
   const actionSpecs = actionDevice ? getActionsForDevice(actionDevice, 'automation') : [];
   const [selectedTriggerId, setSelectedTriggerId] = useState<string | null>(triggerSpecs[0]?.id ?? null);
   const [selectedActionId, setSelectedActionId] = useState<string | null>(actionSpecs[0]?.id ?? null);
   const [actionValue, setActionValue] = useState<number | undefined>(undefined);
+  // Amount for relative actions (e.g. raise temperature by 2); kept apart from the absolute value above.
+  const [stepAmount, setStepAmount] = useState<number | undefined>(undefined);
   const [anyTime, setAnyTime] = useState(true);
+  const [triggerSource, setTriggerSource] = useState<'device' | 'presence'>('device');
+  const [presenceTrigger, setPresenceTrigger] = useState<PresenceTrigger>({
+    kind: 'presence',
+    event: 'first_arrives',
+    zone: HOME_ZONE,
+  });
   const [daysOfWeek, setDaysOfWeek] = useState<string[]>([...WEEKDAYS]);
   const [timeHour, setTimeHour] = useState<string | null>(null);
   const [timeMinute, setTimeMinute] = useState<string | null>(null);
+  const [sunEvent, setSunEvent] = useState<SunEvent | null>(null);
+  const [sunOffset, setSunOffset] = useState(0);
+  const [thresholdDirection, setThresholdDirection] = useState<'above' | 'below'>('below');
+  const [thresholdValue, setThresholdValue] = useState('');
+  const [triggerForMinutes, setTriggerForMinutes] = useState('');
+  const [conditions, setConditions] = useState<AutomationCondition[]>(initialDraft?.conditions ?? []);
   const [showHourDropdown, setShowHourDropdown] = useState(false);
   const [showMinuteDropdown, setShowMinuteDropdown] = useState(false);
+  // A single device action prefills the picker; anything longer is edited as steps.
+  const initialIsSequence =
+    (initialDraft?.actions?.length ?? 0) > 1 || (initialDraft?.actions ?? []).some((a) => a.kind !== 'device_command');
+  const [steps, setSteps] = useState<AutomationStep[]>(
+    initialIsSequence && initialDraft ? stepsFromActions(initialDraft.actions) : []
+  );
   const [pendingPrefillAction, setPendingPrefillAction] = useState<AutomationAction | null>(
-    initialDraft?.actions?.[0] ?? null
+    initialIsSequence ? null : initialDraft?.actions?.[0] ?? null
   );
   const [pendingPrefillTrigger, setPendingPrefillTrigger] = useState<AutomationTrigger | null>(
     initialDraft?.triggers?.[0] ?? null
   );
+  // The pickers only approximate some hub triggers and actions (a "from" state, both ends of a range,
+  // a state no spec lists). Until the user changes the picker, the opened one is saved as it was.
+  const [keptTrigger, setKeptTrigger] = useState<AutomationTrigger | null>(() => {
+    const first = initialDraft?.triggers?.[0];
+    return first && DEVICE_TRIGGER_KINDS.includes(first.kind) ? first : null;
+  });
+  const [keptAction, setKeptAction] = useState<AutomationAction | null>(
+    initialIsSequence ? null : initialDraft?.actions?.[0] ?? null
+  );
   const [prefillApplied, setPrefillApplied] = useState(false);
+  const timeDisabled = anyTime || sunEvent !== null;
   const dropdownOpen = showHourDropdown || showMinuteDropdown;
   const activeDropdown = showHourDropdown ? 'hour' : showMinuteDropdown ? 'minute' : null;
   const dropdownData = activeDropdown === 'hour' ? HOURS : MINUTES;
@@ -103,13 +184,19 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
   };
 
   useEffect(() => {
-    if (!isEditing || !initialDraft || prefillApplied) return;
+    if (!initialDraft || prefillApplied) return;
     setAlias(initialDraft.alias ?? initialAlias ?? alias);
     setDescription(initialDraft.description ?? initialDescription ?? '');
 
     if (Array.isArray(initialDraft.daysOfWeek) && initialDraft.daysOfWeek.length > 0) {
       setDaysOfWeek(initialDraft.daysOfWeek);
     }
+    // The day chips own the top-level weekday condition; keep it out of the conditions list.
+    const dayCondition = initialDraft.conditions?.find((c) => c.kind === 'weekday');
+    if (dayCondition && dayCondition.kind === 'weekday') {
+      setDaysOfWeek(dayCondition.daysOfWeek);
+      setConditions((initialDraft.conditions ?? []).filter((c) => c !== dayCondition));
+    }
     const time = initialDraft.triggerTime || (initialDraft.triggers?.find((t) => t.kind === 'time') as any)?.at;
     if (typeof time === 'string' && time.includes(':')) {
       const [h, m] = time.split(':');
@@ -118,22 +205,39 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
     }
 
     const firstTrigger = initialDraft.triggers?.[0];
-    const hasTimeTrigger = firstTrigger?.kind === 'time';
+    const hasTimeTrigger = firstTrigger?.kind === 'time' || firstTrigger?.kind === 'sun';
     setAnyTime(!hasTimeTrigger);
     if (firstTrigger) {
-      if (firstTrigger.kind === 'time') {
+      if (firstTrigger.kind === 'sun') {
+        setTriggerDeviceId(null);
+        setSelectedTriggerId(null);
+        setSunEvent(firstTrigger.event);
+        setSunOffset(firstTrigger.offsetMinutes ?? 0);
+      } else if (firstTrigger.kind === 'time') {
         setTriggerDeviceId(null);
         setSelectedTriggerId(null);
         if (Array.isArray((firstTrigger as any).daysOfWeek)) {
           setDaysOfWeek((firstTrigger as any).daysOfWeek as string[]);
         }
+      } else if (firstTrigger.kind === 'presence') {
+        setTriggerSource('presence');
+        setPresenceTrigger(firstTrigger);
       } else if ((firstTrigger as any).entityId) {
         setTriggerDeviceId((firstTrigger as any).entityId);
       }
+      if (firstTrigger.kind === 'state' && firstTrigger.forMinutes) {
+        setTriggerForMinutes(String(firstTrigger.forMinutes));
+      }
+      if (firstTrigger.kind === 'numeric_threshold') {
+        const below = typeof firstTrigger.below === 'number';
+        setThresholdDirection(below ? 'below' : 'above');
+        setThresholdValue(String((below ? firstTrigger.below : firstTrigger.above) ?? ''));
+        setTriggerForMinutes(firstTrigger.forMinutes ? String(firstTrigger.forMinutes) : '');
+      }
       setPendingPrefillTrigger(firstTrigger);
     }
 
-    const firstAction = initialDraft.actions?.[0];
+    const firstAction = initialIsSequence ? undefined : initialDraft.actions?.[0];
     if (firstAction) {
       if ((firstAction as any).entityId) setActionDeviceId((firstAction as any).entityId);
       if (typeof (firstAction as any).value === 'number') setActionValue((firstAction as any).value);
@@ -141,7 +245,7 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
     }
 
     setPrefillApplied(true);
-  }, [initialDraft, isEditing, prefillApplied, initialAlias, initialDescription]);
+  }, [initialDraft, prefillApplied, initialAlias, initialDescription]);
 
   useEffect(() => {
     setShowHourDropdown(false);
@@ -149,6 +253,8 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
     if (!anyTime) {
       setTriggerDeviceId(null);
       setSelectedTriggerId(null);
+    } else {
+      setSunEvent(null);
     }
   }, [anyTime]);
 
@@ -167,7 +273,8 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
 
   useEffect(() => {
     if (!pendingPrefillTrigger) return;
-    if (pendingPrefillTrigger.kind === 'time') {
+    const kind = pendingPrefillTrigger.kind;
+    if (kind === 'time' || kind === 'sun' || kind === 'presence') {
       setPendingPrefillTrigger(null);
       return;
     }
@@ -198,15 +305,17 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
     const match = findMatchingActionSpec(pendingPrefillAction, actionSpecs);
     if (match) {
       setSelectedActionId(match.id);
+      const value = (pendingPrefillAction as any).value;
+      if (match.kind === 'step' && typeof value === 'number') setStepAmount(value);
     }
     setPendingPrefillAction(null);
   }, [pendingPrefillAction, actionSpecs, actionDevice]);
 
   useEffect(() => {
-    if (actionDeviceId === null && eligibleDevices.length > 0) {
-      setActionDeviceId(eligibleDevices[0].entityId);
+    if (actionDeviceId === null && actionDevices.length > 0) {
+      setActionDeviceId(actionDevices[0].entityId);
     }
-  }, [eligibleDevices, actionDeviceId]);
+  }, [actionDevices, actionDeviceId]);
 
   // Ensure time defaults when days are selected; hide/clear when not.
   useEffect(() => {
@@ -258,56 +367,152 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
     }
   }, [isCloud, remoteAccess.status, switchMode]);
 
-  const save = async () => {
+  const buildSelectedAction = (): AutomationAction | null => {
     if (!actionDevice || !selectedActionId) {
       Alert.alert('Choose an action device and action to continue.');
-      return;
+      return null;
     }
     const actionSpec = actionSpecs.find((a) => a.id === selectedActionId);
-
     if (!actionSpec) {
       Alert.alert('Please choose an action.');
-      return;
+      return null;
     }
+    return toActionDraft(actionSpec, actionDevice, actionSpec.kind === 'step' ? stepAmount : actionValue);
+  };
+
+  const addSelectedActionAsStep = () => {
+    const action = buildSelectedAction();
+    if (action) setSteps((prev) => [...prev, { action, withPrevious: false }]);
+  };
 
-    const actions: AutomationAction[] = [toActionDraft(actionSpec, actionDevice, actionValue)];
+  const buildDraft = (): AutomationDraft | null => {
+    let actions: AutomationAction[];
+    if (steps.length > 0) {
+      actions = actionsFromSteps(steps);
+    } else if (keptAction) {
+      actions = [keptAction];
+    } else {
+      const action = buildSelectedAction();
+      if (!action) return null;
+      actions = [action];
+    }
     const triggers: AutomationTrigger[] = [];
+    const draftConditions: AutomationCondition[] = [...conditions];
 
-    if (anyTime) {
+    if (anyTime && triggerSource === 'presence') {
+      const personal = presenceTrigger.event === 'enters' || presenceTrigger.event === 'leaves';
+      if (personal && !presenceTrigger.entityId) {
+        Alert.alert('Choose the person or phone to follow.');
+        return null;
+      }
+      triggers.push(presenceTrigger);
+      if (daysOfWeek.length > 0 && daysOfWeek.length < WEEKDAYS.length) {
+        draftConditions.unshift({ kind: 'weekday', daysOfWeek });
+      }
+    } else if (anyTime && keptTrigger) {
+      triggers.push(keptTrigger);
+      if (daysOfWeek.length > 0 && daysOfWeek.length < WEEKDAYS.length) {
+        draftConditions.unshift({ kind: 'weekday', daysOfWeek });
+      }
+    } else if (anyTime) {
       if (!triggerDevice || !selectedTriggerId) {
         Alert.alert('Please select a trigger device and condition.');
-        return;
+        return null;
       }
       const triggerSpec = triggerSpecs.find((t) => t.id === selectedTriggerId);
       if (!triggerSpec) {
         Alert.alert('Please select a trigger condition.');
-        return;
+        return null;
+      }
+      const minutes = triggerForMinutes.trim() ? Number(triggerForMinutes.trim()) : null;
+      if (minutes !== null && (!Number.isFinite(minutes) || minutes <= 0)) {
+        Alert.alert('Duration must be a number of minutes.');
+        return null;
+      }
+      if (triggerSpec.kind === 'state' && triggerSpec.requiresDuration && minutes === null) {
+        Alert.alert('Enter how many minutes it should stay that way.');
+        return null;
+      }
+      if (triggerSpec.kind === 'threshold') {
+        const value = Number(thresholdValue.trim());
+        if (!thresholdValue.trim() || !Number.isFinite(value)) {
+          Alert.alert('Enter the value that should trigger this automation.');
+          return null;
+        }
+        triggers.push({
+          kind: 'numeric_threshold',
+          entityId: triggerDevice.entityId,
+          attribute: triggerSpec.attribute ?? null,
+          above: thresholdDirection === 'above' ? value : null,
+          below: thresholdDirection === 'below' ? value : null,
+          forMinutes: minutes,
+        });
+      } else {
+        triggers.push(toTriggerDraft(triggerSpec, triggerDevice, minutes));
+      }
+      if (daysOfWeek.length > 0 && daysOfWeek.length < WEEKDAYS.length) {
+        draftConditions.unshift({ kind: 'weekday', daysOfWeek });
+      }
+    } else if (sunEvent) {
+      triggers.push({ kind: 'sun', event: sunEvent, offsetMinutes: sunOffset });
+      if (daysOfWeek.length > 0 && daysOfWeek.length < WEEKDAYS.length) {
+        draftConditions.unshift({ kind: 'weekday', daysOfWeek });
       }
-      triggers.push(toTriggerDraft(triggerSpec, triggerDevice));
     } else {
       if (daysOfWeek.length === 0) {
         Alert.alert('Select at least one day for the time trigger.');
-        return;
+        return null;
       }
       const timeValue = buildTimeValue(timeHour, timeMinute);
       if (!timeValue) {
         Alert.alert('Choose a specific time (HH:MM).');
-        return;
+        return null;
       }
       triggers.push({ kind: 'time', at: timeValue, daysOfWeek });
     }
 
-    const draft: AutomationDraft = {
+    return {
       id: automationId,
       alias,
       description,
       triggers,
       actions,
-      mode: 'single',
-      daysOfWeek,
-      triggerTime: anyTime ? null : buildTimeValue(timeHour, timeMinute),
+      mode: initialDraft?.mode ?? 'single',
+      conditions: draftConditions,
     };
+  };
 
+  // Only used to warn about conflicts; saving works without it.
+  useEffect(() => {
+    let cancelled = false;
+    listAutomations({ haConnection: session.haConnection, mode: haMode })
+      .then((list) => {
+        if (!cancelled) setSavedAutomations(list);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [haMode, session.haConnection]);
+
+  const save = async () => {
+    const draft = buildDraft();
+    if (!draft) return;
+    const others = savedAutomations.flatMap((a) =>
+      a.draft ? [{ id: a.id, alias: a.alias, draft: a.draft, enabled: a.enabled }] : []
+    );
+    const conflicts = findDraftConflicts({ id: automationId ?? '', alias, draft }, others, devices);
+    if (conflicts.length > 0) {
+      Alert.alert('Possible conflict', conflicts.map((c) => c.message).join('\n\n'), [
+        { text: 'Keep editing', style: 'cancel' },
+        { text: 'Save anyway', onPress: () => void persist(draft) },
+      ]);
+      return;
+    }
+    await persist(draft);
+  };
+
+  const persist = async (draft: AutomationDraft) => {
     try {
       if (isEditing && automationId) {
         await updateAutomation(automationId, draft, { haConnection: session.haConnection, mode: haMode });
@@ -428,31 +633,31 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                 </ScrollView>
 
                 <View style={{ height: spacing.xs }} />
-                <Text style={[styles.label, styles.subLabel, anyTime && styles.disabledText]}>Specific time</Text>
+                <Text style={[styles.label, styles.subLabel, timeDisabled && styles.disabledText]}>Specific time</Text>
                 <View style={[styles.dropdownRow, styles.timeRow]}>
-                  <View style={[styles.dropdown, anyTime && styles.dropdownDisabled]}>
+                  <View style={[styles.dropdown, timeDisabled && styles.dropdownDisabled]}>
                     <TouchableOpacity
                       style={styles.dropdownHeader}
                       onPress={() => {
                         setShowHourDropdown((v) => !v);
                         setShowMinuteDropdown(false);
                       }}
-                      disabled={anyTime}
+                      disabled={timeDisabled}
                     >
-                      <Text style={[styles.dropdownHeaderText, anyTime && styles.disabledText]}>{timeHour ?? 'HH'}</Text>
+                      <Text style={[styles.dropdownHeaderText, timeDisabled && styles.disabledText]}>{timeHour ?? 'HH'}</Text>
                     </TouchableOpacity>
                   </View>
-                  <Text style={[styles.timeDivider, anyTime && styles.disabledText]}>:</Text>
-                  <View style={[styles.dropdown, anyTime && styles.dropdownDisabled]}>
+                  <Text style={[styles.timeDivider, timeDisabled && styles.disabledText]}>:</Text>
+                  <View style={[styles.dropdown, timeDisabled && styles.dropdownDisabled]}>
                     <TouchableOpacity
                       style={styles.dropdownHeader}
                       onPress={() => {
                         setShowMinuteDropdown((v) => !v);
                         setShowHourDropdown(false);
                       }}
-                      disabled={anyTime}
+                      disabled={timeDisabled}
                     >
-                      <Text style={[styles.dropdownHeaderText, anyTime && styles.disabledText]}>{timeMinute ?? 'MM'}</Text>
+                      <Text style={[styles.dropdownHeaderText, timeDisabled && styles.disabledText]}>{timeMinute ?? 'MM'}</Text>
                     </TouchableOpacity>
                   </View>
                   <TouchableOpacity
@@ -465,10 +670,10 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                   </TouchableOpacity>
                 </View>
                 <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8 }}>
-                  <Text style={[styles.helper, anyTime && styles.disabledText]}>
+                  <Text style={[styles.helper, timeDisabled && styles.disabledText]}>
                     {timeHour && timeMinute ? `Selected: ${timeHour}:${timeMinute}` : 'No time set'}
                   </Text>
-                  {(timeHour || timeMinute) && !anyTime && (
+                  {(timeHour || timeMinute) && !timeDisabled && (
                     <TouchableOpacity
                       style={[styles.chip, { marginLeft: 10 }]}
                       onPress={() => {
@@ -482,37 +687,137 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                     </TouchableOpacity>
                   )}
                 </View>
+
+                <View style={{ height: spacing.sm }} />
+                <Text style={[styles.label, styles.subLabel]}>Or at sunrise / sunset</Text>
+                <View style={styles.sunRow}>
+                  {(['sunrise', 'sunset'] as const).map((event) => {
+                    const selected = sunEvent === event;
+                    return (
+                      <TouchableOpacity
+                        key={event}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => {
+                          closeDropdowns();
+                          if (selected) {
+                            setSunEvent(null);
+                            return;
+                          }
+                          setAnyTime(false);
+                          setSunEvent(event);
+                        }}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {event === 'sunrise' ? 'Sunrise' : 'Sunset'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {sunEvent && (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: 6 }}>
+                    {SUN_OFFSETS.map((offset) => {
+                      const selected = sunOffset === offset;
+                      return (
+                        <TouchableOpacity
+                          key={offset}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setSunOffset(offset)}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                            {offset === 0 ? 'On time' : `${Math.abs(offset)} min ${offset < 0 ? 'before' : 'after'}`}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                )}
               </View>
               {anyTime ? (
                 <Text style={styles.helper}>Any time (00:00–23:59). You can still pick days to limit when it runs.</Text>
+              ) : sunEvent ? (
+                <Text style={styles.helper}>Follows {sunEvent} through the seasons. Days limit when it runs.</Text>
               ) : (
                 <Text style={styles.helper}>Select at least one day and a time.</Text>
               )}
             </View>
 
             {anyTime && (
+              <View style={styles.field}>
+                <Text style={styles.label}>Triggered by</Text>
+                <View style={styles.sunRow}>
+                  {(presenceAvailable ? (['device', 'presence'] as const) : (['device'] as const)).map((source) => {
+                    const selected = triggerSource === source;
+                    return (
+                      <TouchableOpacity
+                        key={source}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => setTriggerSource(source)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {source === 'device' ? 'A device' : 'People coming and going'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {anyTime && triggerSource === 'presence' && !presenceAvailable && (
+              <Text style={styles.helper}>
+                People triggers can only be changed through the Dinodia Hub. Connect to your home Wi-Fi, or pick a
+                device trigger instead.
+              </Text>
+            )}
+
+            {anyTime && triggerSource === 'presence' && presenceAvailable && (
+              <View style={styles.field}>
+                <AutomationPresenceTriggerPicker
+                  value={presenceTrigger}
+                  people={people}
+                  zones={zones}
+                  loading={presenceLoading}
+                  disabled={refreshing}
+                  onChange={setPresenceTrigger}
+                />
+              </View>
+            )}
+
+            {anyTime && triggerSource === 'device' && (
               <>
+                {keptTrigger ? (
+                  <Text style={styles.helper}>
+                    Saved trigger: {summarizeTrigger(keptTrigger)}. It is kept as it is unless you pick another below.
+                  </Text>
+                ) : null}
                 <View style={styles.field}>
                   <Text style={styles.label}>Trigger device</Text>
-                  {eligibleDevices.length === 0 ? (
+                  {triggerDevices.length === 0 ? (
                     <Text style={styles.helper}>No eligible devices for automations.</Text>
                   ) : (
                     <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginVertical: 6 }}>
                       <TouchableOpacity
                         key="none"
                         style={[styles.chip, triggerDeviceId === null && styles.chipSelected]}
-                        onPress={() => setTriggerDeviceId(null)}
+                        onPress={() => {
+                          setKeptTrigger(null);
+                          setTriggerDeviceId(null);
+                        }}
                         disabled={refreshing}
                       >
                         <Text style={[styles.chipText, triggerDeviceId === null && styles.chipTextSelected]}>None</Text>
                       </TouchableOpacity>
-                      {eligibleDevices.map((d) => {
+                      {triggerDevices.map((d) => {
                         const selected = d.entityId === triggerDeviceId;
                         return (
                           <TouchableOpacity
                             key={d.entityId}
                             style={[styles.chip, selected && styles.chipSelected]}
-                            onPress={() => setTriggerDeviceId(d.entityId)}
+                            onPress={() => {
+                              setKeptTrigger(null);
+                              setTriggerDeviceId(d.entityId);
+                            }}
                             disabled={refreshing}
                           >
                             <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{d.name}</Text>
@@ -535,7 +840,10 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                           <TouchableOpacity
                             key={t.id}
                             style={[styles.rowItem, selected && styles.rowItemSelected]}
-                            onPress={() => setSelectedTriggerId(t.id)}
+                            onPress={() => {
+                              setKeptTrigger(null);
+                              setSelectedTriggerId(t.id);
+                            }}
                           >
                             <Text style={[styles.rowItemText, selected && styles.rowItemTextSelected]}>{t.label}</Text>
                           </TouchableOpacity>
@@ -544,25 +852,107 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                     )}
                   </View>
                 )}
+
+                {triggerDevice &&
+                  (() => {
+                    const spec = triggerSpecs.find((t) => t.id === selectedTriggerId);
+                    if (spec?.kind === 'state') {
+                      return (
+                        <View style={styles.field}>
+                          <TextField
+                            label={spec.requiresDuration ? 'Minutes' : 'Has stayed this way for (minutes, optional)'}
+                            placeholder={spec.requiresDuration ? 'e.g. 5' : 'Straight away'}
+                            value={triggerForMinutes}
+                            onChangeText={(text) => {
+                              setKeptTrigger(null);
+                              setTriggerForMinutes(text);
+                            }}
+                            keyboardType="numeric"
+                          />
+                        </View>
+                      );
+                    }
+                    if (!spec || spec.kind !== 'threshold') return null;
+                    const unit = getThresholdUnit(triggerDevice, spec);
+                    const current = spec.attribute ? triggerDevice.attributes?.[spec.attribute] : triggerDevice.state;
+                    return (
+                      <View style={styles.field}>
+                        <View style={styles.sunRow}>
+                          {(['below', 'above'] as const).map((direction) => {
+                            const selected = thresholdDirection === direction;
+                            return (
+                              <TouchableOpacity
+                                key={direction}
+                                style={[styles.chip, selected && styles.chipSelected]}
+                                onPress={() => {
+                                  setKeptTrigger(null);
+                                  setThresholdDirection(direction);
+                                }}
+                              >
+                                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                                  {direction === 'below' ? 'Drops below' : 'Rises above'}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                        <View style={{ height: spacing.sm }} />
+                        <TextField
+                          label={unit ? `Value (${unit})` : 'Value'}
+                          placeholder="e.g. 18"
+                          value={thresholdValue}
+                          onChangeText={(text) => {
+                            setKeptTrigger(null);
+                            setThresholdValue(text);
+                          }}
+                          keyboardType="numeric"
+                        />
+                        <TextField
+                          label="For at least (minutes, optional)"
+                          placeholder="Straight away"
+                          value={triggerForMinutes}
+                          onChangeText={(text) => {
+                            setKeptTrigger(null);
+                            setTriggerForMinutes(text);
+                          }}
+                          keyboardType="numeric"
+                        />
+                        {current !== undefined && current !== null && String(current).trim() !== '' ? (
+                          <Text style={styles.helper}>
+                            Now: {String(current)}
+                            {unit ? ` ${unit}` : ''}
+                          </Text>
+                        ) : null}
+                      </View>
+                    );
+                  })()}
               </>
             )}
           </View>
 
           <View style={[styles.sectionCard, styles.sectionHalf]}>
             <Text style={styles.sectionTitle}>Action</Text>
+            {keptAction && steps.length === 0 ? (
+              <Text style={styles.helper}>
+                Saved action: {summarizeAction(keptAction)}. It is kept as it is unless you pick another below.
+              </Text>
+            ) : null}
             <View style={styles.field}>
               <Text style={styles.label}>Action device</Text>
-              {eligibleDevices.length === 0 ? (
+              {actionDevices.length === 0 ? (
                 <Text style={styles.helper}>No eligible devices for automations.</Text>
               ) : (
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginVertical: 6 }}>
-                  {eligibleDevices.map((d) => {
+                  {actionDevices.map((d) => {
                     const selected = d.entityId === actionDeviceId;
                     return (
                       <TouchableOpacity
                         key={d.entityId}
                         style={[styles.chip, selected && styles.chipSelected]}
-                        onPress={() => setActionDeviceId(d.entityId)}
+                        onPress={() => {
+                          setKeptAction(null);
+                          setActionDeviceId(d.entityId);
+                        }}
                         disabled={refreshing}
                       >
                         <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{d.name}</Text>
@@ -584,7 +974,10 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                     <TouchableOpacity
                       key={a.id}
                       style={[styles.rowItem, selected && styles.rowItemSelected]}
-                      onPress={() => setSelectedActionId(a.id)}
+                      onPress={() => {
+                        setKeptAction(null);
+                        setSelectedActionId(a.id);
+                      }}
                     >
                       <Text style={[styles.rowItemText, selected && styles.rowItemTextSelected]}>{a.label}</Text>
                     </TouchableOpacity>
@@ -620,7 +1013,34 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
                       maximumValue={max}
                       step={step}
                       value={current}
-                      onValueChange={(v) => setActionValue(v)}
+                      onValueChange={(v) => {
+                        setKeptAction(null);
+                        setActionValue(v);
+                      }}
+                      minimumTrackTintColor={palette.primary}
+                      maximumTrackTintColor={palette.outline}
+                      thumbTintColor={palette.primary}
+                    />
+                  </View>
+                );
+              }
+              if (spec.kind === 'step') {
+                const amount = stepValue(spec, stepAmount);
+                return (
+                  <View style={styles.field}>
+                    <Text style={styles.label}>
+                      {spec.label}: {amount}
+                      {spec.unit}
+                    </Text>
+                    <Slider
+                      minimumValue={spec.min}
+                      maximumValue={spec.max}
+                      step={spec.step}
+                      value={amount}
+                      onValueChange={(v) => {
+                        setKeptAction(null);
+                        setStepAmount(v);
+                      }}
                       minimumTrackTintColor={palette.primary}
                       maximumTrackTintColor={palette.outline}
                       thumbTintColor={palette.primary}
@@ -630,9 +1050,45 @@ export function AutomationEditorScreen({ route, navigation }: Props) {
               }
               return null;
             })()}
+
+            <TouchableOpacity
+              style={[styles.chip, styles.addStepButton]}
+              onPress={addSelectedActionAsStep}
+              disabled={refreshing || !actionDevice}
+            >
+              <Text style={styles.chipText}>+ Add as step</Text>
+            </TouchableOpacity>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Steps</Text>
+              <AutomationStepsEditor
+                steps={steps}
+                devices={devices}
+                scenes={scenes}
+                disabled={refreshing}
+                onChange={setSteps}
+              />
+            </View>
           </View>
         </View>
 
+        <View style={[styles.sectionCard, styles.conditionsCard]}>
+          <Text style={styles.sectionTitle}>Conditions</Text>
+          <AutomationConditionsEditor
+            conditions={conditions}
+            devices={devices}
+            zones={zones}
+            allowPresence={presenceAvailable}
+            disabled={refreshing}
+            onChange={setConditions}
+          />
+        </View>
+
+        <View style={[styles.sectionCard, styles.conditionsCard]}>
+          <Text style={styles.sectionTitle}>Test run</Text>
+          <AutomationSimulatorPanel devices={devices} buildDraft={buildDraft} disabled={refreshing} />
+        </View>
+
         <PrimaryButton
           title={isEditing ? 'Save changes' : 'Create automation'}
           onPress={save}
@@ -724,6 +1180,8 @@ function toActionDraft(spec: DeviceActionSpec, device: any, value?: number): Aut
       return { kind: 'device_command', command: spec.command, entityId: device.entityId, value: spec.value };
     case 'slider':
       return { kind: 'device_command', command: spec.command, entityId: device.entityId, value: value };
+    case 'step':
+      return { kind: 'device_command', command: spec.command, entityId: device.entityId, value: stepValue(spec, value) };
     case 'toggle': {
       // Should not appear for automation surface; fallback to deterministic "on".
       return { kind: 'device_command', command: spec.commandOn, entityId: device.entityId };
@@ -735,10 +1193,15 @@ function toActionDraft(spec: DeviceActionSpec, device: any, value?: number): Aut
   }
 }
 
-function toTriggerDraft(spec: DeviceTriggerSpec, device: any): AutomationTrigger {
+// An amount picked for another action may be out of this one's range; fall back to its default.
+function stepValue(spec: Extract<DeviceActionSpec, { kind: 'step' }>, value: number | undefined): number {
+  return value !== undefined && value >= spec.min && value <= spec.max ? value : spec.defaultValue;
+}
+
+function toTriggerDraft(spec: DeviceTriggerSpec, device: any, forMinutes?: number | null): AutomationTrigger {
   switch (spec.kind) {
     case 'state':
-      return { kind: 'state', entityId: device.entityId, to: spec.entityState };
+      return { kind: 'state', entityId: device.entityId, to: spec.entityState, forMinutes: forMinutes ?? null };
     case 'attribute_delta':
       return { kind: 'numeric_delta', entityId: device.entityId, attribute: spec.attribute, direction: spec.direction };
     case 'position':
@@ -761,6 +1224,7 @@ function findMatchingActionSpec(action: AutomationAction, specs: DeviceActionSpe
     specs.find((s) => s.kind === 'button' && s.command === action.command) ||
     specs.find((s) => s.kind === 'fixed' && s.command === action.command) ||
     specs.find((s) => s.kind === 'slider' && s.command === action.command) ||
+    specs.find((s) => s.kind === 'step' && s.command === action.command) ||
     specs.find((s) => s.kind === 'toggle' && (s.commandOn === action.command || s.commandOff === action.command)) ||
     null
   );
@@ -769,13 +1233,23 @@ function findMatchingActionSpec(action: AutomationAction, specs: DeviceActionSpe
 function findMatchingTriggerSpec(trigger: AutomationTrigger, specs: DeviceTriggerSpec[]): DeviceTriggerSpec | null {
   switch (trigger.kind) {
     case 'state':
-      return specs.find((s) => s.kind === 'state' && s.entityState === trigger.to) ?? null;
+      return (
+        specs.find(
+          (s) => s.kind === 'state' && s.entityState === trigger.to && !!s.requiresDuration === !!trigger.forMinutes
+        ) ??
+        specs.find((s) => s.kind === 'state' && s.entityState === trigger.to) ??
+        null
+      );
     case 'numeric_delta':
       return specs.find(
         (s) => s.kind === 'attribute_delta' && s.attribute === trigger.attribute && s.direction === trigger.direction
       ) ?? null;
     case 'position_equals':
       return specs.find((s) => s.kind === 'position' && s.equals === trigger.value) ?? null;
+    case 'numeric_threshold':
+      return (
+        specs.find((s) => s.kind === 'threshold' && (s.attribute ?? null) === (trigger.attribute ?? null)) ?? null
+      );
     case 'time':
       return specs.find((s) => s.kind === 'time') ?? null;
     default:
@@ -833,6 +1307,8 @@ const styles = StyleSheet.create({
     overflow: 'visible',
   },
   triggerCard: { zIndex: 50 },
+  addStepButton: { alignSelf: 'flex-start', marginBottom: spacing.md },
+  conditionsCard: { width: '100%', maxWidth: maxContentWidth, flex: 0 },
   sectionHalf: { minWidth: 0 },
   sectionTitle: { fontSize: 16, fontWeight: '700', color: palette.text, marginBottom: spacing.sm },
   field: { marginBottom: spacing.md },
@@ -910,6 +1386,7 @@ const styles = StyleSheet.create({
   dropdownDisabled: { opacity: 0.7 },
   disabledText: { color: palette.textMuted },
   timeRow: { flexWrap: 'nowrap', gap: spacing.sm },
+  sunRow: { flexDirection: 'row', alignItems: 'center' },
   dropdownBackdrop: {
     flex: 1,
     backgroundColor: 'rgba(15,23,42,0.35)',
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useSession } from '../../store/sessionStore';
+import { useDevices } from '../../store/deviceStore';
+import { useScenes } from '../../hooks/useScenes';
+import { createAutomation } from '../../api/automations';
+import {
+  parseAutomationBundle,
+  planAutomationBundleImport,
+  type BundleImportPlan,
+} from '../../automations/automationBundle';
+import { TextField } from '../../components/ui/TextField';
+import { PrimaryButton } from '../../components/ui/PrimaryButton';
+import { palette, maxContentWidth, radii, shadows, spacing, typography } from '../../ui/theme';
+
+type Props = NativeStackScreenProps<any>;
+
+export function AutomationImportScreen({ navigation }: Props) {
+  const { session, haMode } = useSession();
+  const userId = session.user?.id!;
+  const { devices } = useDevices(userId, haMode);
+  const { scenes } = useScenes(haMode);
+  const [text, setText] = useState('');
+  const [plan, setPlan] = useState<BundleImportPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const ready = plan ? plan.items.filter((item) => item.problems.length === 0) : [];
+
+  const check = () => {
+    try {
+      setPlan(planAutomationBundleImport(parseAutomationBundle(text.trim()), devices, scenes));
+      setError(null);
+    } catch (err: any) {
+      setPlan(null);
+      setError(err?.message ?? 'Unable to read this bundle.');
+    }
+  };
+
+  const runImport = async () => {
+    if (!plan || ready.length === 0) return;
+    setImporting(true);
+    const failed: string[] = [];
+    for (const item of ready) {
+      try {
+        await createAutomation(item.draft, { haConnection: session.haConnection, mode: haMode });
+      } catch (err: any) {
+        failed.push(`${item.draft.alias}: ${err?.message ?? 'could not be saved'}`);
+      }
+    }
+    setImporting(false);
+    const created = ready.length - failed.length;
+    const skipped = plan.items.length - ready.length;
+    const lines = [
+      `${created} automation${created === 1 ? '' : 's'} created.`,
+      skipped > 0 ? `${skipped} skipped because of unresolved devices or scenes.` : null,
+      ...failed,
+    ].filter(Boolean);
+    Alert.alert('Import finished', lines.join('\n'), [{ text: 'OK', onPress: () => navigation.goBack() }]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backGlyph}>‹</Text>
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Import automations</Text>
+          <Text style={styles.subtitle}>
+            Paste a bundle exported from another home. Devices are matched by area and label.
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <TextField
+          label="Bundle"
+          value={text}
+          onChangeText={(value) => {
+            setText(value);
+            setPlan(null);
+          }}
+          placeholder='{ "format": "dinodia-automations", … }'
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.bundleInput}
+        />
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+        <PrimaryButton title="Check bundle" onPress={check} disabled={!text.trim()} style={styles.button} />
+
+        {plan ? (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Devices</Text>
+              {plan.devices.length === 0 ? <Text style={styles.muted}>No devices referenced.</Text> : null}
+              {plan.devices.map((match) => (
+                <View key={match.ref.ref} style={styles.row}>
+                  <Text style={[styles.glyph, match.device ? styles.ok : styles.warn]}>
+                    {match.device ? '✓' : '✕'}
+                  </Text>
+                  <View style={styles.rowBody}>
+                    <Text style={styles.rowTitle}>
+                      {match.ref.name}
+                      <Text style={styles.muted}>
+                        {' '}
+                        · {[match.ref.area, match.ref.label].filter(Boolean).join(' · ')}
+                      </Text>
+                    </Text>
+                    <Text style={match.device ? styles.muted : styles.warnText}>
+                      {match.device ? `→ ${match.device.name}` : match.reason}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Automations</Text>
+              {plan.items.map((item, idx) => (
+                <View key={`${item.draft.alias}-${idx}`} style={styles.row}>
+                  <Text style={[styles.glyph, item.problems.length === 0 ? styles.ok : styles.warn]}>
+                    {item.problems.length === 0 ? '✓' : '✕'}
+                  </Text>
+                  <View style={styles.rowBody}>
+                    <Text style={styles.rowTitle}>{item.draft.alias}</Text>
+                    {item.problems.length === 0 ? <Text style={styles.muted}>Ready to create.</Text> : null}
+                    {item.problems.map((problem) => (
+                      <Text key={problem} style={styles.warnText}>
+                        {problem}
+                      </Text>
+                    ))}
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <PrimaryButton
+              title={`Import ${ready.length} of ${plan.items.length} automation${plan.items.length === 1 ? '' : 's'}`}
+              onPress={() => void runImport()}
+              loading={importing}
+              disabled={ready.length === 0}
+              style={styles.button}
+            />
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: palette.background },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+  },
+  backButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    ...shadows.soft,
+  },
+  backGlyph: { fontSize: 18, fontWeight: '700', color: palette.text },
+  headerText: { flex: 1 },
+  title: { ...typography.heading },
+  subtitle: { color: palette.textMuted, marginTop: 4, fontSize: 13 },
+  content: {
+    width: '100%',
+    maxWidth: maxContentWidth,
+    alignSelf: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.md,
+  },
+  bundleInput: { minHeight: 160, textAlignVertical: 'top', fontSize: 12 },
+  button: { marginTop: spacing.xs },
+  card: {
+    backgroundColor: '#f9fafb',
+    borderRadius: radii.xl,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.xs,
+    ...shadows.soft,
+  },
+  sectionTitle: { fontSize: 12, fontWeight: '700', color: palette.textMuted, marginBottom: 4 },
+  row: { flexDirection: 'row', gap: spacing.sm, paddingVertical: 3 },
+  glyph: { width: 14, fontWeight: '800', textAlign: 'center' },
+  ok: { color: '#15803d' },
+  warn: { color: '#b45309' },
+  rowBody: { flex: 1 },
+  rowTitle: { fontSize: 13, fontWeight: '600', color: palette.text },
+  muted: { color: palette.textMuted, fontSize: 12, fontWeight: '400' },
+  warnText: { color: '#b45309', fontSize: 12 },
+  errorText: { color: palette.danger, fontSize: 13 },
+});
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useSession } from '../../store/sessionStore';
+import { useDevices } from '../../store/deviceStore';
+import {
+  AUTOMATION_TEMPLATES,
+  buildTemplateDraft,
+  getDefaultTemplateValues,
+  getDevicesForRole,
+  type AutomationTemplate,
+  type TemplateRole,
+  type TemplateSelections,
+  type TemplateValues,
+} from '../../automations/templates';
+import { TextField } from '../../components/ui/TextField';
+import { PrimaryButton } from '../../components/ui/PrimaryButton';
+import { palette, maxContentWidth, radii, shadows, spacing, typography } from '../../ui/theme';
+
+type Props = NativeStackScreenProps<any>;
+
+export function AutomationTemplatesScreen({ navigation }: Props) {
+  const { session, haMode } = useSession();
+  const userId = session.user?.id!;
+  const { devices } = useDevices(userId, haMode);
+  const [selected, setSelected] = useState<AutomationTemplate | null>(null);
+  const [selections, setSelections] = useState<TemplateSelections>({});
+  const [values, setValues] = useState<TemplateValues>({});
+
+  const candidates = useMemo(() => {
+    const byRole: Record<string, ReturnType<typeof getDevicesForRole>> = {};
+    (selected?.roles ?? []).forEach((role) => {
+      byRole[role.key] = getDevicesForRole(role, devices);
+    });
+    return byRole;
+  }, [selected, devices]);
+
+  const choose = (template: AutomationTemplate) => {
+    setSelected(template);
+    setValues(getDefaultTemplateValues(template));
+    // Preselect a role's device when there is only one that fits.
+    const initial: TemplateSelections = {};
+    template.roles.forEach((role) => {
+      const fits = getDevicesForRole(role, devices);
+      initial[role.key] = fits.length === 1 ? fits : [];
+    });
+    setSelections(initial);
+  };
+
+  const toggleDevice = (role: TemplateRole, entityId: string) => {
+    setSelections((prev) => {
+      const current = prev[role.key] ?? [];
+      const device = (candidates[role.key] ?? []).find((d) => d.entityId === entityId);
+      if (!device) return prev;
+      const isChosen = current.some((d) => d.entityId === entityId);
+      const next = isChosen
+        ? current.filter((d) => d.entityId !== entityId)
+        : role.multiple
+          ? [...current, device]
+          : [device];
+      return { ...prev, [role.key]: next };
+    });
+  };
+
+  const proceed = () => {
+    if (!selected) return;
+    try {
+      const draft = buildTemplateDraft(selected, selections, values);
+      navigation.navigate('AutomationEditor', { draft });
+    } catch (err: any) {
+      Alert.alert('Almost there', err?.message ?? 'Check the template settings.');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => (selected ? setSelected(null) : navigation.goBack())}
+        >
+          <Text style={styles.backGlyph}>‹</Text>
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{selected ? selected.title : 'Automation templates'}</Text>
+          <Text style={styles.subtitle}>
+            {selected
+              ? selected.description
+              : 'Start from a common recipe, pick your devices, then fine-tune it in the editor.'}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {!selected
+          ? AUTOMATION_TEMPLATES.map((template) => {
+              const missing = template.roles.filter((role) => getDevicesForRole(role, devices).length === 0);
+              return (
+                <TouchableOpacity key={template.id} style={styles.card} onPress={() => choose(template)}>
+                  <Text style={styles.cardTitle}>{template.title}</Text>
+                  <Text style={styles.muted}>{template.description}</Text>
+                  {missing.length > 0 ? (
+                    <Text style={styles.warnText}>
+                      Needs {missing.map((role) => role.label.toLowerCase()).join(' and ')} you don't have yet.
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+              );
+            })
+          : null}
+
+        {selected ? (
+          <>
+            {selected.roles.map((role) => {
+              const options = candidates[role.key] ?? [];
+              const chosen = selections[role.key] ?? [];
+              return (
+                <View key={role.key} style={styles.card}>
+                  <Text style={styles.sectionTitle}>
+                    {role.label}
+                    {role.multiple ? ' (one or more)' : ''}
+                  </Text>
+                  {options.length === 0 ? (
+                    <Text style={styles.warnText}>No suitable devices in this home.</Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {options.map((device) => {
+                        const isChosen = chosen.some((d) => d.entityId === device.entityId);
+                        return (
+                          <TouchableOpacity
+                            key={device.entityId}
+                            style={[styles.chip, isChosen && styles.chipSelected]}
+                            onPress={() => toggleDevice(role, device.entityId)}
+                          >
+                            <Text style={[styles.chipText, isChosen && styles.chipTextSelected]}>
+                              {device.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            {selected.params.length > 0 ? (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Settings</Text>
+                {selected.params.map((param) => (
+                  <TextField
+                    key={param.key}
+                    label={param.kind === 'number' ? `${param.label} (${param.unit})` : `${param.label} (HH:MM)`}
+                    value={values[param.key] ?? ''}
+                    onChangeText={(text) => setValues((prev) => ({ ...prev, [param.key]: text }))}
+                    keyboardType={param.kind === 'number' ? 'numbers-and-punctuation' : 'default'}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                ))}
+              </View>
+            ) : null}
+
+            <PrimaryButton title="Continue in editor" onPress={proceed} style={styles.button} />
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: palette.background },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+  },
+  backButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    ...shadows.soft,
+  },
+  backGlyph: { fontSize: 18, fontWeight: '700', color: palette.text },
+  headerText: { flex: 1 },
+  title: { ...typography.heading },
+  subtitle: { color: palette.textMuted, marginTop: 4, fontSize: 13 },
+  content: {
+    width: '100%',
+    maxWidth: maxContentWidth,
+    alignSelf: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.md,
+  },
+  button: { marginTop: spacing.xs },
+  card: {
+    backgroundColor: '#f9fafb',
+    borderRadius: radii.xl,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.xs,
+    ...shadows.soft,
+  },
+  cardTitle: { fontSize: 15, fontWeight: '700', color: palette.text },
+  sectionTitle: { fontSize: 12, fontWeight: '700', color: palette.textMuted, marginBottom: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surfaceMuted,
+  },
+  chipSelected: { backgroundColor: 'rgba(10,132,255,0.12)', borderColor: palette.primary },
+  chipText: { fontSize: 12, color: palette.textMuted, fontWeight: '600' },
+  chipTextSelected: { color: palette.primary },
+  muted: { color: palette.textMuted, fontSize: 12, fontWeight: '400' },
+  warnText: { color: '#b45309', fontSize: 12 },
+});
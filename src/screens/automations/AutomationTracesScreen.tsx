@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useSession } from '../../store/sessionStore';
+import {
+  getAutomationTrace,
+  listAutomationTraces,
+  type AutomationTraceDetail,
+  type AutomationTraceRun,
+  type AutomationTraceStep,
+  type TraceStepOutcome,
+} from '../../api/automationTraces';
+import { PrimaryButton } from '../../components/ui/PrimaryButton';
+import { palette, maxContentWidth, radii, shadows, spacing, typography } from '../../ui/theme';
+
+type Props = NativeStackScreenProps<any>;
+
+const EXECUTION_COPY: Record<string, { label: string; tone: 'ok' | 'warn' | 'error' }> = {
+  finished: { label: 'Completed', tone: 'ok' },
+  running: { label: 'Running', tone: 'ok' },
+  failed_conditions: { label: 'Stopped: conditions not met', tone: 'warn' },
+  failed_single: { label: 'Skipped: already running', tone: 'warn' },
+  failed_max_runs: { label: 'Skipped: too many runs', tone: 'warn' },
+  aborted: { label: 'Aborted', tone: 'warn' },
+  cancelled: { label: 'Cancelled', tone: 'warn' },
+  timeout: { label: 'Timed out', tone: 'warn' },
+  error: { label: 'Failed with an error', tone: 'error' },
+};
+
+const OUTCOME_COPY: Record<TraceStepOutcome, { glyph: string; color: string }> = {
+  passed: { glyph: '✓', color: '#15803d' },
+  ran: { glyph: '✓', color: '#15803d' },
+  failed: { glyph: '✕', color: '#b45309' },
+  error: { glyph: '!', color: palette.danger },
+  not_reached: { glyph: '–', color: palette.textMuted },
+};
+
+function describeExecution(run: AutomationTraceRun) {
+  if (run.state === 'running') return EXECUTION_COPY.running;
+  if (run.error && run.execution !== 'error') return { label: 'Completed with errors', tone: 'error' as const };
+  return EXECUTION_COPY[run.execution ?? ''] ?? { label: run.execution ?? 'Unknown', tone: 'warn' as const };
+}
+
+function formatTime(value: string | null) {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function formatDurationMs(run: AutomationTraceRun) {
+  if (!run.startedAt || !run.finishedAt) return null;
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  if (!Number.isFinite(ms) || ms < 0) return null;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function AutomationTracesScreen({ route, navigation }: Props) {
+  const automationId = route.params?.automationId as string;
+  const alias = (route.params?.alias as string | undefined) ?? automationId;
+  const { session, haMode } = useSession();
+  const [runs, setRuns] = useState<AutomationTraceRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, AutomationTraceDetail>>({});
+  const [detailError, setDetailError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await listAutomationTraces(automationId, { haConnection: session.haConnection, mode: haMode });
+      setRuns(data);
+      setDetails({});
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message ?? 'Unable to load automation history.');
+    }
+  }, [automationId, haMode, session.haConnection]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load().finally(() => setLoading(false));
+  }, [load]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  }, [load]);
+
+  const toggleRun = useCallback(
+    async (runId: string) => {
+      if (expandedId === runId) {
+        setExpandedId(null);
+        return;
+      }
+      setExpandedId(runId);
+      setDetailError(null);
+      if (details[runId]) return;
+      try {
+        const detail = await getAutomationTrace(automationId, runId, {
+          haConnection: session.haConnection,
+          mode: haMode,
+        });
+        setDetails((prev) => ({ ...prev, [runId]: detail }));
+      } catch (err: any) {
+        setDetailError(err?.message ?? 'Unable to load this run.');
+      }
+    },
+    [automationId, details, expandedId, haMode, session.haConnection]
+  );
+
+  const renderSteps = (title: string, steps: AutomationTraceStep[], empty: string) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {steps.length === 0 ? <Text style={styles.muted}>{empty}</Text> : null}
+      {steps.map((step) => {
+        const outcome = OUTCOME_COPY[step.outcome];
+        return (
+          <View key={step.path} style={[styles.step, { marginLeft: step.depth * spacing.lg }]}>
+            <Text style={[styles.stepGlyph, { color: outcome.color }]}>{outcome.glyph}</Text>
+            <View style={styles.stepBody}>
+              <Text style={[styles.stepLabel, step.outcome === 'not_reached' && styles.stepLabelMuted]}>
+                {step.label}
+                {step.outcome === 'failed' ? ' — not met' : step.outcome === 'not_reached' ? ' — not reached' : ''}
+              </Text>
+              {step.error ? <Text style={styles.stepError}>{step.error}</Text> : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderRun = ({ item }: { item: AutomationTraceRun }) => {
+    const status = describeExecution(item);
+    const expanded = expandedId === item.runId;
+    const detail = details[item.runId];
+    const duration = formatDurationMs(item);
+    return (
+      <View style={styles.item}>
+        <TouchableOpacity onPress={() => void toggleRun(item.runId)} activeOpacity={0.85}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle}>{formatTime(item.startedAt)}</Text>
+            <Text
+              style={[
+                styles.badge,
+                status.tone === 'ok' ? styles.badgeOk : status.tone === 'warn' ? styles.badgeWarn : styles.badgeError,
+              ]}
+            >
+              {status.label}
+            </Text>
+          </View>
+          <Text style={styles.meta} numberOfLines={2}>
+            Trigger: {item.trigger ?? 'Unknown'}
+            {duration ? ` · took ${duration}` : ''}
+          </Text>
+          {item.error ? <Text style={styles.stepError}>{item.error}</Text> : null}
+        </TouchableOpacity>
+        {expanded ? (
+          detail ? (
+            <View>
+              {renderSteps('Conditions', detail.conditions, 'No conditions.')}
+              {renderSteps('Actions', detail.actions, 'No actions ran.')}
+            </View>
+          ) : detailError ? (
+            <Text style={styles.stepError}>{detailError}</Text>
+          ) : (
+            <ActivityIndicator style={styles.detailLoading} color={palette.primary} />
+          )
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backGlyph}>‹</Text>
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>
+            {alias}
+          </Text>
+          <Text style={styles.subtitle}>Recent runs, newest first. Tap a run to see each step.</Text>
+        </View>
+      </View>
+
+      <View style={styles.content}>
+        {loading ? (
+          <View style={styles.loading}>
+            <ActivityIndicator size="large" color={palette.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorText}>{error}</Text>
+            <PrimaryButton title="Retry" onPress={() => void refresh()} />
+          </View>
+        ) : (
+          <FlatList
+            data={runs}
+            keyExtractor={(item) => item.runId}
+            renderItem={renderRun}
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+            contentContainerStyle={styles.listContent}
+            ListEmptyComponent={
+              <View style={styles.empty}>
+                <Text style={styles.emptyText}>No runs recorded yet.</Text>
+                <Text style={styles.muted}>The Dinodia Hub keeps the last few runs of each automation.</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: palette.background },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+  },
+  backButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    ...shadows.soft,
+  },
+  backGlyph: { fontSize: 18, fontWeight: '700', color: palette.text },
+  headerText: { flex: 1 },
+  title: { ...typography.heading },
+  subtitle: { color: palette.textMuted, marginTop: 4, fontSize: 13 },
+  content: { flex: 1, width: '100%', maxWidth: maxContentWidth, alignSelf: 'center', paddingHorizontal: spacing.sm },
+  loading: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  errorBox: {
+    padding: spacing.lg,
+    borderRadius: radii.lg,
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  errorText: { color: palette.danger, marginBottom: spacing.sm },
+  listContent: { paddingVertical: spacing.md, paddingBottom: spacing.xxl },
+  separator: { height: spacing.md },
+  item: {
+    backgroundColor: '#f9fafb',
+    borderRadius: radii.xl,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.xs,
+    ...shadows.soft,
+  },
+  itemHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: spacing.sm },
+  itemTitle: { fontSize: 15, fontWeight: '700', color: palette.text },
+  meta: { fontSize: 12, color: palette.textMuted, marginTop: 4 },
+  badge: {
+    fontSize: 11,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  badgeOk: { backgroundColor: '#ecfdf3', borderColor: '#bbf7d0', color: '#15803d' },
+  badgeWarn: { backgroundColor: '#fffbeb', borderColor: '#fcd34d', color: '#92400e' },
+  badgeError: { backgroundColor: '#fef2f2', borderColor: '#fecaca', color: palette.danger },
+  section: { marginTop: spacing.sm },
+  sectionTitle: { fontSize: 12, fontWeight: '700', color: palette.textMuted, marginBottom: 4 },
+  step: { flexDirection: 'row', gap: spacing.sm, paddingVertical: 3 },
+  stepGlyph: { width: 14, fontWeight: '800', textAlign: 'center' },
+  stepBody: { flex: 1 },
+  stepLabel: { fontSize: 13, color: palette.text },
+  stepLabelMuted: { color: palette.textMuted },
+  stepError: { fontSize: 12, color: palette.danger, marginTop: 2 },
+  detailLoading: { marginTop: spacing.sm },
+  muted: { color: palette.textMuted, fontSize: 12 },
+  empty: { paddingVertical: 40, alignItems: 'center', gap: spacing.xs },
+  emptyText: { color: palette.text, fontSize: 16, fontWeight: '700' },
+});
@@ -12,6 +12,7 @@ import {
   NativeModules,
   Modal,
   Pressable,
+  Share,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { listAutomations, deleteAutomation, type AutomationSummary } from '../../api/automations';
@@ -27,9 +28,12 @@ import { useDeviceStatus } from '../../hooks/useDeviceStatus';
 import { CloudModePrompt } from '../../components/CloudModePrompt';
 import { useCloudModeSwitch } from '../../hooks/useCloudModeSwitch';
 import { useDevices } from '../../store/deviceStore';
-import { getEligibleDevicesForAutomations } from '../../capabilities/deviceCapabilities';
+import { getEligibleDevicesForAutomations, getThresholdUnit } from '../../capabilities/deviceCapabilities';
 import { isDetailDevice } from '../../utils/deviceKinds';
 import type { UIDevice } from '../../models/device';
+import { exportAutomationBundle } from '../../automations/automationBundle';
+import { findAutomationConflicts } from '../../automations/conflicts';
+import { useScenes } from '../../hooks/useScenes';
 
 const { InlineWifiSetupLauncher } = NativeModules;
 
@@ -51,6 +55,7 @@ export function AutomationsListScreen({}: Props) {
   const remoteAccess = useRemoteAccessStatus(haMode);
   const { wifiName, batteryLevel } = useDeviceStatus();
   const { devices, refreshing: devicesRefreshing } = useDevices(userId || 0, haMode);
+  const { scenes } = useScenes(haMode);
   const [selectedEntityId, setSelectedEntityId] = useState<string>('');
   const [pickerOpen, setPickerOpen] = useState(false);
 
@@ -85,6 +90,43 @@ export function AutomationsListScreen({}: Props) {
     }
   }, [haMode, session.haConnection]);
 
+  // Coming back from the editor or an import; the first load is handled above.
+  useEffect(
+    () =>
+      navigation.addListener('focus', () => {
+        if (!loading) void refresh();
+      }),
+    [loading, navigation, refresh]
+  );
+
+  const handleExport = useCallback(
+    async (items: AutomationSummary[]) => {
+      const exportable = items.filter((item) => item.draft);
+      if (exportable.length === 0) {
+        Alert.alert('Nothing to export', 'Only automations that can be edited here can be exported.');
+        return;
+      }
+      const bundle = exportAutomationBundle(
+        exportable.map((item) => item.draft!),
+        devices,
+        scenes
+      );
+      const skipped = items.length - exportable.length;
+      try {
+        await Share.share({
+          title: exportable.length === 1 ? exportable[0].alias : 'Dinodia automations',
+          message: JSON.stringify(bundle, null, 2),
+        });
+        if (skipped > 0) {
+          Alert.alert('Export', `${skipped} read-only automation${skipped === 1 ? ' was' : 's were'} left out.`);
+        }
+      } catch (err: any) {
+        Alert.alert('Could not export', err?.message ?? 'Unable to share the automations.');
+      }
+    },
+    [devices, scenes]
+  );
+
   const handleDelete = useCallback(
     (id: string) => {
       if (isAdmin) return;
@@ -173,6 +215,17 @@ export function AutomationsListScreen({}: Props) {
 
   const selectedDeviceId = selectedEntityId ? entityToDeviceId.get(selectedEntityId) ?? null : null;
 
+  const conflictsById = useMemo(() => {
+    const subjects = automations.flatMap((a) =>
+      a.draft ? [{ id: a.id, alias: a.alias, draft: a.draft, enabled: a.enabled }] : []
+    );
+    const map = new Map<string, string[]>();
+    findAutomationConflicts(subjects, devices).forEach((conflict) => {
+      conflict.ids.forEach((id) => map.set(id, [...(map.get(id) ?? []), conflict.message]));
+    });
+    return map;
+  }, [automations, devices]);
+
   const filteredAutomations = selectedEntityId
     ? automations.filter((a) =>
         matchesAutomationTarget(a, selectedEntityId, selectedDeviceId, entityToDeviceId)
@@ -228,13 +281,36 @@ export function AutomationsListScreen({}: Props) {
               <Text style={styles.title}>Automations</Text>
               <Text style={styles.subtitle}>Scenes that keep your place effortless.</Text>
             </View>
-            {!isAdmin && (
-              <PrimaryButton
-                title="+ Add"
-                onPress={() => navigation.navigate('AutomationEditor' as never)}
-                style={styles.addButton}
-              />
-            )}
+            <View style={styles.headerActions}>
+              {automations.length > 0 && (
+                <TouchableOpacity onPress={() => void handleExport(automations)} style={styles.historyButton}>
+                  <Text style={styles.historyText}>Export all</Text>
+                </TouchableOpacity>
+              )}
+              {!isAdmin && (
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('AutomationTemplates' as never)}
+                  style={styles.historyButton}
+                >
+                  <Text style={styles.historyText}>Templates</Text>
+                </TouchableOpacity>
+              )}
+              {!isAdmin && (
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('AutomationImport' as never)}
+                  style={styles.historyButton}
+                >
+                  <Text style={styles.historyText}>Import</Text>
+                </TouchableOpacity>
+              )}
+              {!isAdmin && (
+                <PrimaryButton
+                  title="+ Add"
+                  onPress={() => navigation.navigate('AutomationEditor' as never)}
+                  style={styles.addButton}
+                />
+              )}
+            </View>
           </View>
           {isAdmin && (
             <Text style={styles.readOnlyNote}>
@@ -300,9 +376,12 @@ export function AutomationsListScreen({}: Props) {
                           {item.hasTemplates && (
                             <Text style={[styles.badge, styles.badgeWarning]}>Template (view only)</Text>
                           )}
-                          {item.canEdit === false && (
+                          {item.canEdit === false && !item.hasTemplates && (
                             <Text style={[styles.badge, styles.badgeWarning]}>Read-only</Text>
                           )}
+                          {conflictsById.has(item.id) && (
+                            <Text style={[styles.badge, styles.badgeWarning]}>Conflict</Text>
+                          )}
                           {createdViaDinodia && (
                             <Text style={[styles.badge, styles.badgeInfo]}>Created via Dinodia</Text>
                           )}
@@ -312,6 +391,14 @@ export function AutomationsListScreen({}: Props) {
                         {summary}
                       </Text>
                       <Text style={styles.metaSmall}>ID: {item.id}</Text>
+                      {(conflictsById.get(item.id) ?? []).map((message) => (
+                        <Text key={message} style={styles.conflictText}>
+                          {message}
+                        </Text>
+                      ))}
+                      {item.canEdit === false && item.readOnlyReason ? (
+                        <Text style={styles.metaSmall}>Can't edit here: {item.readOnlyReason}</Text>
+                      ) : null}
                       <View style={styles.chipRow}>
                         <Text style={styles.metaChip}>Mode: {mode}</Text>
                         {target !== '—' && <Text style={styles.metaChip}>Target: {target}</Text>}
@@ -333,20 +420,48 @@ export function AutomationsListScreen({}: Props) {
                           {action}
                         </Text>
                       </View>
-                      {!isAdmin && (
-                        <View style={styles.itemActions}>
+                      <View style={styles.itemActions}>
+                        <TouchableOpacity
+                          onPress={() =>
+                            navigation.navigate('AutomationTraces', { automationId: item.id, alias: item.alias })
+                          }
+                          style={styles.historyButton}
+                        >
+                          <Text style={styles.historyText}>History</Text>
+                        </TouchableOpacity>
+                        {item.draft ? (
+                          <TouchableOpacity onPress={() => void handleExport([item])} style={styles.historyButton}>
+                            <Text style={styles.historyText}>Export</Text>
+                          </TouchableOpacity>
+                        ) : null}
+                        {item.canEdit !== false && item.draft ? (
+                          <TouchableOpacity
+                            onPress={() =>
+                              navigation.navigate('AutomationEditor', {
+                                automationId: item.id,
+                                alias: item.alias,
+                                description: item.description,
+                                draft: item.draft,
+                              })
+                            }
+                            style={styles.historyButton}
+                          >
+                            <Text style={styles.historyText}>Edit</Text>
+                          </TouchableOpacity>
+                        ) : null}
+                        {!isAdmin && (
                           <TouchableOpacity onPress={() => handleDelete(item.id)} style={styles.deleteButton}>
                             <Text style={styles.deleteText}>Delete</Text>
                           </TouchableOpacity>
-                        </View>
-                      )}
+                        )}
+                      </View>
                     </View>
                   );
                 }}
                 ListEmptyComponent={
                   <View style={styles.empty}>
                     <Text style={styles.emptyText}>No automations yet.</Text>
-                    <Text style={styles.emptySub}>Create your first automation to get started.</Text>
+                    <Text style={styles.emptySub}>Create your first automation, or start from a template.</Text>
                   </View>
                 }
                 ItemSeparatorComponent={() => <View style={styles.separator} />}
@@ -466,7 +581,9 @@ const styles = StyleSheet.create({
   title: { ...typography.heading },
   subtitle: { color: palette.textMuted, marginTop: 4, fontSize: 13 },
   readOnlyNote: { color: '#b45309', marginTop: 2, fontSize: 12 },
+  conflictText: { color: '#92400e', fontSize: 12, marginTop: 2 },
   addButton: { paddingHorizontal: spacing.lg, paddingVertical: spacing.sm },
+  headerActions: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
   filterRow: { marginTop: spacing.md, gap: spacing.xs },
   filterLabel: { fontSize: 12, fontWeight: '700', color: palette.textMuted, marginBottom: 2 },
   dropdownButton: {
@@ -529,7 +646,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e0e7ff',
   },
-  itemActions: { alignItems: 'flex-end', paddingTop: 2 },
+  itemActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: spacing.sm, paddingTop: 2 },
+  historyButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.outline,
+    backgroundColor: palette.surface,
+  },
+  historyText: { color: palette.primary, fontWeight: '600', fontSize: 12 },
   deleteButton: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
@@ -632,11 +758,32 @@ function getTriggerSummary(trigger: unknown, devices: UIDevice[]): string {
     if (weekdays) return `Time on ${weekdays}`;
     return 'Scheduled time';
   }
+  if (platform === 'numeric_state') {
+    const device = devices.find((d) => d.entityId === entity);
+    const unit = device && !t.attribute ? getThresholdUnit(device) : '';
+    const subject = t.attribute ? `${friendly} ${String(t.attribute).replace(/_/g, ' ')}` : friendly;
+    // Position triggers compile to a narrow band around a single value.
+    if (typeof t.above === 'number' && typeof t.below === 'number' && t.below - t.above < 0.1) {
+      return `${subject} reaches ${Math.round((t.above + t.below) / 2)}${unit}`;
+    }
+    const bounds = [
+      typeof t.above === 'number' ? `above ${t.above}${unit}` : null,
+      typeof t.below === 'number' ? `below ${t.below}${unit}` : null,
+    ].filter(Boolean);
+    const duration = typeof t.for === 'string' ? ` for ${t.for}` : '';
+    return `${subject} ${bounds.join(' and ')}${duration}`;
+  }
+  if (platform === 'sun') {
+    const event = t.event === 'sunrise' ? 'Sunrise' : 'Sunset';
+    const offset = typeof t.offset === 'string' && !/^-?0?0:00(:00)?$/.test(t.offset) ? ` (${t.offset})` : '';
+    return `${event}${offset}`;
+  }
   if (platform === 'state') {
     const to = (t.to as string | undefined) ?? (t.state as string | undefined);
     const from = (t.from as string | undefined) ?? (t.from_state as string | undefined);
-    if (from && to) return `State: ${friendly} ${from} → ${to}`;
-    if (to) return `State: ${friendly} → ${to}`;
+    const duration = typeof t.for === 'string' ? ` for ${t.for}` : '';
+    if (from && to) return `State: ${friendly} ${from} → ${to}${duration}`;
+    if (to) return `State: ${friendly} → ${to}${duration}`;
     if (from) return `State: ${friendly} from ${from}`;
     return `State: ${friendly}`;
   }
@@ -676,10 +823,12 @@ function summarizeAutomation(auto: AutomationSummary, devices: UIDevice[]) {
   const triggers = toArray(raw.triggers ?? raw.trigger);
   const actions = toArray(raw.actions ?? raw.action);
   const triggerSummary = triggers.length > 0 ? getTriggerSummary(triggers[0], devices) : '—';
-  const actionSummary = actions.length > 0 ? getActionSummary(actions[0], devices) : { summary: '—' };
+  const deviceAction = actions.find((a) => getActionEntity(a)) ?? actions[0];
+  const actionSummary = deviceAction ? getActionSummary(deviceAction, devices) : { summary: '—' };
   return {
     triggerSummary,
-    actionSummary: actionSummary.summary,
+    // Multi-step sequences are described by the API summariser, which walks every step.
+    actionSummary: actions.length > 1 ? undefined : actionSummary.summary,
     primaryName: actionSummary.primaryName,
   };
 }
@@ -0,0 +1,125 @@
+// src/store/commandQueue.ts
+import { useCallback, useSyncExternalStore } from 'react';
+import type { HaMode } from '../api/dinodia';
+import { loadJson, saveJson, removeKey } from '../utils/storage';
+
+export type QueuedCommand = {
+  // Idempotency key: also sent to the platform so a retried replay is only applied once.
+  id: string;
+  mode: HaMode;
+  entityId: string;
+  deviceName: string;
+  command: string;
+  value?: number;
+  blindTravelSeconds?: number | null;
+  queuedAt: number;
+  expiresAt: number;
+};
+
+// Commands older than this are dropped rather than replayed; a light toggled minutes ago
+// is more surprising than a tap that was lost.
+export const QUEUED_COMMAND_TTL_MS = 5 * 60 * 1000;
+
+const queues = new Map<number, QueuedCommand[]>();
+const loaded = new Set<number>();
+const listeners = new Map<number, Set<() => void>>();
+const EMPTY_QUEUE: QueuedCommand[] = [];
+const queueKey = (userId: number) => `dinodia_command_queue_${userId}`;
+
+function createCommandId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function withoutExpired(queue: QueuedCommand[], now = Date.now()) {
+  const live = queue.filter((item) => item.expiresAt > now);
+  return live.length === queue.length ? queue : live;
+}
+
+function setQueue(userId: number, queue: QueuedCommand[]) {
+  queues.set(userId, queue);
+  listeners.get(userId)?.forEach((listener) => listener());
+  const persist = queue.length > 0 ? saveJson(queueKey(userId), queue) : removeKey(queueKey(userId));
+  persist.catch(() => undefined);
+}
+
+async function ensureLoaded(userId: number) {
+  if (loaded.has(userId)) return;
+  loaded.add(userId);
+  try {
+    const stored = await loadJson<QueuedCommand[]>(queueKey(userId));
+    if (!Array.isArray(stored) || stored.length === 0) return;
+    // Anything queued in this session goes after what was persisted before a restart.
+    const current = queues.get(userId) ?? [];
+    const ids = new Set(current.map((item) => item.id));
+    const merged = [...stored.filter((item) => item && !ids.has(item.id)), ...current];
+    setQueue(userId, withoutExpired(merged));
+  } catch {
+    // Ignore storage errors; the in-memory queue still works for this session
+  }
+}
+
+export function getQueuedCommands(userId: number): QueuedCommand[] {
+  return queues.get(userId) ?? EMPTY_QUEUE;
+}
+
+export async function loadQueuedCommands(userId: number): Promise<QueuedCommand[]> {
+  await ensureLoaded(userId);
+  const queue = getQueuedCommands(userId);
+  const live = withoutExpired(queue);
+  if (live !== queue) setQueue(userId, live);
+  return live;
+}
+
+export async function enqueueCommand(
+  userId: number,
+  command: Omit<QueuedCommand, 'id' | 'queuedAt' | 'expiresAt'>
+): Promise<QueuedCommand> {
+  await ensureLoaded(userId);
+  const now = Date.now();
+  const item: QueuedCommand = {
+    ...command,
+    id: createCommandId(),
+    queuedAt: now,
+    expiresAt: now + QUEUED_COMMAND_TTL_MS,
+  };
+  setQueue(userId, [...withoutExpired(getQueuedCommands(userId), now), item]);
+  return item;
+}
+
+export function removeQueuedCommand(userId: number, id: string) {
+  const queue = getQueuedCommands(userId);
+  if (!queue.some((item) => item.id === id)) return;
+  setQueue(userId, queue.filter((item) => item.id !== id));
+}
+
+export async function clearQueuedCommands(userId: number): Promise<void> {
+  queues.delete(userId);
+  loaded.delete(userId);
+  listeners.get(userId)?.forEach((listener) => listener());
+  try {
+    await removeKey(queueKey(userId));
+  } catch {
+    // Ignore storage errors when clearing the queue
+  }
+}
+
+export function useQueuedCommands(userId: number): QueuedCommand[] {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      let set = listeners.get(userId);
+      if (!set) {
+        set = new Set();
+        listeners.set(userId, set);
+      }
+      set.add(onChange);
+      void ensureLoaded(userId);
+      return () => {
+        set?.delete(onChange);
+        if (set && set.size === 0) listeners.delete(userId);
+      };
+    },
+    [userId]
+  );
+  const getSnapshot = useCallback(() => getQueuedCommands(userId), [userId]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
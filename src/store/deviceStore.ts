@@ -1,23 +1,250 @@
 // src/store/deviceStore.ts
 import { AppState } from 'react-native';
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { fetchDevicesForUser, HaMode } from '../api/dinodia';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { fetchDevicesForUser, getKioskScope, HaMode } from '../api/dinodia';
+import type { HAState } from '../api/ha';
+import { fetchHomeModeSecrets } from '../api/haSecrets';
+import { getServedHaRoute } from '../api/haRouter';
+import { subscribeCloudDeviceStream, type CloudDeviceDelta } from '../api/deviceStream';
+import { onHaRegistryChanged } from '../api/haRegistryCache';
+import {
+  haWsSubscribeEvents,
+  type HaStateChangedEvent,
+  type HaWsSubscription,
+} from '../api/haWebSocket';
 import type { UIDevice } from '../models/device';
+import { applyProjection, type CommandProjection } from '../devices/commandProjection';
+import { ENV } from '../config/env';
+import { normalizeLabel } from '../utils/deviceLabels';
 import { loadJson, saveJson, removeKey } from '../utils/storage';
 
 type DeviceCacheEntry = {
   devices: UIDevice[];
   updatedAt: number;
+  // Set when refreshes started failing; the devices are the last ones we could confirm.
+  staleSince?: number | null;
+  scope?: string | null;
 };
 
 type RefreshOptions = {
   background?: boolean;
 };
 
+type EntryListener = (entry: DeviceCacheEntry) => void;
+
+type PendingCommand = {
+  projection: CommandProjection;
+  timer: ReturnType<typeof setTimeout>;
+  onRollback?: (error: Error) => void;
+};
+
+type LiveSession = {
+  active: boolean;
+  connected: boolean;
+  subscription: Pick<HaWsSubscription, 'unsubscribe'> | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  statusListeners: Set<(connected: boolean) => void>;
+};
+
+// Home and auto mode keep a state_changed subscription open and cloud mode follows the platform
+// device stream; polling only runs while those are down.
+const HOME_FALLBACK_POLL_MS = 1000;
+const CLOUD_POLL_MS = 8000;
+const LIVE_RETRY_MS = 5000;
+const LIVE_PERSIST_DELAY_MS = 5000;
+const HARD_EXPIRY_MS = ENV.DEVICE_CACHE_HARD_EXPIRY_HOURS * 60 * 60 * 1000;
+// Errors meaning the cached devices may no longer be this user's to see.
+const SCOPE_LOST_MESSAGES = [
+  'We could not load your account',
+  'Dinodia Hub connection is not configured for this account',
+  'Session expired',
+];
+
 const memoryCache = new Map<string, DeviceCacheEntry>();
 const inFlight = new Map<string, Promise<DeviceCacheEntry>>();
+const entryListeners = new Map<string, Set<EntryListener>>();
+const liveSessions = new Map<string, LiveSession>();
+const pendingPersists = new Map<string, ReturnType<typeof setTimeout>>();
+const deviceIndexes = new WeakMap<UIDevice[], Map<string, UIDevice>>();
+// Optimistic commands are layered over the cached (real) devices until the hub confirms them.
+const pendingCommands = new Map<string, Map<string, PendingCommand>>();
+const visibleEntries = new Map<string, { source: DeviceCacheEntry; entry: DeviceCacheEntry }>();
+const projectedDevices = new WeakMap<UIDevice, { pending: PendingCommand; device: UIDevice }>();
+const EMPTY_DEVICES: UIDevice[] = [];
 const cacheKey = (userId: number, mode: HaMode) => `dinodia_devices_${userId}_${mode}`;
 
+function getDeviceIndex(devices: UIDevice[]): Map<string, UIDevice> {
+  let index = deviceIndexes.get(devices);
+  if (!index) {
+    index = new Map(devices.map((d) => [d.entityId, d]));
+    deviceIndexes.set(devices, index);
+  }
+  return index;
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a as Record<string, unknown>);
+  const bKeys = Object.keys(b as Record<string, unknown>);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) =>
+    isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+// Reuse unchanged device objects (and the whole list when nothing changed) so memoized
+// consumers only re-render for the entities that actually moved.
+function shareDevices(previous: UIDevice[] | undefined, next: UIDevice[]): UIDevice[] {
+  if (!previous || previous.length === 0) return next;
+  const previousById = getDeviceIndex(previous);
+  let changed = previous.length !== next.length;
+  const shared = next.map((device, i) => {
+    const prior = previousById.get(device.entityId);
+    const result = prior && isDeepEqual(prior, device) ? prior : device;
+    if (result !== previous[i]) changed = true;
+    return result;
+  });
+  return changed ? shared : previous;
+}
+
+function projectDevice(device: UIDevice, pending: PendingCommand): UIDevice {
+  const cached = projectedDevices.get(device);
+  if (cached && cached.pending === pending) return cached.device;
+  const projected = applyProjection(device, pending.projection);
+  projectedDevices.set(device, { pending, device: projected });
+  return projected;
+}
+
+// What the UI shows: the cached entry with any unconfirmed commands applied on top.
+function getVisibleEntry(key: string): DeviceCacheEntry | null {
+  const source = memoryCache.get(key);
+  if (!source) return null;
+  const pending = pendingCommands.get(key);
+  if (!pending || pending.size === 0) return source;
+  const cached = visibleEntries.get(key);
+  if (cached && cached.source === source) return cached.entry;
+  const entry: DeviceCacheEntry = {
+    devices: source.devices.map((d) => {
+      const command = pending.get(d.entityId);
+      return command ? projectDevice(d, command) : d;
+    }),
+    updatedAt: source.updatedAt,
+    staleSince: source.staleSince,
+  };
+  visibleEntries.set(key, { source, entry });
+  return entry;
+}
+
+// Drop projections the real state now satisfies, or whose entity has gone away.
+function reconcilePendingCommands(key: string, entry: DeviceCacheEntry) {
+  const pending = pendingCommands.get(key);
+  if (!pending) return;
+  const index = getDeviceIndex(entry.devices);
+  pending.forEach((command, entityId) => {
+    const device = index.get(entityId);
+    if (device && !command.projection.isConfirmed(device)) return;
+    clearTimeout(command.timer);
+    pending.delete(entityId);
+  });
+  if (pending.size === 0) pendingCommands.delete(key);
+}
+
+function publishVisibleEntry(key: string) {
+  visibleEntries.delete(key);
+  const visible = getVisibleEntry(key);
+  const listeners = entryListeners.get(key);
+  if (!visible || !listeners) return;
+  listeners.forEach((listener) => listener(visible));
+}
+
+function notifyEntry(key: string, entry: DeviceCacheEntry) {
+  reconcilePendingCommands(key, entry);
+  publishVisibleEntry(key);
+}
+
+function removePendingCommand(key: string, entityId: string, command: PendingCommand) {
+  const pending = pendingCommands.get(key);
+  if (!pending || pending.get(entityId) !== command) return false;
+  clearTimeout(command.timer);
+  pending.delete(entityId);
+  if (pending.size === 0) pendingCommands.delete(key);
+  publishVisibleEntry(key);
+  return true;
+}
+
+function clearPendingCommands(key: string) {
+  pendingCommands.get(key)?.forEach((command) => clearTimeout(command.timer));
+  pendingCommands.delete(key);
+  visibleEntries.delete(key);
+}
+
+/**
+ * Show a command's expected result right away. The projection is dropped once real state
+ * confirms it; if that does not happen within timeoutMs it is rolled back and onRollback fires.
+ * Returns a function that discards the projection immediately (e.g. when the send itself failed).
+ */
+export function trackOptimisticCommand(params: {
+  userId: number;
+  mode: HaMode;
+  entityId: string;
+  projection: CommandProjection;
+  timeoutMs: number;
+  onRollback?: (error: Error) => void;
+}): () => void {
+  const { userId, mode, entityId, projection, timeoutMs, onRollback } = params;
+  const key = cacheKey(userId, mode);
+  let pending = pendingCommands.get(key);
+  if (!pending) {
+    pending = new Map();
+    pendingCommands.set(key, pending);
+  }
+  // A newer command for the same entity supersedes the older projection without an error.
+  const previous = pending.get(entityId);
+  if (previous) clearTimeout(previous.timer);
+
+  const command: PendingCommand = {
+    projection,
+    onRollback,
+    timer: setTimeout(() => {
+      if (!removePendingCommand(key, entityId, command)) return;
+      command.onRollback?.(
+        new Error(
+          mode === 'cloud'
+            ? 'Dinodia Cloud did not confirm that change, so we are showing the last known state.'
+            : 'Your Dinodia Hub did not confirm that change, so we are showing the last known state.'
+        )
+      );
+    }, timeoutMs),
+  };
+  pending.set(entityId, command);
+  publishVisibleEntry(key);
+
+  return () => {
+    removePendingCommand(key, entityId, command);
+  };
+}
+
+function listenForEntries(key: string, listener: EntryListener): () => void {
+  let listeners = entryListeners.get(key);
+  if (!listeners) {
+    listeners = new Set();
+    entryListeners.set(key, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners?.delete(listener);
+    if (listeners && listeners.size === 0) {
+      entryListeners.delete(key);
+    }
+  };
+}
+
+function isExpired(entry: DeviceCacheEntry) {
+  return Date.now() - entry.updatedAt > HARD_EXPIRY_MS;
+}
+
 async function readFromStorage(userId: number, mode: HaMode): Promise<DeviceCacheEntry | null> {
   const key = cacheKey(userId, mode);
   const existing = memoryCache.get(key);
@@ -30,6 +257,10 @@ async function readFromStorage(userId: number, mode: HaMode): Promise<DeviceCach
       Array.isArray((stored as any).devices) &&
       typeof (stored as any).updatedAt === 'number'
     ) {
+      if (isExpired(stored)) {
+        await removeKey(key);
+        return null;
+      }
       memoryCache.set(key, stored);
       return stored;
     }
@@ -43,6 +274,8 @@ async function readFromStorage(userId: number, mode: HaMode): Promise<DeviceCach
 async function persistCache(userId: number, mode: HaMode, entry: DeviceCacheEntry): Promise<void> {
   const key = cacheKey(userId, mode);
   memoryCache.set(key, entry);
+  notifyEntry(key, entry);
+  cancelPendingPersist(key);
   try {
     await saveJson(key, entry);
   } catch {
@@ -58,8 +291,13 @@ async function fetchAndCacheDevices(userId: number, mode: HaMode): Promise<Devic
   }
 
   const request = (async () => {
-    const devices = await fetchDevicesForUser(userId, mode);
-    const entry: DeviceCacheEntry = { devices, updatedAt: Date.now() };
+    const fetched = await fetchDevicesForUser(userId, mode);
+    const devices = shareDevices(memoryCache.get(key)?.devices, fetched);
+    const entry: DeviceCacheEntry = {
+      devices,
+      updatedAt: Date.now(),
+      scope: getKioskScope(userId),
+    };
     await persistCache(userId, mode, entry);
     return entry;
   })();
@@ -72,15 +310,232 @@ async function fetchAndCacheDevices(userId: number, mode: HaMode): Promise<Devic
   }
 }
 
+function shouldPurge(userId: number, entry: DeviceCacheEntry, err: unknown) {
+  if (isExpired(entry)) return true;
+  const message = err instanceof Error ? err.message : '';
+  if (SCOPE_LOST_MESSAGES.some((text) => message.startsWith(text))) return true;
+  // The account context loads before devices, so a changed home or area access is known here.
+  const scope = getKioskScope(userId);
+  return !!scope && !!entry.scope && scope !== entry.scope;
+}
+
+// A failed refresh keeps the last good devices on screen, marked stale, until they expire or
+// stop belonging to this user; only then is the cache emptied.
+async function markRefreshFailed(userId: number, mode: HaMode, err: unknown): Promise<void> {
+  const key = cacheKey(userId, mode);
+  const current = memoryCache.get(key);
+  if (!current || current.devices.length === 0) return;
+  if (shouldPurge(userId, current, err)) {
+    await persistCache(userId, mode, { devices: [], updatedAt: Date.now() });
+    return;
+  }
+  if (current.staleSince) return;
+  const entry: DeviceCacheEntry = { ...current, staleSince: Date.now() };
+  memoryCache.set(key, entry);
+  notifyEntry(key, entry);
+  schedulePersist(key);
+}
+
+function cancelPendingPersist(key: string) {
+  const timer = pendingPersists.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    pendingPersists.delete(key);
+  }
+}
+
+// Live deltas arrive many times per second; only write the latest snapshot to storage.
+function schedulePersist(key: string) {
+  if (pendingPersists.has(key)) return;
+  const timer = setTimeout(() => {
+    pendingPersists.delete(key);
+    const entry = memoryCache.get(key);
+    if (!entry) return;
+    saveJson(key, entry).catch(() => undefined);
+  }, LIVE_PERSIST_DELAY_MS);
+  pendingPersists.set(key, timer);
+}
+
+function applyHaState(device: UIDevice, state: HAState): UIDevice {
+  const attributes = (state.attributes ?? {}) as Record<string, unknown>;
+  const friendlyName =
+    typeof state.attributes?.friendly_name === 'string' ? state.attributes.friendly_name : null;
+  return {
+    ...device,
+    name: friendlyName ?? device.name,
+    state: state.state,
+    attributes,
+  };
+}
+
+// Patch one cached entity in place; a null update removes it.
+function applyDeviceUpdate(
+  key: string,
+  entityId: string,
+  update: ((device: UIDevice) => UIDevice) | null
+) {
+  const current = memoryCache.get(key);
+  if (!current || !entityId) return;
+  // Entities we do not already show (other areas, new registry entries) wait for a full refresh.
+  const existing = getDeviceIndex(current.devices).get(entityId);
+  if (!existing) return;
+
+  let devices: UIDevice[];
+  if (update) {
+    const updated = update(existing);
+    // Skip no-op updates (HA fires for context/last_updated-only changes, for example).
+    if (isDeepEqual(existing, updated)) return;
+    devices = current.devices.map((d) => (d === existing ? updated : d));
+  } else {
+    devices = current.devices.filter((d) => d !== existing);
+  }
+  const entry: DeviceCacheEntry = { ...current, devices, updatedAt: Date.now() };
+  memoryCache.set(key, entry);
+  notifyEntry(key, entry);
+  schedulePersist(key);
+}
+
+function applyStateChange(key: string, change: HaStateChangedEvent) {
+  if (!change?.entity_id) return;
+  const nextState = change.new_state;
+  applyDeviceUpdate(key, change.entity_id, nextState ? (d) => applyHaState(d, nextState) : null);
+}
+
+function applyCloudDelta(key: string, delta: CloudDeviceDelta) {
+  applyDeviceUpdate(
+    key,
+    delta.entityId,
+    delta.removed
+      ? null
+      : (d) => ({
+          ...d,
+          name: delta.name ?? d.name,
+          state: delta.state ?? d.state,
+          attributes: delta.attributes ?? d.attributes,
+        })
+  );
+}
+
+function setLiveConnected(session: LiveSession, connected: boolean) {
+  session.connected = connected;
+  session.statusListeners.forEach((listener) => listener(connected));
+}
+
+// The socket manager restores established subscriptions; only the first subscribe is retried here.
+function scheduleLiveRetry(userId: number, mode: HaMode, session: LiveSession) {
+  if (!session.active || session.retryTimer) return;
+  session.retryTimer = setTimeout(() => {
+    session.retryTimer = null;
+    void connectLive(userId, mode, session);
+  }, LIVE_RETRY_MS);
+}
+
+function connectCloudStream(userId: number, session: LiveSession) {
+  const key = cacheKey(userId, 'cloud');
+  // The stream reconnects and resumes on its own, so no retry timer is needed here.
+  session.subscription = subscribeCloudDeviceStream({
+    onDelta: (delta) => applyCloudDelta(key, delta),
+    onResync: () => {
+      void fetchAndCacheDevices(userId, 'cloud').catch(() => undefined);
+    },
+    onStatus: (connected) => setLiveConnected(session, connected),
+  });
+}
+
+async function connectLive(userId: number, mode: HaMode, session: LiveSession) {
+  const key = cacheKey(userId, mode);
+  if (!session.active) return;
+  if (mode === 'cloud') {
+    connectCloudStream(userId, session);
+    return;
+  }
+  try {
+    const secrets = await fetchHomeModeSecrets();
+    const subscription = await haWsSubscribeEvents<HaStateChangedEvent>(
+      { baseUrl: secrets.baseUrl, longLivedToken: secrets.longLivedToken },
+      'state_changed',
+      (change) => applyStateChange(key, change),
+      {
+        onDisconnect: () => setLiveConnected(session, false),
+        onResubscribe: () => {
+          setLiveConnected(session, true);
+          // Resync so changes missed while the socket was down are picked up.
+          void fetchAndCacheDevices(userId, mode).catch(() => undefined);
+        },
+      }
+    );
+    if (!session.active) {
+      subscription.unsubscribe();
+      return;
+    }
+    // Area and label changes arrive as registry events rather than state_changed.
+    const stopRegistryUpdates = onHaRegistryChanged(() => {
+      void fetchAndCacheDevices(userId, mode).catch(() => undefined);
+    });
+    session.subscription = {
+      unsubscribe: () => {
+        stopRegistryUpdates();
+        subscription.unsubscribe();
+      },
+    };
+    setLiveConnected(session, true);
+    void fetchAndCacheDevices(userId, mode).catch(() => undefined);
+  } catch {
+    scheduleLiveRetry(userId, mode, session);
+  }
+}
+
+function retainLiveUpdates(
+  userId: number,
+  mode: HaMode,
+  onStatus: (connected: boolean) => void
+): () => void {
+  const key = cacheKey(userId, mode);
+  let session = liveSessions.get(key);
+  if (!session) {
+    session = {
+      active: true,
+      connected: false,
+      subscription: null,
+      retryTimer: null,
+      statusListeners: new Set(),
+    };
+    liveSessions.set(key, session);
+    void connectLive(userId, mode, session);
+  }
+  const current = session;
+  current.statusListeners.add(onStatus);
+  onStatus(current.connected);
+
+  return () => {
+    current.statusListeners.delete(onStatus);
+    if (current.statusListeners.size > 0) return;
+    current.active = false;
+    current.connected = false;
+    if (current.retryTimer) {
+      clearTimeout(current.retryTimer);
+      current.retryTimer = null;
+    }
+    current.subscription?.unsubscribe();
+    current.subscription = null;
+    if (liveSessions.get(key) === current) {
+      liveSessions.delete(key);
+    }
+  };
+}
+
 export function useDevices(userId: number, mode: HaMode) {
   const initialKey = useMemo(() => cacheKey(userId, mode), [mode, userId]);
-  const initial = useMemo(() => memoryCache.get(initialKey) ?? null, [initialKey]);
+  const initial = useMemo(() => getVisibleEntry(initialKey), [initialKey]);
   const [devices, setDevices] = useState<UIDevice[]>(initial?.devices ?? []);
   const [lastUpdated, setLastUpdated] = useState<number | null>(initial?.updatedAt ?? null);
+  const [staleSince, setStaleSince] = useState<number | null>(initial?.staleSince ?? null);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
   const mountedRef = useRef(true);
   const requestIdRef = useRef(0);
+  const liveRef = useRef(false);
   // Track whether the app is in the foreground to avoid background polling.
   const appStateRef = useRef<string>(AppState.currentState);
 
@@ -105,10 +560,24 @@ export function useDevices(userId: number, mode: HaMode) {
       if (!mountedRef.current || !entry) return;
       setDevices(entry.devices);
       setLastUpdated(entry.updatedAt);
+      setStaleSince(entry.staleSince ?? null);
     },
     []
   );
 
+  useEffect(() => {
+    return listenForEntries(cacheKey(userId, mode), updateState);
+  }, [mode, updateState, userId]);
+
+  useEffect(() => {
+    liveRef.current = false;
+    setLive(false);
+    return retainLiveUpdates(userId, mode, (connected) => {
+      liveRef.current = connected;
+      if (mountedRef.current) setLive(connected);
+    });
+  }, [mode, userId]);
+
   const refreshDevices = useCallback(
     async (opts: RefreshOptions = {}): Promise<UIDevice[] | null> => {
       const silent = opts.background === true;
@@ -129,7 +598,7 @@ export function useDevices(userId: number, mode: HaMode) {
         if (currentRequestId !== null && currentRequestId !== requestIdRef.current) {
           return null;
         }
-        updateState(entry);
+        updateState(getVisibleEntry(cacheKey(userId, mode)) ?? entry);
         setError(null);
         return entry.devices;
       } catch (err) {
@@ -139,10 +608,8 @@ export function useDevices(userId: number, mode: HaMode) {
             : 'We could not load your devices right now. Please refresh or switch modes.';
         if (mountedRef.current && (currentRequestId === null || currentRequestId === requestIdRef.current)) {
           setError(message);
-          // Clear devices for this mode on error to avoid showing stale data.
-          const emptyEntry: DeviceCacheEntry = { devices: [], updatedAt: Date.now() };
-          await persistCache(userId, mode, emptyEntry);
-          updateState(emptyEntry);
+          await markRefreshFailed(userId, mode, err);
+          updateState(getVisibleEntry(cacheKey(userId, mode)));
         }
         return null;
       } finally {
@@ -155,14 +622,15 @@ export function useDevices(userId: number, mode: HaMode) {
   );
 
   useEffect(() => {
-    const key = cacheKey(userId, mode);
-    const cached = memoryCache.get(key);
+    const cached = getVisibleEntry(cacheKey(userId, mode));
     if (cached) {
       setDevices(cached.devices);
       setLastUpdated(cached.updatedAt);
+      setStaleSince(cached.staleSince ?? null);
     } else {
       setDevices([]);
       setLastUpdated(null);
+      setStaleSince(null);
     }
     setError(null);
   }, [mode, userId]);
@@ -170,15 +638,21 @@ export function useDevices(userId: number, mode: HaMode) {
   useEffect(() => {
     let cancelled = false;
     (async () => {
-      const cached = await readFromStorage(userId, mode);
+      await readFromStorage(userId, mode);
       if (cancelled || !mountedRef.current) return;
-      updateState(cached);
+      updateState(getVisibleEntry(cacheKey(userId, mode)));
       await refreshDevices({ background: true });
     })();
 
-    const intervalMs = mode === 'home' ? 1000 : 8000;
+    const intervalMs = mode === 'cloud' ? CLOUD_POLL_MS : HOME_FALLBACK_POLL_MS;
+    let lastPollAt = 0;
     const interval = setInterval(() => {
       if (appStateRef.current !== 'active') return;
+      if (liveRef.current) return;
+      // Auto mode served by the cloud polls at the cloud rate.
+      const now = Date.now();
+      if (mode === 'auto' && getServedHaRoute() === 'cloud' && now - lastPollAt < CLOUD_POLL_MS) return;
+      lastPollAt = now;
       void refreshDevices({ background: true });
     }, intervalMs);
 
@@ -191,12 +665,101 @@ export function useDevices(userId: number, mode: HaMode) {
   return {
     devices,
     lastUpdated,
+    // True while the devices shown are the last known ones because refreshes are failing.
+    stale: staleSince !== null,
     refreshing,
     error,
+    live,
     refreshDevices,
   };
 }
 
+function isSameList(a: UIDevice[], b: UIDevice[]) {
+  return a.length === b.length && a.every((d, i) => d === b[i]);
+}
+
+function useDeviceSelector<T>(
+  userId: number,
+  mode: HaMode,
+  sliceKey: string,
+  select: (devices: UIDevice[]) => T,
+  isEqual: (a: T, b: T) => boolean
+): T {
+  const key = cacheKey(userId, mode);
+  const snapshotKey = `${key}:${sliceKey}`;
+  const selectRef = useRef(select);
+  selectRef.current = select;
+  const lastRef = useRef<{ snapshotKey: string; devices: UIDevice[]; value: T } | null>(null);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => listenForEntries(key, () => onChange()),
+    [key]
+  );
+
+  const getSnapshot = useCallback(() => {
+    const devices = getVisibleEntry(key)?.devices ?? EMPTY_DEVICES;
+    const last = lastRef.current;
+    if (last && last.snapshotKey === snapshotKey) {
+      if (last.devices === devices) return last.value;
+      const value = selectRef.current(devices);
+      if (isEqual(last.value, value)) {
+        lastRef.current = { snapshotKey, devices, value: last.value };
+        return last.value;
+      }
+      lastRef.current = { snapshotKey, devices, value };
+      return value;
+    }
+    const value = selectRef.current(devices);
+    lastRef.current = { snapshotKey, devices, value };
+    return value;
+  }, [isEqual, key, snapshotKey]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+const sameDevice = (a: UIDevice | null, b: UIDevice | null) => a === b;
+
+// Selector hooks read from the shared cache kept fresh by useDevices; they do not fetch on their own.
+export function useDevice(userId: number, mode: HaMode, entityId: string | null): UIDevice | null {
+  return useDeviceSelector(
+    userId,
+    mode,
+    `device:${entityId ?? ''}`,
+    (devices) => (entityId ? getDeviceIndex(devices).get(entityId) ?? null : null),
+    sameDevice
+  );
+}
+
+export function useDevicesInArea(userId: number, mode: HaMode, area: string | null): UIDevice[] {
+  const target = (area ?? '').trim();
+  return useDeviceSelector(
+    userId,
+    mode,
+    `area:${target}`,
+    (devices) =>
+      target ? devices.filter((d) => (d.area ?? d.areaName ?? '').trim() === target) : EMPTY_DEVICES,
+    isSameList
+  );
+}
+
+export function useDevicesByLabel(userId: number, mode: HaMode, label: string | null): UIDevice[] {
+  const target = normalizeLabel(label).toLowerCase();
+  return useDeviceSelector(
+    userId,
+    mode,
+    `label:${target}`,
+    (devices) =>
+      target
+        ? devices.filter(
+            (d) =>
+              normalizeLabel(d.label).toLowerCase() === target ||
+              (d.labels ?? []).some((lbl) => normalizeLabel(lbl).toLowerCase() === target)
+          )
+        : EMPTY_DEVICES,
+    isSameList
+  );
+}
+
 export async function clearDeviceCacheForUserAndMode(
   userId: number,
   mode: HaMode
@@ -204,6 +767,8 @@ export async function clearDeviceCacheForUserAndMode(
   const key = cacheKey(userId, mode);
   memoryCache.delete(key);
   inFlight.delete(key);
+  cancelPendingPersist(key);
+  clearPendingCommands(key);
   try {
     await removeKey(key);
   } catch {
@@ -212,7 +777,7 @@ export async function clearDeviceCacheForUserAndMode(
 }
 
 export async function clearAllDeviceCacheForUser(userId: number): Promise<void> {
-  const modes: HaMode[] = ['home', 'cloud'];
+  const modes: HaMode[] = ['home', 'cloud', 'auto'];
   for (const mode of modes) {
     await clearDeviceCacheForUserAndMode(userId, mode);
   }
@@ -11,8 +11,12 @@ import { clearPlatformToken, getPlatformToken, setPlatformToken } from '../api/p
 import { clearTokens } from '../spotify/spotifyApi';
 import { loadJson, saveJson, removeKey } from '../utils/storage';
 import { clearAllDeviceCacheForUser } from './deviceStore';
+import { clearQueuedCommands } from './commandQueue';
 import { platformFetch } from '../api/platformFetch';
 import { clearHomeModeSecrets } from '../api/haSecrets';
+import { closeAllHaWsConnections } from '../api/haWebSocket';
+import { resetHaRouting } from '../api/haRouter';
+import { clearHaRegistryCache } from '../api/haRegistryCache';
 import { setOnSessionInvalid } from '../api/sessionInvalid';
 
 type Session = {
@@ -20,7 +24,7 @@ type Session = {
   haConnection: HaConnection | null;
 };
 
-export type HaMode = 'home' | 'cloud';
+export type HaMode = 'home' | 'cloud' | 'auto';
 
 type SessionContextValue = {
   session: Session;
@@ -73,6 +77,7 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
       await logoutRemote().catch(() => undefined);
       if (userId) {
         await clearAllDeviceCacheForUser(userId).catch(() => undefined);
+        await clearQueuedCommands(userId);
         await removeKey(`tenant_selected_area_${userId}`).catch(() => undefined);
       }
       await clearPlatformToken().catch(() => undefined);
@@ -85,6 +90,9 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
       }
       await removeKey(SESSION_KEY).catch(() => undefined);
       clearHomeModeSecrets({ deletePersisted: true });
+      await clearHaRegistryCache();
+      closeAllHaWsConnections();
+      resetHaRouting();
     } finally {
       setSessionState({ user: null, haConnection: null });
       setHaModeState('home');
@@ -237,9 +245,17 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     const sanitizedSession: Session = { user: s.user, haConnection: sanitizedHaConnection };
     if (previousUserId && s.user?.id && previousUserId !== s.user.id) {
       await clearAllDeviceCacheForUser(previousUserId).catch(() => undefined);
+      await clearQueuedCommands(previousUserId);
       await clearPlatformToken().catch(() => undefined);
       await clearPlatformCookie().catch(() => undefined);
       clearHomeModeSecrets();
+    } else if (
+      previousUserId &&
+      previousUserId === s.user?.id &&
+      (session.user?.role !== s.user.role || session.haConnection?.id !== sanitizedHaConnection?.id)
+    ) {
+      // Same account but a different hub or role: last-known devices may no longer be in scope.
+      await clearAllDeviceCacheForUser(previousUserId).catch(() => undefined);
     }
     setSessionState(sanitizedSession);
     setHaModeState('home');
@@ -257,8 +273,12 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     await clearPlatformToken().catch(() => undefined);
     await clearPlatformCookie().catch(() => undefined);
     clearHomeModeSecrets({ deletePersisted: true });
+    await clearHaRegistryCache();
+    closeAllHaWsConnections();
+    resetHaRouting();
     if (userId) {
       await clearAllDeviceCacheForUser(userId).catch(() => undefined);
+      await clearQueuedCommands(userId);
     }
   };
 
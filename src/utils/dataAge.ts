@@ -0,0 +1,10 @@
+// "just now", "4 min ago", "2 h ago", "3 days ago" for how old shown data is.
+export function formatDataAge(since: number, now: number = Date.now()): string {
+  const minutes = Math.floor(Math.max(0, now - since) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+}